@@ -12,8 +12,11 @@
   const state = {
     socket: null,
     serverTimeOffset: 0,
-    bidderName: localStorage.getItem('bidderName') || '',
+    token: localStorage.getItem('sessionToken') || '',
+    username: localStorage.getItem('username') || '',
     pendingBid: null,
+    watchlist: new Set(),
+    watchingOnly: localStorage.getItem('watchingOnly') === 'true',
     timers: {}
   }
 
@@ -23,10 +26,14 @@
   const elements = {
     modal: document.getElementById('bidder-modal'),
     modalInput: document.getElementById('bidder-name-input'),
+    modalPassword: document.getElementById('bidder-password-input'),
     modalCancel: document.getElementById('modal-cancel'),
+    modalRegister: document.getElementById('modal-register'),
     modalConfirm: document.getElementById('modal-confirm'),
     toast: document.getElementById('toast'),
-    serverTimeDisplay: document.getElementById('server-time-display')
+    serverTimeDisplay: document.getElementById('server-time-display'),
+    auctionGrid: document.getElementById('auction-grid'),
+    watchingFilter: document.getElementById('watching-filter')
   }
 
   // ============================================
@@ -37,6 +44,7 @@
     initializeSocket()
     startServerTimeClock()
     startCountdownTimers()
+    applyWatchingFilter()
     attachEventListeners()
 
     console.log('Live Auction Platform initialized')
@@ -65,11 +73,29 @@
   // SOCKET.IO CONNECTION
   // ============================================
   function initializeSocket () {
-    state.socket = io()
+    // The session token identifies us as a bidder; without one we can only watch
+    state.socket = io({
+      auth: cb => cb({ token: state.token })
+    })
 
     state.socket.on('connect', () => {
       console.log('Socket.io connected:', state.socket.id)
       showToast('Connected to auction server', 'success')
+
+      // Rooms don't survive reconnects - (re)subscribe to every card shown
+      document.querySelectorAll('.auction-card').forEach(card => {
+        subscribeToItem(card.dataset.itemId)
+      })
+
+      // Catch up on anything missed while disconnected (or since page load)
+      requestSync()
+
+      // A bid waiting on login is placed once the authenticated socket is up
+      if (state.token && state.pendingBid) {
+        const pendingBid = state.pendingBid
+        state.pendingBid = null
+        placeBid(pendingBid.itemId, pendingBid.amount, pendingBid.isProxy)
+      }
     })
 
     state.socket.on('disconnect', () => {
@@ -77,10 +103,70 @@
       showToast('Disconnected from server', 'error')
     })
 
+    // The handshake refuses bidders banned for rate limit abuse
+    state.socket.on('connect_error', (err) => {
+      if (err.message !== 'BANNED') return
+
+      const retryAfterMs = (err.data && err.data.retryAfterMs) || 60000
+      showToast(
+        `Too many bids - you are blocked for ${Math.ceil(retryAfterMs / 1000)}s`,
+        'error'
+      )
+      scheduleReconnect(retryAfterMs)
+    })
+
     state.socket.on('UPDATE_BID', handleUpdateBid)
     state.socket.on('BID_ACCEPTED', handleBidAccepted)
+    state.socket.on('SEALED_BID_ACCEPTED', handleSealedBidAccepted)
     state.socket.on('OUTBID', handleOutbid)
+    state.socket.on('AUCTION_STARTED', handleAuctionStarted)
     state.socket.on('AUCTION_ENDED', handleAuctionEnded)
+    state.socket.on('AUCTION_EXTENDED', handleAuctionExtended)
+    state.socket.on('ITEM_CREATED', handleItemCreated)
+    state.socket.on('ITEM_UPDATED', handleItemUpdated)
+    state.socket.on('AUCTION_CANCELLED', handleAuctionCancelled)
+    state.socket.on('BID_RETRACTED', handleBidRetracted)
+    state.socket.on('AUTH_REQUIRED', handleAuthRequired)
+    state.socket.on('RATE_LIMITED', handleRateLimited)
+    state.socket.on('SYNC', handleSync)
+    state.socket.on('SERVER_SHUTDOWN', handleServerShutdown)
+    state.socket.on('WATCHLIST', handleWatchlist)
+    state.socket.on('WATCH_REJECTED', handleWatchRejected)
+    state.socket.on('AUCTION_ENDING_SOON', handleAuctionEndingSoon)
+  }
+
+  /**
+   * Send the version of every card shown; the server replies with SYNC
+   */
+  function requestSync () {
+    const versions = {}
+    document.querySelectorAll('.auction-card').forEach(card => {
+      versions[card.dataset.itemId] = parseInt(card.dataset.version, 10)
+    })
+
+    if (Object.keys(versions).length > 0) {
+      state.socket.emit('SYNC_REQUEST', { versions })
+    }
+  }
+
+  /**
+   * Reconnect once a ban lapses (server-side disconnects don't auto-reconnect)
+   */
+  function scheduleReconnect (delayMs) {
+    setTimeout(() => {
+      if (state.socket && !state.socket.connected) {
+        state.socket.connect()
+      }
+    }, delayMs)
+  }
+
+  /**
+   * Join the item's room to receive its UPDATE_BID / AUCTION_EXTENDED events
+   */
+  function subscribeToItem (itemId) {
+    if (state.socket && state.socket.connected && itemId) {
+      state.socket.emit('SUBSCRIBE_ITEM', { itemId })
+    }
   }
 
   // ============================================
@@ -88,7 +174,7 @@
   // ============================================
 
   /**
-   * Handle bid update broadcast (sent to all clients)
+   * Handle bid update (sent to clients subscribed to the item)
    */
   function handleUpdateBid (item) {
     console.log('UPDATE_BID:', item)
@@ -96,9 +182,29 @@
     const card = document.getElementById(`auction-${item.id}`)
     if (!card) return
 
+    // Updates can arrive out of order (e.g. across instances); keep the newest
+    if (isStale(card, item)) return
+    card.dataset.version = item.version
+
+    // Sealed bids reveal nothing but how many there are
+    if (isSealedCard(card)) {
+      updateCardSealedBidCount(card, item.bidCount)
+      return
+    }
+
     updateCardPrice(card, item.currentBid)
     updateCardBidder(card, item.highestBidder)
+    updateCardNextMinimumBid(card, item.nextMinimumBid)
+    updateCardReserve(card, item.reserveMet)
     flashCard(card, 'green')
+
+    // Buy it now is only offered while bidding is below its price
+    if (item.buyNowPrice && item.currentBid >= item.buyNowPrice) {
+      const buyNowButton = card.querySelector('.buy-now-button')
+      if (buyNowButton) {
+        buyNowButton.disabled = true
+      }
+    }
   }
 
   /**
@@ -107,6 +213,9 @@
   function handleBidAccepted (item) {
     console.log('BID_ACCEPTED:', item)
 
+    // Buy now and Dutch takes win outright; AUCTION_ENDED congratulates us
+    if (item.ended) return
+
     const card = document.getElementById(`auction-${item.id}`)
     if (!card) return
 
@@ -115,7 +224,26 @@
   }
 
   /**
-   * Handle bid rejection (sent to bidder whose bid was rejected)
+   * Handle a sealed bid being recorded (sent to every socket of the bidder)
+   * The amount stays private until the auction ends
+   */
+  function handleSealedBidAccepted (data) {
+    console.log('SEALED_BID_ACCEPTED:', data)
+
+    const card = document.getElementById(`auction-${data.itemId}`)
+    if (!card) return
+
+    updateCardSealedBidCount(card, data.bidCount)
+    flashCard(card, 'green')
+    showToast(
+      `Sealed bid of ${formatMoney(data.amount, card.dataset.currency)} submitted`,
+      'success'
+    )
+  }
+
+  /**
+   * Handle bid rejection or displacement (sent to the rejected bidder, or
+   * to every socket of the bidder who lost the lead)
    */
   function handleOutbid (data) {
     console.log('OUTBID:', data)
@@ -128,27 +256,268 @@
     showToast(data.message, 'error')
   }
 
+  /**
+   * Handle a scheduled auction opening for bidding (broadcast to all clients)
+   */
+  function handleAuctionStarted (item) {
+    console.log('AUCTION_STARTED:', item)
+
+    if (document.getElementById(`auction-${item.id}`)) {
+      renderCard(item.id)
+    }
+    showToast(`${item.title} is now open for bidding`, 'info')
+  }
+
   /**
    * Handle auction ending (broadcast to all clients)
    */
   function handleAuctionEnded (item) {
     console.log('AUCTION_ENDED:', item)
 
+    // The winner hears about it even if the card isn't on this page
+    const isWinner = Boolean(item.winner) && item.winner === state.username
+    if (isWinner) {
+      showToast(
+        `🎉 You won ${item.title} for ${formatMoney(item.currentBid, item.currency)}!`,
+        'success'
+      )
+    }
+
     const card = document.getElementById(`auction-${item.id}`)
     if (!card) return
 
     card.dataset.ended = 'true'
+    card.classList.remove('ending-soon')
     updateCardStatus(card, 'ended')
     disableBidButton(card)
     stopCountdown(item.id)
 
+    // Sealed bids are revealed and Dutch clocks stop at the price taken
+    if (card.dataset.auctionType !== 'english') {
+      renderCard(item.id)
+    }
+
     const timerElement = card.querySelector('[data-timer]')
     if (timerElement) {
       timerElement.innerHTML =
         '<span class="timer-expired">Auction Ended</span>'
     }
 
-    showToast(`${item.title} auction has ended`, 'info')
+    updateCardEndReason(card, item.endReason)
+
+    const endMessages = {
+      RESERVE_NOT_MET: `${item.title} ended - reserve not met`,
+      BOUGHT_NOW: `${item.title} sold via Buy Now`,
+      TAKEN: `${item.title} taken at ${formatMoney(item.currentBid, item.currency)}`
+    }
+    if (!isWinner) {
+      showToast(
+        endMessages[item.endReason] || `${item.title} auction has ended`,
+        'info'
+      )
+    }
+  }
+
+  /**
+   * Handle soft-close extension (sent to clients subscribed to the item)
+   * Restarts the countdown against the new server-side end time
+   */
+  function handleAuctionExtended (data) {
+    console.log('AUCTION_EXTENDED:', data)
+
+    const card = document.getElementById(`auction-${data.itemId}`)
+    if (!card) return
+
+    card.dataset.endsAt = data.endsAt
+    startCountdown(data.itemId, data.endsAt)
+    showToast('Late bid! Auction extended', 'info')
+  }
+
+  /**
+   * Handle a new auction created by an admin (broadcast to all clients)
+   */
+  function handleItemCreated (item) {
+    console.log('ITEM_CREATED:', item)
+
+    renderCard(item.id)
+    showToast(`New auction: ${item.title}`, 'info')
+  }
+
+  /**
+   * Handle an admin edit (broadcast to all clients)
+   */
+  function handleItemUpdated (item) {
+    console.log('ITEM_UPDATED:', item)
+
+    renderCard(item.id)
+  }
+
+  /**
+   * Handle an admin cancellation (broadcast to all clients)
+   */
+  function handleAuctionCancelled (item) {
+    console.log('AUCTION_CANCELLED:', item)
+
+    renderCard(item.id)
+    showToast(`${item.title} auction was cancelled`, 'info')
+  }
+
+  /**
+   * Handle an admin voiding a bid (broadcast to all clients)
+   * The card is re-rendered so the price, leader and buy-now state roll back
+   */
+  function handleBidRetracted (data) {
+    console.log('BID_RETRACTED:', data)
+
+    const { item, bid } = data
+    if (document.getElementById(`auction-${item.id}`)) {
+      renderCard(item.id)
+    }
+
+    if (bid.bidderName === state.username) {
+      showToast(
+        `Your ${formatMoney(bid.amount, item.currency)} bid on ${item.title} was retracted: ${bid.retractReason}`,
+        'error'
+      )
+    } else if (item.highestBidder && item.highestBidder === state.username) {
+      showToast(`A bid was retracted - you're winning ${item.title} again`, 'success')
+    } else {
+      showToast(`A bid on ${item.title} was retracted`, 'info')
+    }
+  }
+
+  /**
+   * Handle the reply to SYNC_REQUEST: only items that changed while we were
+   * away, re-rendered from the server
+   */
+  function handleSync (data) {
+    console.log('SYNC:', data)
+
+    state.serverTimeOffset = data.serverTime - Date.now()
+
+    data.items.forEach(item => {
+      const card = document.getElementById(`auction-${item.id}`)
+      if (card && !isStale(card, item)) {
+        renderCard(item.id)
+      }
+    })
+
+    if (data.items.length > 0) {
+      showToast(`Caught up on ${data.items.length} changed auction(s)`, 'info')
+    }
+  }
+
+  /**
+   * Handle our watchlist (sent on connect and after every change, from any
+   * of our sessions)
+   */
+  function handleWatchlist (data) {
+    console.log('WATCHLIST:', data)
+
+    state.watchlist = new Set(data.itemIds)
+    document.querySelectorAll('.auction-card').forEach(updateCardWatching)
+  }
+
+  /**
+   * Handle a watch request the server turned down
+   */
+  function handleWatchRejected (data) {
+    console.log('WATCH_REJECTED:', data)
+
+    showToast(data.message, 'error')
+  }
+
+  /**
+   * Handle a watched auction nearing its end (sent only to its watchers)
+   */
+  function handleAuctionEndingSoon (data) {
+    console.log('AUCTION_ENDING_SOON:', data)
+
+    showToast(
+      `⏰ ${data.title} ends in ${formatDuration(data.endsAt - data.serverTime)}`,
+      'info'
+    )
+
+    const card = document.getElementById(`auction-${data.itemId}`)
+    if (!card || card.dataset.ended === 'true') return
+
+    card.classList.add('ending-soon')
+    flashCard(card, 'red')
+  }
+
+  /**
+   * Fetch a server-rendered card and insert it, or replace the existing one
+   * unless the shown card is already newer
+   * Keeps the card markup in one place (views/partials/auctionCard.hbs)
+   */
+  async function renderCard (itemId) {
+    try {
+      const response = await fetch(`/cards/${encodeURIComponent(itemId)}`)
+      if (!response.ok) return
+
+      const template = document.createElement('template')
+      template.innerHTML = (await response.text()).trim()
+      const card = template.content.firstElementChild
+      if (!card) return
+
+      const existing = document.getElementById(`auction-${itemId}`)
+      if (existing) {
+        // An update applied while the card was being fetched wins
+        if (isStale(existing, { version: parseInt(card.dataset.version, 10) })) return
+        existing.replaceWith(card)
+      } else {
+        const grid = document.getElementById('auction-grid')
+        if (!grid) return
+        grid.prepend(card)
+        subscribeToItem(itemId)
+
+        const emptyMessage = document.querySelector('.no-auctions')
+        if (emptyMessage) emptyMessage.remove()
+      }
+      updateCardWatching(card)
+
+      stopCountdown(itemId)
+      if (card.dataset.ended !== 'true') {
+        startCountdown(itemId, parseInt(card.dataset.endsAt, 10))
+      }
+    } catch (error) {
+      console.error('Failed to render auction card:', error)
+    }
+  }
+
+  /**
+   * Handle a bid sent without a valid session (e.g. expired token)
+   */
+  function handleAuthRequired (data) {
+    console.log('AUTH_REQUIRED:', data)
+
+    state.token = ''
+    localStorage.removeItem('sessionToken')
+    showToast(data.message, 'error')
+    openModal()
+  }
+
+  /**
+   * Handle a bid refused for bidding too fast; a ban also disconnects us
+   */
+  function handleRateLimited (data) {
+    console.log('RATE_LIMITED:', data)
+
+    showToast(data.message, 'error')
+
+    if (data.banned) {
+      scheduleReconnect(data.retryAfterMs)
+    }
+  }
+
+  /**
+   * The server we're connected to is shutting down; Socket.io reconnects
+   * through the load balancer once it drops the connection, then resyncs
+   */
+  function handleServerShutdown (data) {
+    console.log('SERVER_SHUTDOWN:', data)
+
+    showToast(data.message, 'info')
   }
 
   // ============================================
@@ -158,7 +527,7 @@
   function updateCardPrice (card, newPrice) {
     const priceElement = card.querySelector('.price-amount')
     if (priceElement) {
-      priceElement.textContent = newPrice.toLocaleString()
+      priceElement.textContent = formatMoney(newPrice, card.dataset.currency)
     }
 
     const priceValue = card.querySelector('[data-current-bid]')
@@ -167,6 +536,46 @@
     }
   }
 
+  function updateCardNextMinimumBid (card, nextMinimumBid) {
+    if (typeof nextMinimumBid !== 'number') return
+
+    const button = card.querySelector('[data-next-minimum-bid]')
+    if (button) {
+      button.dataset.nextMinimumBid = nextMinimumBid
+    }
+
+    const amountElement = card.querySelector('.next-bid-amount')
+    if (amountElement) {
+      amountElement.textContent = formatMoney(nextMinimumBid, card.dataset.currency)
+    }
+  }
+
+  function updateCardEndReason (card, endReason) {
+    const reasonElement = card.querySelector('.end-reason')
+    if (!reasonElement) return
+
+    const reasonText = {
+      RESERVE_NOT_MET: 'Reserve not met',
+      BOUGHT_NOW: 'Sold via Buy Now',
+      TAKEN: 'Taken at the clock price',
+      CANCELLED: 'Cancelled'
+    }
+    reasonElement.dataset.endReason = endReason || ''
+    reasonElement.textContent = reasonText[endReason] || ''
+  }
+
+  function updateCardReserve (card, reserveMet) {
+    const reasonElement = card.querySelector('.end-reason')
+    if (!reasonElement || card.dataset.ended === 'true') return
+
+    // Only items with a reserve carry reserveMet
+    if (reserveMet === false) {
+      reasonElement.textContent = 'Reserve not yet met'
+    } else if (reserveMet === true) {
+      reasonElement.textContent = ''
+    }
+  }
+
   function updateCardBidder (card, bidderName) {
     const bidderElement = card.querySelector('.highest-bidder')
     if (bidderElement) {
@@ -178,12 +587,21 @@
     }
   }
 
+  function updateCardSealedBidCount (card, bidCount) {
+    const countElement = card.querySelector('[data-sealed-bid-count]')
+    if (countElement && typeof bidCount === 'number') {
+      countElement.dataset.sealedBidCount = bidCount
+      countElement.textContent = `Sealed bids: ${bidCount}`
+    }
+  }
+
   function updateCardStatus (card, status) {
     const badge = card.querySelector('.status-badge')
     if (!badge) return
 
     // Remove all status classes
     badge.classList.remove(
+      'status-scheduled',
       'status-active',
       'status-winning',
       'status-outbid',
@@ -195,6 +613,7 @@
 
     // Update text
     const statusText = {
+      scheduled: 'Scheduled',
       active: 'Active',
       winning: 'Winning',
       outbid: 'Outbid',
@@ -204,6 +623,18 @@
     badge.dataset.status = status
   }
 
+  function updateCardWatching (card) {
+    const watching = state.watchlist.has(card.dataset.itemId)
+    card.classList.toggle('watching', watching)
+
+    const button = card.querySelector('[data-watch-action]')
+    if (button) {
+      button.classList.toggle('watching', watching)
+      button.textContent = watching ? '★' : '☆'
+      button.title = watching ? 'Stop watching' : 'Watch this auction'
+    }
+  }
+
   function flashCard (card, color) {
     const className = color === 'green' ? 'flash-green' : 'flash-red'
     card.classList.add(className)
@@ -211,10 +642,85 @@
   }
 
   function disableBidButton (card) {
-    const button = card.querySelector('.bid-button')
-    if (button) {
-      button.disabled = true
+    card
+      .querySelectorAll(
+        '.bid-button, .buy-now-button, .proxy-bid-button, .proxy-bid-input'
+      )
+      .forEach(control => {
+        control.disabled = true
+      })
+  }
+
+  function enableBidButton (card) {
+    card
+      .querySelectorAll(
+        '.bid-button, .buy-now-button, .proxy-bid-button, .proxy-bid-input'
+      )
+      .forEach(control => {
+        control.disabled = false
+      })
+  }
+
+  // ============================================
+  // MONEY
+  // Amounts from the server are integer minor units (e.g. cents)
+  // ============================================
+
+  function getMinorUnitDigits (currency) {
+    return new Intl.NumberFormat('en', { style: 'currency', currency })
+      .resolvedOptions().maximumFractionDigits
+  }
+
+  function formatMoney (amount, currency) {
+    return new Intl.NumberFormat('en', { style: 'currency', currency })
+      .format(amount / 10 ** getMinorUnitDigits(currency))
+  }
+
+  /**
+   * Converts a typed decimal amount to minor units, or null if it has more
+   * decimal places than the currency allows
+   */
+  function toMinorUnits (text, currency) {
+    const digits = getMinorUnitDigits(currency)
+    const match = /^(\d+)(?:\.(\d*))?$/.exec(String(text).trim())
+    if (!match || (match[2] || '').length > digits) {
+      return null
     }
+    return parseInt(match[1] + (match[2] || '').padEnd(digits, '0'), 10)
+  }
+
+  // ============================================
+  // VERSIONS
+  // Every change to an item bumps its version
+  // ============================================
+
+  function isStale (card, item) {
+    return item.version < parseInt(card.dataset.version, 10)
+  }
+
+  // ============================================
+  // AUCTION FORMATS
+  // ============================================
+
+  function isSealedCard (card) {
+    const auctionType = card.dataset.auctionType
+    return auctionType === 'sealed_first_price' || auctionType === 'sealed_second_price'
+  }
+
+  /**
+   * The Dutch clock price at the given time (mirrors takeDutchPrice.lua)
+   */
+  function getDutchPrice (card, serverTime) {
+    const drops = Math.floor(
+      Math.max(serverTime - parseInt(card.dataset.startsAt, 10), 0) /
+        parseInt(card.dataset.priceDropIntervalMs, 10)
+    )
+
+    return Math.max(
+      parseInt(card.dataset.floorPrice, 10),
+      parseInt(card.dataset.startingPrice, 10) -
+        parseInt(card.dataset.priceDrop, 10) * drops
+    )
   }
 
   // ============================================
@@ -255,6 +761,23 @@
     if (!timerElement) return
 
     const now = getServerTime()
+    const card = document.getElementById(`auction-${itemId}`)
+
+    // Scheduled auctions count down to their start first
+    if (card && card.dataset.status === 'scheduled') {
+      const untilStart = parseInt(card.dataset.startsAt, 10) - now
+      if (untilStart > 0) {
+        timerElement.innerHTML =
+          `<span class="timer-scheduled">Starts in ${formatDuration(untilStart)}</span>`
+        return
+      }
+
+      // Open bidding on time; AUCTION_STARTED re-renders the card shortly
+      card.dataset.status = 'live'
+      updateCardStatus(card, 'active')
+      enableBidButton(card)
+    }
+
     const remaining = endsAt - now
 
     if (remaining <= 0) {
@@ -263,32 +786,42 @@
       stopCountdown(itemId)
 
       // Disable bid button
-      const card = document.getElementById(`auction-${itemId}`)
       if (card) {
         disableBidButton(card)
       }
       return
     }
 
-    const seconds = Math.floor(remaining / 1000)
+    // Dutch prices tick down with the clock
+    if (card && card.dataset.auctionType === 'dutch') {
+      const price = getDutchPrice(card, now)
+      const priceElement = card.querySelector('.price-amount')
+      if (priceElement) {
+        priceElement.textContent = formatMoney(price, card.dataset.currency)
+      }
+      updateCardNextMinimumBid(card, price)
+    }
+
+    // Add urgency class if less than 10 seconds
+    const className = remaining < 10000 ? 'timer-urgent' : 'timer-countdown'
+    timerElement.innerHTML =
+      `<span class="${className}">${formatDuration(remaining)}</span>`
+  }
+
+  function formatDuration (ms) {
+    const seconds = Math.floor(ms / 1000)
     const minutes = Math.floor(seconds / 60)
     const hours = Math.floor(minutes / 60)
 
     const remainingSeconds = seconds % 60
     const remainingMinutes = minutes % 60
 
-    let timeString = ''
     if (hours > 0) {
-      timeString = `${hours}h ${remainingMinutes}m ${remainingSeconds}s`
+      return `${hours}h ${remainingMinutes}m ${remainingSeconds}s`
     } else if (minutes > 0) {
-      timeString = `${minutes}m ${remainingSeconds}s`
-    } else {
-      timeString = `${seconds}s`
+      return `${minutes}m ${remainingSeconds}s`
     }
-
-    // Add urgency class if less than 10 seconds
-    const className = seconds < 10 ? 'timer-urgent' : 'timer-countdown'
-    timerElement.innerHTML = `<span class="${className}">${timeString}</span>`
+    return `${seconds}s`
   }
 
   function stopCountdown (itemId) {
@@ -320,6 +853,36 @@
     elements.serverTimeDisplay.textContent = `${hours}:${minutes}:${seconds}`
   }
 
+  // ============================================
+  // WATCHLIST
+  // ============================================
+
+  function applyWatchingFilter () {
+    if (elements.watchingFilter) {
+      elements.watchingFilter.checked = state.watchingOnly
+    }
+    if (elements.auctionGrid) {
+      elements.auctionGrid.classList.toggle('watching-only', state.watchingOnly)
+    }
+  }
+
+  function handleWatchButtonClick (button) {
+    if (!state.token) {
+      openModal()
+      return
+    }
+    if (!state.socket || !state.socket.connected) {
+      showToast('Not connected to server', 'error')
+      return
+    }
+
+    // The server replies with WATCHLIST, which updates every card
+    const itemId = button.dataset.watchAction
+    state.socket.emit(state.watchlist.has(itemId) ? 'UNWATCH_ITEM' : 'WATCH_ITEM', {
+      itemId
+    })
+  }
+
   // ============================================
   // BID PLACEMENT
   // ============================================
@@ -335,30 +898,82 @@
       handleBidButtonClick(bidButton)
     })
 
+    // Buy now clicks
+    document.addEventListener('click', e => {
+      const buyNowButton = e.target.closest('[data-buy-now-action]')
+      if (!buyNowButton || buyNowButton.disabled) return
+
+      handleBuyNowButtonClick(buyNowButton)
+    })
+
+    // Sealed bid clicks
+    document.addEventListener('click', e => {
+      const sealedButton = e.target.closest('[data-sealed-action]')
+      if (!sealedButton || sealedButton.disabled) return
+
+      handleSealedButtonClick(sealedButton)
+    })
+
+    // Max (proxy) bid clicks
+    document.addEventListener('click', e => {
+      const proxyButton = e.target.closest('[data-proxy-action]')
+      if (!proxyButton || proxyButton.disabled) return
+
+      handleProxyButtonClick(proxyButton)
+    })
+
+    // Watch toggle clicks
+    document.addEventListener('click', e => {
+      const watchButton = e.target.closest('[data-watch-action]')
+      if (!watchButton) return
+
+      handleWatchButtonClick(watchButton)
+    })
+
+    // Watching filter (kept across page loads)
+    if (elements.watchingFilter) {
+      elements.watchingFilter.addEventListener('change', () => {
+        state.watchingOnly = elements.watchingFilter.checked
+        localStorage.setItem('watchingOnly', String(state.watchingOnly))
+        applyWatchingFilter()
+      })
+    }
+
     // Modal events
     if (elements.modalCancel) {
-      elements.modalCancel.addEventListener('click', closeModal)
+      elements.modalCancel.addEventListener('click', cancelModal)
     }
 
     if (elements.modalConfirm) {
-      elements.modalConfirm.addEventListener('click', confirmBid)
+      elements.modalConfirm.addEventListener('click', () => authenticate('login'))
     }
 
-    // Enter key in modal input
-    if (elements.modalInput) {
-      elements.modalInput.addEventListener('keypress', e => {
+    if (elements.modalRegister) {
+      elements.modalRegister.addEventListener('click', () =>
+        authenticate('register')
+      )
+    }
+
+    // Enter key in modal inputs
+    ;[elements.modalInput, elements.modalPassword].forEach(input => {
+      if (!input) return
+
+      input.addEventListener('keypress', e => {
         if (e.key === 'Enter') {
-          confirmBid()
+          authenticate('login')
         }
       })
 
-      elements.modalInput.addEventListener('input', () => {
-        if (elements.modalConfirm) {
-          elements.modalConfirm.disabled =
-            elements.modalInput.value.trim() === ''
-        }
+      input.addEventListener('input', () => {
+        const incomplete =
+          !elements.modalInput ||
+          !elements.modalPassword ||
+          elements.modalInput.value.trim() === '' ||
+          elements.modalPassword.value === ''
+        if (elements.modalConfirm) elements.modalConfirm.disabled = incomplete
+        if (elements.modalRegister) elements.modalRegister.disabled = incomplete
       })
-    }
+    })
   }
 
   function handleBidButtonClick (button) {
@@ -366,60 +981,126 @@
     const card = document.getElementById(`auction-${itemId}`)
     if (!card) return
 
-    const bidElement = card.querySelector('[data-current-bid]')
-    if (!bidElement) {
-      console.error('Current bid element not found for item:', itemId)
-      return
-    }
+    // The server enforces the increment table; bid exactly its minimum
+    const newBid = parseInt(button.dataset.nextMinimumBid, 10)
 
-    const currentBid = parseFloat(bidElement.dataset.currentBid)
-    const increment = parseFloat(button.dataset.bidIncrement || '0')
-    const newBid = currentBid + increment
+    console.log('New bid:', newBid)
 
-    // Store pending bid
-    state.pendingBid = { itemId, amount: newBid }
+    requestBid({ itemId, amount: newBid, isProxy: false })
+  }
+
+  function handleBuyNowButtonClick (button) {
+    const itemId = button.dataset.buyNowAction
+    const buyNowPrice = parseInt(button.dataset.buyNowPrice, 10)
+
+    // A bid at the buy-now price wins outright
+    requestBid({ itemId, amount: buyNowPrice, isProxy: false })
+  }
 
-    console.log('Bidder name:', state.bidderName)
-    console.log('Current Bid:', currentBid)
-    console.log('New Bif:', newBid)
+  function handleProxyButtonClick (button) {
+    const itemId = button.dataset.proxyAction
+    const input = document.querySelector(`[data-proxy-input="${itemId}"]`)
+    if (!input) return
 
-    // Show modal if no bidder name stored
-    if (!state.bidderName) {
-      console.log('OPENING MODAL')
+    const maxAmount = readAmountInput(itemId, input, 'Enter your maximum bid')
+    if (maxAmount === null) return
+
+    input.value = ''
+    requestBid({ itemId, amount: maxAmount, isProxy: true })
+  }
+
+  function handleSealedButtonClick (button) {
+    const itemId = button.dataset.sealedAction
+    const input = document.querySelector(`[data-sealed-input="${itemId}"]`)
+    if (!input) return
+
+    const amount = readAmountInput(itemId, input, 'Enter your sealed bid')
+    if (amount === null) return
+
+    input.value = ''
+    requestBid({ itemId, amount, isProxy: false })
+  }
+
+  /**
+   * Reads a typed amount as minor units of the card's currency, or shows
+   * why it can't be used and returns null
+   */
+  function readAmountInput (itemId, input, emptyMessage) {
+    const card = document.getElementById(`auction-${itemId}`)
+    const currency = card ? card.dataset.currency : 'USD'
+    const value = parseFloat(input.value)
+    if (!value || value <= 0) {
+      showToast(emptyMessage, 'error')
+      return null
+    }
+
+    // Bids are sent in minor units; reject more decimals than the currency has
+    const amount = toMinorUnits(input.value, currency)
+    if (amount === null) {
+      showToast(
+        `${currency} amounts have at most ${getMinorUnitDigits(currency)} decimal places`,
+        'error'
+      )
+    }
+    return amount
+  }
+
+  /**
+   * Place a bid now, or hold it and ask the user to log in first
+   */
+  function requestBid (bid) {
+    if (!state.token) {
+      state.pendingBid = bid
       openModal()
-    } else {
-      placeBid(itemId, newBid, state.bidderName)
+      return
     }
+
+    placeBid(bid.itemId, bid.amount, bid.isProxy)
   }
 
-  function placeBid (itemId, amount, bidderName) {
+  function placeBid (itemId, amount, isProxy = false) {
     if (!state.socket || !state.socket.connected) {
       showToast('Not connected to server', 'error')
       return
     }
 
-    console.log('Placing bid:', { itemId, amount, bidderName })
+    if (isProxy) {
+      // The maximum stays server-side; the server bids on our behalf
+      console.log('Placing max bid:', { itemId })
+
+      state.socket.emit('PROXY_BID_PLACED', {
+        itemId,
+        maxAmount: amount
+      })
+
+      showToast('Maximum bid set...', 'info')
+      return
+    }
+
+    console.log('Placing bid:', { itemId, amount })
 
     state.socket.emit('BID_PLACED', {
       itemId,
-      amount,
-      bidderName
+      amount
     })
 
     showToast('Bid placed...', 'info')
   }
 
   // ============================================
-  // MODAL
+  // MODAL (LOGIN / REGISTER)
   // ============================================
 
   function openModal () {
     if (elements.modal) {
       elements.modal.classList.add('show')
       if (elements.modalInput) {
-        elements.modalInput.value = state.bidderName
+        elements.modalInput.value = state.username
         elements.modalInput.focus()
       }
+      if (elements.modalPassword) {
+        elements.modalPassword.value = ''
+      }
     }
   }
 
@@ -427,29 +1108,65 @@
     if (elements.modal) {
       elements.modal.classList.remove('show')
     }
+  }
+
+  function cancelModal () {
+    closeModal()
     state.pendingBid = null
   }
 
-  function confirmBid () {
-    if (!elements.modalInput) {
-      console.error('Modal input not found')
+  /**
+   * Log in (or register) and reconnect the socket as the authenticated bidder
+   */
+  async function authenticate (action) {
+    if (!elements.modalInput || !elements.modalPassword) {
+      console.error('Modal inputs not found')
       return
     }
 
-    const name = elements.modalInput.value.trim()
-    if (!name) {
-      showToast('Please enter your name', 'error')
+    const username = elements.modalInput.value.trim()
+    const password = elements.modalPassword.value
+    if (!username || !password) {
+      showToast('Please enter your username and password', 'error')
       return
     }
 
-    state.bidderName = name
-    localStorage.setItem('bidderName', name)
+    try {
+      const response = await fetch(`/auth/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      })
+      const result = await response.json()
 
-    closeModal()
+      if (!response.ok) {
+        const messages = {
+          USERNAME_TAKEN: 'That username is taken',
+          INVALID_CREDENTIALS: 'Wrong username or password'
+        }
+        showToast(
+          messages[result.error] ||
+            (result.errors || []).join('. ') ||
+            'Login failed',
+          'error'
+        )
+        return
+      }
+
+      state.token = result.token
+      state.username = result.bidder.username
+      localStorage.setItem('sessionToken', state.token)
+      localStorage.setItem('username', state.username)
+
+      closeModal()
+      showToast(`Logged in as ${state.username}`, 'success')
 
-    if (state.pendingBid) {
-      placeBid(state.pendingBid.itemId, state.pendingBid.amount, name)
-      state.pendingBid = null
+      // Reconnect so the handshake carries the new token; a pending bid is
+      // placed on connect
+      state.socket.disconnect().connect()
+    } catch (error) {
+      console.error('Authentication failed:', error)
+      showToast('Login failed', 'error')
     }
   }
 
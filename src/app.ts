@@ -5,23 +5,43 @@ import cors from 'cors'
 import path from 'path'
 import itemsRouter from './routes/items.route'
 import pagesRouter from './routes/pages.route'
+import authRouter from './routes/auth.route'
+import resultsRouter from './routes/results.route'
+import biddersRouter from './routes/bidders.route'
+import eventsRouter from './routes/events.route'
+import metricsRouter from './routes/metrics.route'
+import healthRouter from './routes/health.route'
+import webhooksRouter from './routes/webhooks.route'
+import watchlistRouter from './routes/watchlist.route'
+import { authenticate } from './middleware/auth.middleware'
+import { requestContext } from './middleware/requestContext.middleware'
 import { initializeBiddingSocket } from './sockets/bidding.socket'
+import { authenticateSocket } from './sockets/auth.socket'
+import { initializeEventStream } from './streams/event.stream'
 import {
   ServerToClientEvents,
   ClientToServerEvents,
   InterServerEvents,
-  SocketData
+  SocketData,
+  TypedServer
 } from './types/socket'
 import { engine } from 'express-handlebars'
+import { createAdapter } from '@socket.io/redis-adapter'
+import { createAdapterClients } from './config/redis'
+import { formatMoney } from './utils/money'
+import { isSealed } from './utils/auctionFormat'
+import { AuctionType } from './models/auctionItem'
 
 /**
  * Creates and configures the Express application with Socket.io
+ * Socket.io uses the Redis adapter so broadcasts reach clients connected to
+ * any server instance
  */
-export function createApp (): {
+export async function createApp (): Promise<{
   app: Application
   httpServer: HTTPServer
-  io: Server
-} {
+  io: TypedServer
+}> {
   const app: Application = express()
 
   // View engine setup (EJS)
@@ -31,7 +51,12 @@ export function createApp (): {
       extname: 'hbs',
       defaultLayout: 'main',
       layoutsDir: path.join(__dirname, '..', 'views/layouts'),
-      partialsDir: path.join(__dirname, '..', 'views/partials')
+      partialsDir: path.join(__dirname, '..', 'views/partials'),
+      helpers: {
+        eq: (a: unknown, b: unknown) => a === b,
+        money: (amount: number, currency: string) => formatMoney(amount, currency),
+        sealed: (auctionType: AuctionType) => isSealed(auctionType)
+      }
     })
   )
 
@@ -44,19 +69,28 @@ export function createApp (): {
   app.use(
     cors({
       origin: '*',
-      methods: ['GET', 'POST']
+      methods: ['GET', 'POST', 'PATCH', 'DELETE']
     })
   )
+  // Correlation ID and access log for everything but static files
+  app.use(requestContext)
   app.use(express.json())
+  app.use(authenticate)
 
-  // Health check endpoint
-  app.get('/health', (req, res) => {
-    console.log(req)
-    res.json({ status: 'ok', timestamp: Date.now() })
-  })
+  // Liveness and readiness checks
+  app.use('/health', healthRouter)
+
+  // Prometheus scrape endpoint
+  app.use('/metrics', metricsRouter)
 
   // REST API routes
+  app.use('/auth', authRouter)
   app.use('/items', itemsRouter)
+  app.use('/results', resultsRouter)
+  app.use('/bidders', biddersRouter)
+  app.use('/watchlist', watchlistRouter)
+  app.use('/events', eventsRouter)
+  app.use('/webhooks', webhooksRouter)
 
   // Page routes (must be last to avoid conflicting with API routes)
   app.use('/', pagesRouter)
@@ -77,8 +111,18 @@ export function createApp (): {
     }
   })
 
+  // Fan broadcasts out through Redis pub/sub to every instance
+  const { pubClient, subClient } = await createAdapterClients()
+  io.adapter(createAdapter(pubClient, subClient))
+
+  // Identify bidders from the handshake token (anonymous sockets may watch)
+  io.use(authenticateSocket)
+
   // Initialize socket handlers
   initializeBiddingSocket(io)
 
+  // Feed the SSE stream (GET /events), relaying between instances
+  initializeEventStream(io)
+
   return { app, httpServer, io }
 }
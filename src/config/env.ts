@@ -1,4 +1,7 @@
 import dotenv from 'dotenv'
+import { hostname } from 'os'
+import { randomBytes } from 'crypto'
+import { BidIncrementTier } from '../models/auctionItem'
 
 dotenv.config()
 
@@ -8,6 +11,30 @@ interface Config {
   redisPort: number
   nodeEnv: string
   redisPassword: string
+  recordRejectedBids: boolean
+  bidHistoryPreviewSize: number
+  defaultBidIncrements: BidIncrementTier[]
+  defaultCurrency: string
+  seedOnStartup: boolean
+  sessionSecret: string
+  sessionTtlSeconds: number
+  adminUsernames: string[]
+  instanceId: string
+  leaderLockTtlMs: number
+  bidderBidBurst: number
+  bidderBidsPerSecond: number
+  socketBidBurst: number
+  socketBidsPerSecond: number
+  rateLimitMaxViolations: number
+  rateLimitViolationWindowMs: number
+  rateLimitBanMs: number
+  logLevel: string
+  shutdownTimeoutMs: number
+  webhookMaxAttempts: number
+  webhookRetryBaseMs: number
+  webhookTimeoutMs: number
+  endingSoonThresholdsMs: number[]
+  auctionStore: 'redis' | 'memory'
 }
 
 function getEnvVar (key: string, defaultValue?: string): string {
@@ -18,10 +45,112 @@ function getEnvVar (key: string, defaultValue?: string): string {
   return value
 }
 
+function parseBidIncrements (key: string, defaultValue: string): BidIncrementTier[] {
+  const invalid = new Error(`Environment variable ${key} must be a non-empty increment table`)
+
+  let tiers: BidIncrementTier[]
+  try {
+    tiers = JSON.parse(getEnvVar(key, defaultValue))
+  } catch {
+    throw invalid
+  }
+
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    throw invalid
+  }
+
+  // placeBid.lua takes the first tier whose upTo is above the bid, so the
+  // bounds must ascend
+  let previousUpTo = 0
+  for (const tier of tiers) {
+    if (typeof tier?.increment !== 'number' || !(tier.increment > 0)) {
+      throw invalid
+    }
+    if (tier.upTo !== undefined) {
+      if (typeof tier.upTo !== 'number' || !(tier.upTo > previousUpTo)) {
+        throw invalid
+      }
+      previousUpTo = tier.upTo
+    }
+  }
+  return tiers
+}
+
+function parseEndingSoonThresholds (key: string, defaultValue: string): number[] {
+  const thresholds = getEnvVar(key, defaultValue)
+    .split(',')
+    .map(seconds => Number(seconds.trim()) * 1000)
+
+  if (thresholds.some(threshold => !Number.isInteger(threshold) || threshold <= 0)) {
+    throw new Error(`Environment variable ${key} must be a list of positive seconds`)
+  }
+  // Largest first, without duplicates
+  return [...new Set(thresholds)].sort((a, b) => b - a)
+}
+
+function parseAuctionStore (key: string, defaultValue: string): Config['auctionStore'] {
+  const backend = getEnvVar(key, defaultValue).toLowerCase()
+
+  if (backend !== 'redis' && backend !== 'memory') {
+    throw new Error(`Environment variable ${key} must be redis or memory`)
+  }
+  return backend
+}
+
 export const config: Config = {
   port: parseInt(getEnvVar('PORT', '3000'), 10),
   redisHost: getEnvVar('REDIS_HOST', 'localhost'),
   redisPort: parseInt(getEnvVar('REDIS_PORT', '6379'), 10),
   nodeEnv: getEnvVar('NODE_ENV', 'development'),
-  redisPassword: getEnvVar('REDIS_PASSWORD', 'localhost')
+  redisPassword: getEnvVar('REDIS_PASSWORD', 'localhost'),
+  recordRejectedBids: getEnvVar('RECORD_REJECTED_BIDS', 'false') === 'true',
+  bidHistoryPreviewSize: parseInt(getEnvVar('BID_HISTORY_PREVIEW_SIZE', '5'), 10),
+  // In major units, scaled to each item's currency
+  defaultBidIncrements: parseBidIncrements(
+    'BID_INCREMENTS',
+    '[{"upTo":1000,"increment":10},{"upTo":5000,"increment":50},{"increment":100}]'
+  ),
+  // Currency for new auctions that don't name one, and for items stored
+  // before currencies existed
+  defaultCurrency: getEnvVar('DEFAULT_CURRENCY', 'USD').toUpperCase(),
+  seedOnStartup: getEnvVar('SEED_ON_STARTUP', 'false') === 'true',
+  sessionSecret: getEnvVar('SESSION_SECRET', 'dev-session-secret-change-me'),
+  sessionTtlSeconds: parseInt(getEnvVar('SESSION_TTL_SECONDS', '86400'), 10),
+  adminUsernames: (process.env.ADMIN_USERNAMES || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name !== ''),
+  instanceId: getEnvVar(
+    'INSTANCE_ID',
+    `${hostname()}-${process.pid}-${randomBytes(4).toString('hex')}`
+  ),
+  leaderLockTtlMs: parseInt(getEnvVar('LEADER_LOCK_TTL_MS', '5000'), 10),
+  // Token buckets for bids: burst is the bucket size, refilled at the per-second rate
+  bidderBidBurst: parseInt(getEnvVar('BIDDER_BID_BURST', '10'), 10),
+  bidderBidsPerSecond: parseFloat(getEnvVar('BIDDER_BIDS_PER_SECOND', '2')),
+  socketBidBurst: parseInt(getEnvVar('SOCKET_BID_BURST', '5'), 10),
+  socketBidsPerSecond: parseFloat(getEnvVar('SOCKET_BIDS_PER_SECOND', '1')),
+  // Rate-limited bids within the window before the bidder is banned
+  rateLimitMaxViolations: parseInt(getEnvVar('RATE_LIMIT_MAX_VIOLATIONS', '20'), 10),
+  rateLimitViolationWindowMs: parseInt(getEnvVar('RATE_LIMIT_VIOLATION_WINDOW_MS', '60000'), 10),
+  rateLimitBanMs: parseInt(getEnvVar('RATE_LIMIT_BAN_MS', '300000'), 10),
+  // Lowest level written by the logger: debug, info, warn or error
+  logLevel: getEnvVar('LOG_LEVEL', 'info').toLowerCase(),
+  // Shutdown exits anyway if draining takes longer than this
+  shutdownTimeoutMs: parseInt(getEnvVar('SHUTDOWN_TIMEOUT_MS', '15000'), 10),
+  // Attempts before a delivery is dead-lettered; retry n waits base * 2^(n-1)
+  webhookMaxAttempts: parseInt(getEnvVar('WEBHOOK_MAX_ATTEMPTS', '10'), 10),
+  webhookRetryBaseMs: parseInt(getEnvVar('WEBHOOK_RETRY_BASE_MS', '5000'), 10),
+  webhookTimeoutMs: parseInt(getEnvVar('WEBHOOK_TIMEOUT_MS', '5000'), 10),
+  // Watchers are alerted as an auction's remaining time crosses each of these
+  endingSoonThresholdsMs: parseEndingSoonThresholds('ENDING_SOON_ALERT_SECONDS', '300,60'),
+  // Where auctions and bids live; memory is for tests and single-instance development
+  auctionStore: parseAuctionStore('AUCTION_STORE', 'redis')
+}
+
+if (
+  config.nodeEnv === 'production' &&
+  config.sessionSecret === 'dev-session-secret-change-me'
+) {
+  throw new Error('Environment variable SESSION_SECRET must be set in production')
 }
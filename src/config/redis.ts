@@ -1,9 +1,11 @@
 import { createClient } from 'redis'
 import { config } from './env'
+import { logger } from '../utils/logger'
 
 export type RedisClientType = ReturnType<typeof createClient>
 
 let redisClient: RedisClientType | null = null
+let adapterClients: RedisClientType[] = []
 
 export async function getRedisClient (): Promise<RedisClientType> {
   if (redisClient && redisClient.isOpen) {
@@ -18,7 +20,7 @@ export async function getRedisClient (): Promise<RedisClientType> {
 
       reconnectStrategy: retries => {
         if (retries > 10) {
-          console.error('Redis connection failed after 10 retries')
+          logger.error('Redis connection failed after 10 retries')
           return new Error('Redis connection failed')
         }
         return retries * 500
@@ -27,15 +29,15 @@ export async function getRedisClient (): Promise<RedisClientType> {
   })
 
   redisClient.on('error', err => {
-    console.error('Redis Client Error:', err)
+    logger.error('Redis client error', { error: err })
   })
 
   redisClient.on('connect', () => {
-    console.log('Redis client connected')
+    logger.info('Redis client connected')
   })
 
   redisClient.on('ready', () => {
-    console.log('Redis client ready')
+    logger.info('Redis client ready')
   })
 
   await redisClient.connect()
@@ -43,10 +45,41 @@ export async function getRedisClient (): Promise<RedisClientType> {
   return redisClient
 }
 
+/**
+ * Creates the dedicated pub/sub connections used by the Socket.io Redis adapter
+ * (a subscribed connection cannot run regular commands)
+ */
+export async function createAdapterClients (): Promise<{
+  pubClient: RedisClientType
+  subClient: RedisClientType
+}> {
+  const client = await getRedisClient()
+  const pubClient = client.duplicate()
+  const subClient = client.duplicate()
+
+  for (const adapterClient of [pubClient, subClient]) {
+    adapterClient.on('error', err => {
+      logger.error('Redis adapter client error', { error: err })
+    })
+  }
+
+  await Promise.all([pubClient.connect(), subClient.connect()])
+  adapterClients = [pubClient, subClient]
+
+  return { pubClient, subClient }
+}
+
 export async function closeRedisClient (): Promise<void> {
+  for (const adapterClient of adapterClients) {
+    if (adapterClient.isOpen) {
+      await adapterClient.quit()
+    }
+  }
+  adapterClients = []
+
   if (redisClient && redisClient.isOpen) {
     await redisClient.quit()
     redisClient = null
-    console.log('Redis client disconnected')
+    logger.info('Redis client disconnected')
   }
 }
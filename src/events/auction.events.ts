@@ -0,0 +1,43 @@
+import { EventEmitter } from 'events'
+import { AuctionItem, BidRecord, BidStatus } from '../models/auctionItem'
+
+/**
+ * Domain events raised by the service layer
+ * Transport layers (Socket.io, the SSE stream, webhooks) subscribe and fan
+ * them out to clients
+ */
+export interface AuctionEventMap {
+  ITEM_CREATED: AuctionItem
+  ITEM_UPDATED: AuctionItem
+  AUCTION_CANCELLED: AuctionItem
+  BID_RETRACTED: { item: AuctionItem, bid: BidRecord }
+  BID_UPDATED: AuctionItem // a bid changed the price, leader or bid count
+  BID_ACCEPTED: { item: AuctionItem, bidderName: string, status: BidStatus, bid?: BidRecord } // per accepted English history entry (with `bid`), sealed bid or Dutch take
+  OUTBID: { item: AuctionItem, bidderName: string } // bidderName lost the lead
+  SEALED_BID_ACCEPTED: { item: AuctionItem, bidderName: string, amount: number }
+  AUCTION_STARTED: AuctionItem
+  AUCTION_EXTENDED: AuctionItem // a late bid pushed endsAt forward (soft close)
+  AUCTION_ENDED: AuctionItem
+  AUCTION_ENDING_SOON: { item: AuctionItem, thresholdMs: number, watchers: string[] } // only watchers are told
+  WATCHLIST_UPDATED: { bidderName: string, itemIds: string[] }
+}
+
+export type AuctionEventName = keyof AuctionEventMap
+
+class AuctionEventBus extends EventEmitter {
+  emit<E extends AuctionEventName> (
+    event: E,
+    payload: AuctionEventMap[E]
+  ): boolean {
+    return super.emit(event, payload)
+  }
+
+  on<E extends AuctionEventName> (
+    event: E,
+    listener: (payload: AuctionEventMap[E]) => void
+  ): this {
+    return super.on(event, listener)
+  }
+}
+
+export const auctionEvents = new AuctionEventBus()
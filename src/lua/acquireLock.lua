@@ -0,0 +1,29 @@
+-- acquireLock.lua
+-- Acquires a lock, or renews it if this owner already holds it
+--
+-- KEYS[1]: Redis key for the lock (e.g., "auction:lock:expiry-worker")
+--
+-- ARGV[1]: owner id (string, unique per server instance)
+-- ARGV[2]: lock TTL (millis)
+--
+-- RETURN VALUES:
+--   1  = held by this owner (acquired or renewed)
+--   0  = held by another owner
+
+local key = KEYS[1]
+local owner = ARGV[1]
+local ttlMs = ARGV[2]
+
+local holder = redis.call('GET', key)
+
+if holder == owner then
+  redis.call('PEXPIRE', key, ttlMs)
+  return 1
+end
+
+if holder == false then
+  redis.call('SET', key, owner, 'PX', ttlMs)
+  return 1
+end
+
+return 0
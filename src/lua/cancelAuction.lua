@@ -0,0 +1,51 @@
+-- cancelAuction.lua
+-- Atomically cancels an auction that is scheduled or live
+--
+-- KEYS[1]: Redis key for the auction item (e.g., "auction:item:123")
+-- KEYS[2]: Redis key for the expiry index of live auctions (sorted set scored by endsAt)
+-- KEYS[3]: Redis key for the start index of scheduled auctions (sorted set scored by startsAt)
+-- KEYS[4]: Redis key for the set of scheduled auctions
+-- KEYS[5]: Redis key for the set of live auctions
+-- KEYS[6]: Redis key for the set of cancelled auctions
+-- KEYS[7]: Redis key for the set of auctions awaiting settlement
+--
+-- ARGV[1]: item ID (the member in the indexes)
+-- ARGV[2]: current server time (epoch millis)
+--
+-- RETURN VALUES:
+--   1  = cancelled by this call
+--   0  = missing, already ended or already cancelled
+
+local key = KEYS[1]
+local expiryKey = KEYS[2]
+local startKey = KEYS[3]
+local scheduledKey = KEYS[4]
+local liveKey = KEYS[5]
+local cancelledKey = KEYS[6]
+local pendingKey = KEYS[7]
+local itemId = ARGV[1]
+local serverTime = ARGV[2]
+
+if redis.call('EXISTS', key) == 0 then
+  return 0
+end
+
+local status = redis.call('HGET', key, 'status')
+if status ~= 'scheduled' and status ~= 'live' then
+  return 0
+end
+
+redis.call('HINCRBY', key, 'version', 1)
+redis.call('HSET', key,
+  'status', 'cancelled',
+  'ended', 'true',
+  'endReason', 'CANCELLED',
+  'endedAt', serverTime)
+redis.call('ZREM', expiryKey, itemId)
+redis.call('ZREM', startKey, itemId)
+redis.call('SREM', scheduledKey, itemId)
+redis.call('SREM', liveKey, itemId)
+redis.call('SADD', cancelledKey, itemId)
+redis.call('SADD', pendingKey, itemId)
+
+return 1
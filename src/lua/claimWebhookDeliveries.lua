@@ -0,0 +1,29 @@
+-- claimWebhookDeliveries.lua
+-- Atomically claims due webhook deliveries for one instance
+--
+-- KEYS[1]: Redis key for the delivery queue (sorted set of delivery IDs
+--          scored by next attempt time)
+--
+-- ARGV[1]: current server time (millis)
+-- ARGV[2]: maximum number of deliveries to claim
+-- ARGV[3]: lease expiry (millis); claimed deliveries are hidden until then
+--
+-- A claimed delivery stays queued with its score pushed to the lease expiry,
+-- so if the claiming instance dies before recording the attempt, another
+-- instance retries it once the lease lapses.
+--
+-- RETURN VALUES:
+--   array of claimed delivery IDs, earliest due first
+
+local queueKey = KEYS[1]
+local serverTime = ARGV[1]
+local limit = tonumber(ARGV[2])
+local leaseUntil = ARGV[3]
+
+local ids = redis.call('ZRANGEBYSCORE', queueKey, '-inf', serverTime, 'LIMIT', 0, limit)
+
+for _, id in ipairs(ids) do
+  redis.call('ZADD', queueKey, leaseUntil, id)
+end
+
+return ids
@@ -0,0 +1,128 @@
+-- endAuction.lua
+-- Atomically ends a live auction if it is still due, recording why it ended
+--
+-- KEYS[1]: Redis key for the auction item (e.g., "auction:item:123")
+-- KEYS[2]: Redis key for the expiry index of live auctions (sorted set scored by endsAt)
+-- KEYS[3]: Redis key for the set of live auctions
+-- KEYS[4]: Redis key for the set of ended auctions
+-- KEYS[5]: Redis key for the set of auctions awaiting settlement
+-- KEYS[6]: Redis key for the item's sealed bids (e.g., "auction:sealed:123")
+-- KEYS[7]: Redis key for the item's bid history list (e.g., "auction:bids:123")
+-- KEYS[8]: Redis key for the current bid index (sorted set)
+--
+-- ARGV[1]: current server time (epoch millis)
+-- ARGV[2]: item ID (the member in the expiry index)
+--
+-- The index entry is removed once the auction has ended, and re-scored from
+-- endsAt when it is not yet due, so the scheduler wakes at the right time.
+--
+-- Only live -> ended happens here; scheduled auctions are started first by
+-- startAuction.lua.
+--
+-- Sealed-bid auctions are revealed here: the highest sealed bid wins (ties go
+-- to the earlier bid), paying its own amount (first price) or the runner-up's
+-- amount, never below the starting price or the reserve (second price). Every
+-- sealed bid is then written to the history.
+--
+-- RETURN VALUES:
+--   1  = ended by this call
+--   0  = missing, not live, or not yet due (e.g. extended by a late bid)
+
+local key = KEYS[1]
+local expiryKey = KEYS[2]
+local liveKey = KEYS[3]
+local endedKey = KEYS[4]
+local pendingKey = KEYS[5]
+local sealedKey = KEYS[6]
+local historyKey = KEYS[7]
+local currentBidIndexKey = KEYS[8]
+local serverTime = tonumber(ARGV[1])
+local itemId = ARGV[2]
+
+if redis.call('EXISTS', key) == 0 then
+  redis.call('ZREM', expiryKey, itemId)
+  return 0
+end
+
+local status = redis.call('HGET', key, 'status')
+local endsAt = tonumber(redis.call('HGET', key, 'endsAt'))
+
+if status ~= 'live' then
+  redis.call('ZREM', expiryKey, itemId)
+  return 0
+end
+
+if serverTime <= endsAt then
+  redis.call('ZADD', expiryKey, endsAt, itemId)
+  return 0
+end
+
+local currentBid = tonumber(redis.call('HGET', key, 'currentBid'))
+local highestBidder = redis.call('HGET', key, 'highestBidder') or ''
+local reservePrice = tonumber(redis.call('HGET', key, 'reservePrice')) or 0
+local auctionType = redis.call('HGET', key, 'auctionType') or 'english'
+local version = tonumber(redis.call('HGET', key, 'version')) + 1
+
+if auctionType == 'sealed_first_price' or auctionType == 'sealed_second_price' then
+  local bids = {}
+  local sealed = redis.call('HGETALL', sealedKey)
+  for i = 1, #sealed, 2 do
+    local bid = cjson.decode(sealed[i + 1])
+    bid.bidderName = sealed[i]
+    table.insert(bids, bid)
+  end
+
+  if #bids > 0 then
+    table.sort(bids, function (a, b)
+      if a.amount ~= b.amount then
+        return a.amount > b.amount
+      end
+      return a.timestamp < b.timestamp
+    end)
+
+    local winner = bids[1]
+    highestBidder = winner.bidderName
+    currentBid = winner.amount
+    if auctionType == 'sealed_second_price' then
+      local runnerUp = bids[2] and bids[2].amount or 0
+      local startingPrice = tonumber(redis.call('HGET', key, 'startingPrice'))
+      currentBid = math.max(runnerUp, startingPrice, math.min(reservePrice, winner.amount))
+    end
+
+    redis.call('HSET', key,
+      'currentBid', currentBid,
+      'highestBidder', highestBidder)
+    redis.call('ZADD', currentBidIndexKey, currentBid, itemId)
+
+    -- Oldest first, so the history list stays newest first
+    table.sort(bids, function (a, b) return a.timestamp < b.timestamp end)
+    for _, bid in ipairs(bids) do
+      redis.call('LPUSH', historyKey, cjson.encode({
+        amount = bid.amount,
+        bidderName = bid.bidderName,
+        timestamp = bid.timestamp,
+        version = version,
+        status = 'BID_SEALED'
+      }))
+    end
+  end
+end
+
+-- Below the hidden reserve there is no winner
+local endReason = 'TIME_EXPIRED'
+if reservePrice > 0 and (highestBidder == '' or currentBid < reservePrice) then
+  endReason = 'RESERVE_NOT_MET'
+end
+
+redis.call('HSET', key,
+  'status', 'ended',
+  'ended', 'true',
+  'endReason', endReason,
+  'endedAt', serverTime,
+  'version', version)
+redis.call('ZREM', expiryKey, itemId)
+redis.call('SREM', liveKey, itemId)
+redis.call('SADD', endedKey, itemId)
+redis.call('SADD', pendingKey, itemId)
+
+return 1
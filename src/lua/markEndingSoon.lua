@@ -0,0 +1,32 @@
+-- markEndingSoon.lua
+-- Records that an auction's "ending soon" alert for a threshold is being
+-- sent, unless it was already sent for (about) the same end time
+--
+-- KEYS[1]: Redis hash of alerts sent for the item (e.g., "auction:ending-soon:item123")
+--          field = threshold (millis), value = the endsAt alerted for
+--
+-- ARGV[1]: threshold (millis)
+-- ARGV[2]: the auction's current endsAt (epoch millis)
+-- ARGV[3]: when the record may be deleted (epoch millis)
+--
+-- A soft-close extension re-arms the alert only once it has pushed the end
+-- out by more than the threshold, so a bidding war doesn't repeat it
+--
+-- RETURN VALUES:
+--   1  = alert should be sent
+--   0  = already sent
+
+local key = KEYS[1]
+local threshold = tonumber(ARGV[1])
+local endsAt = tonumber(ARGV[2])
+local expireAt = ARGV[3]
+
+local alertedFor = tonumber(redis.call('HGET', key, ARGV[1]))
+
+if alertedFor and endsAt <= alertedFor + threshold then
+  return 0
+end
+
+redis.call('HSET', key, ARGV[1], ARGV[2])
+redis.call('PEXPIREAT', key, expireAt)
+return 1
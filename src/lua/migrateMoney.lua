@@ -0,0 +1,69 @@
+-- migrateMoney.lua
+-- Atomically converts an auction stored with decimal amounts to integer
+-- minor units in the given currency
+--
+-- KEYS[1]: Redis key for the auction item (e.g., "auction:item:123")
+-- KEYS[2]: Redis key for the item's bid history list (e.g., "auction:bids:123")
+-- KEYS[3]: Redis key for the item's hidden proxy maxima (e.g., "auction:proxy:123")
+-- KEYS[4]: Redis key for the current bid index (sorted set)
+--
+-- ARGV[1]: currency to assign (ISO 4217 code)
+-- ARGV[2]: minor units per major unit (e.g. 100 for USD, 1 for JPY)
+--
+-- Items that already have a currency are left alone, so the script can run
+-- on every startup. Amounts are rounded to the nearest minor unit.
+--
+-- RETURN VALUES:
+--   1  = converted by this call
+--   0  = missing or already converted
+
+local key = KEYS[1]
+local historyKey = KEYS[2]
+local proxyKey = KEYS[3]
+local currentBidIndexKey = KEYS[4]
+local currency = ARGV[1]
+local factor = tonumber(ARGV[2])
+
+if redis.call('EXISTS', key) == 0 or redis.call('HEXISTS', key, 'currency') == 1 then
+  return 0
+end
+
+local function toMinor(amount)
+  return math.floor(tonumber(amount) * factor + 0.5)
+end
+
+for _, field in ipairs({ 'startingPrice', 'currentBid', 'reservePrice', 'buyNowPrice' }) do
+  local value = redis.call('HGET', key, field)
+  if value then
+    redis.call('HSET', key, field, toMinor(value))
+  end
+end
+
+local increments = redis.call('HGET', key, 'bidIncrements')
+if increments then
+  local tiers = cjson.decode(increments)
+  for _, tier in ipairs(tiers) do
+    if type(tier.upTo) == 'number' then
+      tier.upTo = toMinor(tier.upTo)
+    end
+    tier.increment = toMinor(tier.increment)
+  end
+  redis.call('HSET', key, 'bidIncrements', cjson.encode(tiers))
+end
+
+local proxies = redis.call('HGETALL', proxyKey)
+for i = 1, #proxies, 2 do
+  redis.call('HSET', proxyKey, proxies[i], toMinor(proxies[i + 1]))
+end
+
+local entries = redis.call('LRANGE', historyKey, 0, -1)
+for i, entry in ipairs(entries) do
+  local bid = cjson.decode(entry)
+  bid.amount = toMinor(bid.amount)
+  redis.call('LSET', historyKey, i - 1, cjson.encode(bid))
+end
+
+redis.call('HSET', key, 'currency', currency)
+redis.call('ZADD', currentBidIndexKey, redis.call('HGET', key, 'currentBid'), redis.call('HGET', key, 'id'))
+
+return 1
\ No newline at end of file
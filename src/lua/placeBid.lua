@@ -1,52 +1,260 @@
 -- placeBid.lua
--- Atomically validates and places a bid on an auction item
+-- Atomically validates and places a bid on an auction item, resolving
+-- proxy (maximum) bids eBay-style within the same call
 --
 -- KEYS[1]: Redis key for the auction item (e.g., "auction:item:123")
+-- KEYS[2]: Redis key for the item's bid history list (e.g., "auction:bids:123")
+-- KEYS[3]: Redis key for the item's hidden proxy maxima (e.g., "auction:proxy:123")
+-- KEYS[4]: Redis key for the expiry index of live auctions (sorted set scored by endsAt)
+-- KEYS[5]: Redis key for the endsAt index of all auctions (sorted set)
+-- KEYS[6]: Redis key for the current bid index (sorted set)
+-- KEYS[7]: Redis key for the bid count index (sorted set)
+-- KEYS[8]: Redis key for the set of live auctions
+-- KEYS[9]: Redis key for the set of ended auctions
+-- KEYS[10]: Redis key for the set of auctions awaiting settlement
+-- KEYS[11]: Redis key for the start index of scheduled auctions (sorted set scored by startsAt)
+-- KEYS[12]: Redis key for the set of scheduled auctions
 --
--- ARGV[1]: bid amount (number)
+-- ARGV[1]: bid amount, or the bidder's maximum when ARGV[5] is "1" (number)
 -- ARGV[2]: bidder name (string)
 -- ARGV[3]: current server time (epoch millis)
+-- ARGV[4]: record rejected bids in history ("1" | "0")
+-- ARGV[5]: proxy bid ("1" | "0")
+-- ARGV[6]: default bid increment table, used when the item has none
+--          (JSON: [{ "upTo": 1000, "increment": 10 }, ..., { "increment": 100 }])
 --
--- RETURN VALUES:
+-- Every bid must be at least the current bid plus the increment for the
+-- current bid's tier; proxy counter-bids also step by that increment.
+--
+-- Accepted bids placed within the item's soft-close window push endsAt
+-- forward (see softClose* fields), capped at originalEndsAt plus the maximum
+-- total extension. The query indexes (see auction.store.ts) follow every
+-- change, and ended auctions leave the expiry index.
+--
+-- Scheduled auctions reject bids until startsAt. A bid arriving once startsAt
+-- has passed starts the auction itself (scheduled -> live, as in
+-- startAuction.lua) rather than waiting for the scheduler.
+--
+-- A manual bid at or above the item's buy-it-now price (while the current bid
+-- is still below it) wins outright at that price and ends the auction. A late
+-- bid that finds the auction expired is rejected without ending it: the item
+-- stays in the expiry index, so the expiry worker ends and announces it once.
+--
+-- RETURN VALUES: { code, accepted... } where code is
+--   3  = BOUGHT_NOW
+--   2  = OUTBID_BY_PROXY (bid counted, but the leader's proxy out-bid it)
 --   1  = BID_ACCEPTED
 --   0  = BID_TOO_LOW
 --  -1  = AUCTION_ENDED
+--  -2  = BID_BELOW_INCREMENT (above the current bid, but by less than the increment)
+--  -3  = NOT_STARTED
+-- followed by the history entries this call accepted (JSON, oldest first):
+-- none when only a leader's maximum changed, two when a proxy defended
 
 local key = KEYS[1]
+local historyKey = KEYS[2]
+local proxyKey = KEYS[3]
+local expiryKey = KEYS[4]
+local endsAtIndexKey = KEYS[5]
+local currentBidIndexKey = KEYS[6]
+local bidCountIndexKey = KEYS[7]
+local liveKey = KEYS[8]
+local endedKey = KEYS[9]
+local pendingKey = KEYS[10]
+local startKey = KEYS[11]
+local scheduledKey = KEYS[12]
 
 local bidAmount = tonumber(ARGV[1])
 local bidderName = ARGV[2]
 local serverTime = tonumber(ARGV[3])
+local recordRejected = ARGV[4] == '1'
+local isProxy = ARGV[5] == '1'
+local defaultIncrements = ARGV[6]
 
 -- Check if auction exists
 if redis.call('EXISTS', key) == 0 then
-  return -1
+  return { -1 }
 end
 
 -- Read current state
+local itemId = redis.call('HGET', key, 'id')
 local currentBid = tonumber(redis.call('HGET', key, 'currentBid'))
+local highestBidder = redis.call('HGET', key, 'highestBidder') or ''
 local endsAt = tonumber(redis.call('HGET', key, 'endsAt'))
-local ended = redis.call('HGET', key, 'ended')
+local startsAt = tonumber(redis.call('HGET', key, 'startsAt')) or 0
+local status = redis.call('HGET', key, 'status')
 local version = tonumber(redis.call('HGET', key, 'version'))
+local originalEndsAt = tonumber(redis.call('HGET', key, 'originalEndsAt')) or endsAt
+local softCloseWindowMs = tonumber(redis.call('HGET', key, 'softCloseWindowMs')) or 0
+local softCloseExtensionMs = tonumber(redis.call('HGET', key, 'softCloseExtensionMs')) or 0
+local softCloseMaxExtensionMs = tonumber(redis.call('HGET', key, 'softCloseMaxExtensionMs')) or 0
+local buyNowPrice = tonumber(redis.call('HGET', key, 'buyNowPrice')) or 0
+local incrementTiers = cjson.decode(redis.call('HGET', key, 'bidIncrements') or defaultIncrements)
+
+-- Returns the increment for the tier the given amount falls in
+local function incrementFor(amount)
+  for _, tier in ipairs(incrementTiers) do
+    if type(tier.upTo) ~= 'number' or amount < tier.upTo then
+      return tier.increment
+    end
+  end
+  return incrementTiers[#incrementTiers].increment
+end
+
+-- History entries accepted by this call, returned to the caller
+local accepted = {}
+
+-- Appends a bid to the item's history (newest first) and returns the entry
+local function recordBid(amount, bidder, status, autoBid)
+  local entry = cjson.encode({
+    amount = amount,
+    bidderName = bidder,
+    timestamp = serverTime,
+    version = version,
+    status = status,
+    autoBid = autoBid or nil
+  })
+  redis.call('LPUSH', historyKey, entry)
+  return entry
+end
+
+-- Makes a bidder the leader at the given amount
+local function acceptBid(amount, bidder, autoBid)
+  version = version + 1
+  redis.call('HSET', key,
+    'currentBid', amount,
+    'highestBidder', bidder,
+    'version', version)
+  redis.call('HINCRBY', key, 'bidCount', 1)
+  redis.call('ZADD', currentBidIndexKey, amount, itemId)
+  redis.call('ZINCRBY', bidCountIndexKey, 1, itemId)
+  table.insert(accepted, recordBid(amount, bidder, 'BID_ACCEPTED', autoBid))
+end
+
+-- The reply: the result code, then the entries accepted along the way
+local function reply(code)
+  return { code, unpack(accepted) }
+end
+
+-- Ends the auction, moves it out of the live indexes and queues settlement
+local function markEnded(endReason)
+  version = version + 1
+  redis.call('HSET', key,
+    'status', 'ended',
+    'ended', 'true',
+    'endReason', endReason,
+    'endedAt', serverTime,
+    'version', version)
+  redis.call('ZREM', expiryKey, itemId)
+  redis.call('SREM', liveKey, itemId)
+  redis.call('SADD', endedKey, itemId)
+  redis.call('SADD', pendingKey, itemId)
+end
+
+-- Anti-sniping: an accepted bid inside the soft-close window extends endsAt
+local function extendIfLate()
+  if softCloseExtensionMs <= 0 or endsAt - serverTime > softCloseWindowMs then
+    return
+  end
+  local newEndsAt = math.min(
+    serverTime + softCloseExtensionMs,
+    originalEndsAt + softCloseMaxExtensionMs
+  )
+  if newEndsAt > endsAt then
+    endsAt = newEndsAt
+    redis.call('HSET', key, 'endsAt', endsAt)
+    redis.call('ZADD', expiryKey, endsAt, itemId)
+    redis.call('ZADD', endsAtIndexKey, endsAt, itemId)
+  end
+end
 
--- Check if auction has ended
-if ended == 'true' or serverTime > endsAt then
-  -- Mark as ended if time expired
-  if ended ~= 'true' then
-    redis.call('HSET', key, 'ended', 'true')
+-- Scheduled auctions open at startsAt
+if status == 'scheduled' then
+  if serverTime < startsAt then
+    if recordRejected then
+      recordBid(bidAmount, bidderName, 'NOT_STARTED', isProxy)
+    end
+    return reply(-3)
   end
-  return -1
+  status = 'live'
+  version = version + 1
+  redis.call('HSET', key, 'status', status, 'version', version)
+  redis.call('ZREM', startKey, itemId)
+  redis.call('ZADD', expiryKey, endsAt, itemId)
+  redis.call('SREM', scheduledKey, itemId)
+  redis.call('SADD', liveKey, itemId)
 end
 
--- Validate bid is strictly greater than current bid
+-- Check if auction has ended; an expired live auction is left to the expiry worker
+if status ~= 'live' or serverTime > endsAt then
+  if recordRejected then
+    recordBid(bidAmount, bidderName, 'AUCTION_ENDED', isProxy)
+  end
+  return reply(-1)
+end
+
+-- Buy it now: a manual bid at the buy-now price wins outright, proxies included
+if not isProxy and buyNowPrice > 0 and currentBid < buyNowPrice and bidAmount >= buyNowPrice then
+  acceptBid(buyNowPrice, bidderName, false)
+  markEnded('BOUGHT_NOW')
+  return reply(3)
+end
+
+-- Validate bid (or maximum) is strictly greater than current bid
 if bidAmount <= currentBid then
-  return 0
+  if recordRejected then
+    recordBid(bidAmount, bidderName, 'BID_TOO_LOW', isProxy)
+  end
+  return reply(0)
 end
 
--- Atomically update the auction state
-redis.call('HSET', key, 'currentBid', bidAmount)
-redis.call('HSET', key, 'highestBidder', bidderName)
-redis.call('HSET', key, 'version', version + 1)
+-- Validate bid (or maximum) clears the minimum increment
+if bidAmount < currentBid + incrementFor(currentBid) then
+  if recordRejected then
+    recordBid(bidAmount, bidderName, 'BID_BELOW_INCREMENT', isProxy)
+  end
+  return reply(-2)
+end
+
+if isProxy then
+  redis.call('HSET', proxyKey, bidderName, bidAmount)
+end
 
-return 1
+-- The leader raising their own bid or maximum
+if highestBidder == bidderName then
+  if not isProxy then
+    acceptBid(bidAmount, bidderName, false)
+    extendIfLate()
+  end
+  return reply(1)
+end
+
+-- The leader's effective maximum is their proxy, if any, or the current bid
+local leaderMax = currentBid
+if highestBidder ~= '' then
+  local storedMax = tonumber(redis.call('HGET', proxyKey, highestBidder))
+  if storedMax and storedMax > leaderMax then
+    leaderMax = storedMax
+  end
+end
+
+-- The leader's proxy defends: the challenger's bid counts, then the leader
+-- counter-bids by one increment (capped at their maximum). Ties go to the
+-- leader, whose maximum was placed first.
+if highestBidder ~= '' and leaderMax >= bidAmount then
+  local defender = highestBidder
+  acceptBid(bidAmount, bidderName, isProxy)
+  acceptBid(math.min(leaderMax, bidAmount + incrementFor(bidAmount)), defender, true)
+  extendIfLate()
+  return reply(2)
+end
+
+-- The challenger takes the lead; a proxy only bids as much as it needs to
+local leadAmount = bidAmount
+if isProxy then
+  leadAmount = math.min(bidAmount, leaderMax + incrementFor(leaderMax))
+end
+acceptBid(leadAmount, bidderName, isProxy)
+extendIfLate()
 
+return reply(1)
@@ -0,0 +1,70 @@
+-- placeSealedBid.lua
+-- Atomically records a hidden bid on a sealed-bid auction
+--
+-- KEYS[1]: Redis key for the auction item (e.g., "auction:item:123")
+-- KEYS[2]: Redis key for the item's sealed bids (e.g., "auction:sealed:123")
+-- KEYS[3]: Redis key for the bid count index (sorted set)
+--
+-- ARGV[1]: bid amount (number)
+-- ARGV[2]: bidder name (string)
+-- ARGV[3]: current server time (epoch millis)
+--
+-- Each bidder holds one sealed bid of at least the starting price, and may
+-- only raise it. currentBid and highestBidder stay untouched until
+-- endAuction.lua reveals the bids; bidCount counts bidders, not bids.
+--
+-- Expired auctions are left for the scheduler to end, since ending a sealed
+-- auction reveals its bids.
+--
+-- RETURN VALUES:
+--   1  = BID_SEALED
+--   0  = BID_TOO_LOW (below the starting price or the bidder's own bid)
+--  -1  = AUCTION_ENDED
+--  -3  = NOT_STARTED
+
+local key = KEYS[1]
+local sealedKey = KEYS[2]
+local bidCountIndexKey = KEYS[3]
+
+local bidAmount = tonumber(ARGV[1])
+local bidderName = ARGV[2]
+local serverTime = tonumber(ARGV[3])
+
+if redis.call('EXISTS', key) == 0 then
+  return -1
+end
+
+local itemId = redis.call('HGET', key, 'id')
+local status = redis.call('HGET', key, 'status')
+local endsAt = tonumber(redis.call('HGET', key, 'endsAt'))
+local startingPrice = tonumber(redis.call('HGET', key, 'startingPrice'))
+
+-- Scheduled auctions open when the scheduler starts them
+if status == 'scheduled' then
+  return -3
+end
+
+if status ~= 'live' or serverTime > endsAt then
+  return -1
+end
+
+if bidAmount < startingPrice then
+  return 0
+end
+
+local existing = redis.call('HGET', sealedKey, bidderName)
+if existing and bidAmount <= cjson.decode(existing).amount then
+  return 0
+end
+
+redis.call('HSET', sealedKey, bidderName, cjson.encode({
+  amount = bidAmount,
+  timestamp = serverTime
+}))
+redis.call('HINCRBY', key, 'version', 1)
+if not existing then
+  redis.call('HINCRBY', key, 'bidCount', 1)
+  redis.call('ZINCRBY', bidCountIndexKey, 1, itemId)
+end
+
+return 1
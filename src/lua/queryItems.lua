@@ -0,0 +1,101 @@
+-- queryItems.lua
+-- Atomically filters, sorts and pages auction IDs using the query indexes
+--
+-- KEYS[1]: Redis key for the sort index (sorted set: endsAt, current bid or bid count)
+-- KEYS[2]: scratch key for the matching IDs (deleted before returning)
+-- KEYS[3]: Redis key for the endsAt index of all auctions (sorted set)
+-- KEYS[4]: scratch key for the endsAt range filter
+-- KEYS[5]: Redis key for the current bid index (sorted set)
+-- KEYS[6]: scratch key for the price range filter
+-- KEYS[7..]: sets every match must belong to (status set, currency set, title prefix sets)
+--
+-- ARGV[1]: descending order ("1" | "0")
+-- ARGV[2], ARGV[3]: endsAt range (min, max; "-inf" / "+inf" when unbounded)
+-- ARGV[4], ARGV[5]: current bid range (min, max; "-inf" / "+inf" when unbounded)
+-- ARGV[6], ARGV[7]: cursor sort score and ID of the last item on the previous
+--                   page ("" for the first page)
+-- ARGV[8]: page size (number)
+--
+-- Ties on the sort score are ordered by ID, so the cursor position is
+-- stable even when the cursor item itself changed or no longer matches.
+--
+-- RETURN VALUE:
+--   { total matches, more pages ("1" | "0"), id1, score1, id2, score2, ... }
+
+local sortKey = KEYS[1]
+local resultKey = KEYS[2]
+local endsAtIndexKey = KEYS[3]
+local endsAtRangeKey = KEYS[4]
+local currentBidIndexKey = KEYS[5]
+local priceRangeKey = KEYS[6]
+
+local descending = ARGV[1] == '1'
+local endsAtMin, endsAtMax = ARGV[2], ARGV[3]
+local priceMin, priceMax = ARGV[4], ARGV[5]
+local cursorScore, cursorId = ARGV[6], ARGV[7]
+local limit = tonumber(ARGV[8])
+
+local sources = { sortKey }
+local weights = { 1 }
+
+-- Range filters are materialised so they can join the intersection;
+-- filter keys are weighted 0 so the sort score comes through unchanged
+local function addRangeFilter(indexKey, rangeKey, min, max)
+  if min == '-inf' and max == '+inf' then
+    return
+  end
+  redis.call('ZRANGESTORE', rangeKey, indexKey, min, max, 'BYSCORE')
+  table.insert(sources, rangeKey)
+  table.insert(weights, 0)
+end
+
+addRangeFilter(endsAtIndexKey, endsAtRangeKey, endsAtMin, endsAtMax)
+addRangeFilter(currentBidIndexKey, priceRangeKey, priceMin, priceMax)
+
+for i = 7, #KEYS do
+  table.insert(sources, KEYS[i])
+  table.insert(weights, 0)
+end
+
+local args = { 'ZINTERSTORE', resultKey, #sources }
+for _, source in ipairs(sources) do
+  table.insert(args, source)
+end
+table.insert(args, 'WEIGHTS')
+for _, weight in ipairs(weights) do
+  table.insert(args, weight)
+end
+local total = redis.call(unpack(args))
+
+-- Resume after the cursor: inserting it at its old score gives its position
+local start = 0
+if cursorId ~= '' then
+  redis.call('ZADD', resultKey, cursorScore, cursorId)
+  if descending then
+    start = redis.call('ZREVRANK', resultKey, cursorId) + 1
+  else
+    start = redis.call('ZRANK', resultKey, cursorId) + 1
+  end
+end
+
+local size = redis.call('ZCARD', resultKey)
+local page
+if descending then
+  page = redis.call('ZREVRANGE', resultKey, start, start + limit - 1, 'WITHSCORES')
+else
+  page = redis.call('ZRANGE', resultKey, start, start + limit - 1, 'WITHSCORES')
+end
+
+redis.call('DEL', resultKey, endsAtRangeKey, priceRangeKey)
+
+local more = '0'
+if start + limit < size then
+  more = '1'
+end
+
+local result = { total, more }
+for _, value in ipairs(page) do
+  table.insert(result, value)
+end
+
+return result
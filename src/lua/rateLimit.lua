@@ -0,0 +1,81 @@
+-- rateLimit.lua
+-- Atomically takes one token from each of a set of token buckets, counting
+-- rejections towards a temporary ban
+--
+-- KEYS[1]: Redis key for the ban flag (e.g., "auction:ratelimit:ban:alice")
+-- KEYS[2]: Redis key for the rejection counter (e.g., "auction:ratelimit:violations:alice")
+-- KEYS[3..]: Redis keys for the token buckets (hashes of tokens, updatedAt)
+--
+-- ARGV[1]: current server time (epoch millis)
+-- ARGV[2]: rejections within the window that trigger a ban
+-- ARGV[3]: rejection counting window (millis)
+-- ARGV[4]: ban duration (millis)
+-- ARGV[5..]: capacity and refill rate (tokens per second) for each bucket, in KEYS order
+--
+-- A token is only taken when every bucket has one, so a request rejected by
+-- one bucket does not drain the others. Buckets refill continuously and
+-- expire once they would be full again (a missing bucket counts as full).
+--
+-- RETURN VALUE: { status, retry after (millis) }
+--   status  1 = ALLOWED
+--   status  0 = RATE_LIMITED
+--   status -1 = BANNED (already banned, or this rejection triggered the ban)
+
+local banKey = KEYS[1]
+local violationsKey = KEYS[2]
+
+local now = tonumber(ARGV[1])
+local maxViolations = tonumber(ARGV[2])
+local violationWindowMs = tonumber(ARGV[3])
+local banMs = tonumber(ARGV[4])
+
+local banTtl = redis.call('PTTL', banKey)
+if banTtl > 0 then
+  return { -1, banTtl }
+end
+
+-- Refill every bucket and find the longest wait for a whole token
+local buckets = {}
+local retryAfter = 0
+for i = 3, #KEYS do
+  local capacity = tonumber(ARGV[5 + (i - 3) * 2])
+  local ratePerSecond = tonumber(ARGV[6 + (i - 3) * 2])
+  local tokens = tonumber(redis.call('HGET', KEYS[i], 'tokens')) or capacity
+  local updatedAt = tonumber(redis.call('HGET', KEYS[i], 'updatedAt')) or now
+
+  tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * ratePerSecond / 1000)
+  if tokens < 1 then
+    retryAfter = math.max(retryAfter, math.ceil((1 - tokens) * 1000 / ratePerSecond))
+  end
+
+  buckets[i] = { tokens = tokens, capacity = capacity, ratePerSecond = ratePerSecond }
+end
+
+local allowed = retryAfter == 0
+
+for i, bucket in pairs(buckets) do
+  local tokens = bucket.tokens
+  if allowed then
+    tokens = tokens - 1
+  end
+  redis.call('HSET', KEYS[i], 'tokens', tokens, 'updatedAt', now)
+  redis.call('PEXPIRE', KEYS[i],
+    math.ceil((bucket.capacity - tokens) * 1000 / bucket.ratePerSecond) + 1)
+end
+
+if allowed then
+  return { 1, 0 }
+end
+
+local violations = redis.call('INCR', violationsKey)
+if violations == 1 then
+  redis.call('PEXPIRE', violationsKey, violationWindowMs)
+end
+
+if violations >= maxViolations then
+  redis.call('SET', banKey, '1', 'PX', banMs)
+  redis.call('DEL', violationsKey)
+  return { -1, banMs }
+end
+
+return { 0, retryAfter }
@@ -0,0 +1,17 @@
+-- releaseLock.lua
+-- Releases a lock only if this owner still holds it
+--
+-- KEYS[1]: Redis key for the lock (e.g., "auction:lock:expiry-worker")
+--
+-- ARGV[1]: owner id (string, unique per server instance)
+--
+-- RETURN VALUES:
+--   1  = released
+--   0  = not held by this owner
+
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  redis.call('DEL', KEYS[1])
+  return 1
+end
+
+return 0
@@ -0,0 +1,135 @@
+-- retractBid.lua
+-- Atomically voids an accepted bid and restores the auction to the highest
+-- bid still standing
+--
+-- KEYS[1]: Redis key for the auction item (e.g., "auction:item:123")
+-- KEYS[2]: Redis key for the item's bid history list (e.g., "auction:bids:123")
+-- KEYS[3]: Redis key for the item's hidden proxy maxima (e.g., "auction:proxy:123")
+-- KEYS[4]: Redis key for the current bid index (sorted set)
+-- KEYS[5]: Redis key for the bid count index (sorted set)
+--
+-- ARGV[1]: version of the accepted bid to void (identifies the bid)
+-- ARGV[2]: admin who retracted it (string)
+-- ARGV[3]: reason (string)
+-- ARGV[4]: current server time (epoch millis)
+-- ARGV[5]: default bid increment table, used when the item has none
+--          (JSON, as in placeBid.lua)
+--
+-- The voided history entry is kept, marked BID_RETRACTED with who, when and
+-- why. The bidder's proxy maximum on the item is removed too, so a mistyped
+-- maximum cannot keep bidding. The leader becomes the highest remaining
+-- accepted bid (or nobody, at the starting price), and version is bumped.
+--
+-- When that leading bid was placed automatically by a proxy, its amount may
+-- have been forced up by the voided bid. The leader is then repriced as
+-- placeBid.lua would have priced them without it: one increment over the
+-- best remaining bid of anyone else (or over the starting price), never more
+-- than their leading bid and never less than their own highest manual bid.
+--
+-- RETURN VALUES:
+--   { 1, retracted entry JSON } = RETRACTED
+--   { 0 }  = BID_NOT_FOUND (no accepted, unretracted bid with that version)
+--   { -1 } = NOT_FOUND
+--   { -2 } = AUCTION_ENDED
+
+local key = KEYS[1]
+local historyKey = KEYS[2]
+local proxyKey = KEYS[3]
+local currentBidIndexKey = KEYS[4]
+local bidCountIndexKey = KEYS[5]
+
+local targetVersion = tonumber(ARGV[1])
+local retractedBy = ARGV[2]
+local reason = ARGV[3]
+local serverTime = tonumber(ARGV[4])
+local defaultIncrements = ARGV[5]
+
+if redis.call('EXISTS', key) == 0 then
+  return { -1 }
+end
+
+if redis.call('HGET', key, 'ended') == 'true' then
+  return { -2 }
+end
+
+local itemId = redis.call('HGET', key, 'id')
+local startingPrice = tonumber(redis.call('HGET', key, 'startingPrice'))
+local incrementTiers = cjson.decode(redis.call('HGET', key, 'bidIncrements') or defaultIncrements)
+local entries = redis.call('LRANGE', historyKey, 0, -1)
+
+-- Returns the increment for the tier the given amount falls in
+local function incrementFor(amount)
+  for _, tier in ipairs(incrementTiers) do
+    if type(tier.upTo) ~= 'number' or amount < tier.upTo then
+      return tier.increment
+    end
+  end
+  return incrementTiers[#incrementTiers].increment
+end
+
+-- Find the bid, the accepted bids that will still stand and the highest of them
+local targetIndex = nil
+local target = nil
+local standing = {}
+local leader = nil
+for index, raw in ipairs(entries) do
+  local entry = cjson.decode(raw)
+  if entry.status == 'BID_ACCEPTED' then
+    if entry.version == targetVersion and target == nil then
+      targetIndex = index - 1
+      target = entry
+    else
+      standing[#standing + 1] = entry
+      if leader == nil or entry.amount > leader.amount then
+        leader = entry
+      end
+    end
+  end
+end
+
+if target == nil then
+  return { 0 }
+end
+
+target.status = 'BID_RETRACTED'
+target.retractedBy = retractedBy
+target.retractedAt = serverTime
+target.retractReason = reason
+local encoded = cjson.encode(target)
+redis.call('LSET', historyKey, targetIndex, encoded)
+redis.call('HDEL', proxyKey, target.bidderName)
+
+local currentBid = startingPrice
+local highestBidder = ''
+if leader ~= nil then
+  currentBid = leader.amount
+  highestBidder = leader.bidderName
+end
+
+-- An automatic lead only pays one increment over the best rival bid left
+if leader ~= nil and leader.autoBid then
+  local rivalBid = startingPrice
+  local ownManualBid = 0
+  for _, entry in ipairs(standing) do
+    if entry.bidderName ~= leader.bidderName then
+      rivalBid = math.max(rivalBid, entry.amount)
+    elseif not entry.autoBid then
+      ownManualBid = math.max(ownManualBid, entry.amount)
+    end
+  end
+  currentBid = math.max(
+    ownManualBid,
+    math.min(leader.amount, rivalBid + incrementFor(rivalBid))
+  )
+end
+
+local version = tonumber(redis.call('HGET', key, 'version')) + 1
+redis.call('HSET', key,
+  'currentBid', currentBid,
+  'highestBidder', highestBidder,
+  'version', version)
+redis.call('HINCRBY', key, 'bidCount', -1)
+redis.call('ZADD', currentBidIndexKey, currentBid, itemId)
+redis.call('ZINCRBY', bidCountIndexKey, -1, itemId)
+
+return { 1, encoded }
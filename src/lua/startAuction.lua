@@ -0,0 +1,56 @@
+-- startAuction.lua
+-- Atomically opens a scheduled auction for bidding if its start time has come
+--
+-- KEYS[1]: Redis key for the auction item (e.g., "auction:item:123")
+-- KEYS[2]: Redis key for the start index of scheduled auctions (sorted set scored by startsAt)
+-- KEYS[3]: Redis key for the expiry index of live auctions (sorted set scored by endsAt)
+-- KEYS[4]: Redis key for the set of scheduled auctions
+-- KEYS[5]: Redis key for the set of live auctions
+--
+-- ARGV[1]: current server time (epoch millis)
+-- ARGV[2]: item ID (the member in the start index)
+--
+-- Only scheduled -> live happens here. The index entry is removed once the
+-- auction is no longer scheduled, and re-scored from startsAt when it is not
+-- yet due, so the scheduler wakes at the right time.
+--
+-- RETURN VALUES:
+--   1  = started by this call
+--   0  = missing, no longer scheduled, or not yet due
+
+local key = KEYS[1]
+local startKey = KEYS[2]
+local expiryKey = KEYS[3]
+local scheduledKey = KEYS[4]
+local liveKey = KEYS[5]
+local serverTime = tonumber(ARGV[1])
+local itemId = ARGV[2]
+
+if redis.call('EXISTS', key) == 0 then
+  redis.call('ZREM', startKey, itemId)
+  return 0
+end
+
+local status = redis.call('HGET', key, 'status')
+local startsAt = tonumber(redis.call('HGET', key, 'startsAt')) or 0
+
+if status ~= 'scheduled' then
+  redis.call('ZREM', startKey, itemId)
+  return 0
+end
+
+if serverTime < startsAt then
+  redis.call('ZADD', startKey, startsAt, itemId)
+  return 0
+end
+
+local endsAt = tonumber(redis.call('HGET', key, 'endsAt'))
+
+redis.call('HSET', key, 'status', 'live')
+redis.call('HINCRBY', key, 'version', 1)
+redis.call('ZREM', startKey, itemId)
+redis.call('ZADD', expiryKey, endsAt, itemId)
+redis.call('SREM', scheduledKey, itemId)
+redis.call('SADD', liveKey, itemId)
+
+return 1
\ No newline at end of file
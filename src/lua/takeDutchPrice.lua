@@ -0,0 +1,96 @@
+-- takeDutchPrice.lua
+-- Atomically accepts the current clock price of a Dutch auction, ending it
+--
+-- KEYS[1]: Redis key for the auction item (e.g., "auction:item:123")
+-- KEYS[2]: Redis key for the item's bid history list (e.g., "auction:bids:123")
+-- KEYS[3]: Redis key for the expiry index of live auctions (sorted set scored by endsAt)
+-- KEYS[4]: Redis key for the current bid index (sorted set)
+-- KEYS[5]: Redis key for the bid count index (sorted set)
+-- KEYS[6]: Redis key for the set of live auctions
+-- KEYS[7]: Redis key for the set of ended auctions
+-- KEYS[8]: Redis key for the set of auctions awaiting settlement
+--
+-- ARGV[1]: the most the bidder will pay (number)
+-- ARGV[2]: bidder name (string)
+-- ARGV[3]: current server time (epoch millis)
+--
+-- The clock starts at startingPrice when the auction opens and drops by
+-- priceDrop every priceDropIntervalMs, stopping at floorPrice (see
+-- getDutchPrice in utils/auctionFormat.ts). The first bid at or above the
+-- clock price wins at the clock price.
+--
+-- RETURN VALUES:
+--   3  = PRICE_TAKEN
+--   0  = BID_TOO_LOW (below the clock price)
+--  -1  = AUCTION_ENDED
+--  -3  = NOT_STARTED
+
+local key = KEYS[1]
+local historyKey = KEYS[2]
+local expiryKey = KEYS[3]
+local currentBidIndexKey = KEYS[4]
+local bidCountIndexKey = KEYS[5]
+local liveKey = KEYS[6]
+local endedKey = KEYS[7]
+local pendingKey = KEYS[8]
+
+local bidAmount = tonumber(ARGV[1])
+local bidderName = ARGV[2]
+local serverTime = tonumber(ARGV[3])
+
+if redis.call('EXISTS', key) == 0 then
+  return -1
+end
+
+local itemId = redis.call('HGET', key, 'id')
+local status = redis.call('HGET', key, 'status')
+local startsAt = tonumber(redis.call('HGET', key, 'startsAt')) or 0
+local endsAt = tonumber(redis.call('HGET', key, 'endsAt'))
+local version = tonumber(redis.call('HGET', key, 'version'))
+local startingPrice = tonumber(redis.call('HGET', key, 'startingPrice'))
+local floorPrice = tonumber(redis.call('HGET', key, 'floorPrice'))
+local priceDrop = tonumber(redis.call('HGET', key, 'priceDrop'))
+local priceDropIntervalMs = tonumber(redis.call('HGET', key, 'priceDropIntervalMs'))
+
+-- Scheduled auctions open when the scheduler starts them
+if status == 'scheduled' then
+  return -3
+end
+
+-- Unsold lots are ended by the scheduler
+if status ~= 'live' or serverTime > endsAt then
+  return -1
+end
+
+local drops = math.floor(math.max(serverTime - startsAt, 0) / priceDropIntervalMs)
+local price = math.max(floorPrice, startingPrice - priceDrop * drops)
+
+if bidAmount < price then
+  return 0
+end
+
+version = version + 1
+redis.call('HSET', key,
+  'currentBid', price,
+  'highestBidder', bidderName,
+  'version', version,
+  'status', 'ended',
+  'ended', 'true',
+  'endReason', 'TAKEN',
+  'endedAt', serverTime)
+redis.call('HINCRBY', key, 'bidCount', 1)
+redis.call('ZADD', currentBidIndexKey, price, itemId)
+redis.call('ZINCRBY', bidCountIndexKey, 1, itemId)
+redis.call('LPUSH', historyKey, cjson.encode({
+  amount = price,
+  bidderName = bidderName,
+  timestamp = serverTime,
+  version = version,
+  status = 'BID_ACCEPTED'
+}))
+redis.call('ZREM', expiryKey, itemId)
+redis.call('SREM', liveKey, itemId)
+redis.call('SADD', endedKey, itemId)
+redis.call('SADD', pendingKey, itemId)
+
+return 3
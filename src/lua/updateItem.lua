@@ -0,0 +1,81 @@
+-- updateItem.lua
+-- Atomically applies an admin edit to an auction item, guarded by version
+--
+-- KEYS[1]: Redis key for the auction item (e.g., "auction:item:123")
+-- KEYS[2]: Redis key for the expiry index of live auctions (sorted set scored by endsAt)
+-- KEYS[3]: Redis key for the endsAt index of all auctions (sorted set)
+-- KEYS[4]: Redis key for the current bid index (sorted set)
+-- KEYS[5]: Redis key for the start index of scheduled auctions (sorted set scored by startsAt)
+--
+-- ARGV[1]: version the edit was validated against (number)
+-- ARGV[2]: fields to set (JSON object of field -> string value)
+-- ARGV[3]: fields to remove (JSON array of field names)
+-- ARGV[4]: item ID (the member in the expiry index)
+--
+-- The version changes with every bid, lifecycle change and edit, so a
+-- mismatch means the edit was validated against a stale state and must be
+-- re-checked. A successful edit bumps it too.
+-- startsAt can only move while the auction is still scheduled, and only
+-- the index matching the current status is re-scored.
+--
+-- RETURN VALUES:
+--   1  = UPDATED
+--   0  = VERSION_CONFLICT
+--  -1  = NOT_FOUND
+--  -2  = AUCTION_ENDED
+--  -3  = ALREADY_STARTED (startsAt changed on an auction that is live)
+
+local key = KEYS[1]
+local expiryKey = KEYS[2]
+local endsAtIndexKey = KEYS[3]
+local currentBidIndexKey = KEYS[4]
+local startKey = KEYS[5]
+local expectedVersion = ARGV[1]
+local changes = cjson.decode(ARGV[2])
+local removals = cjson.decode(ARGV[3])
+local itemId = ARGV[4]
+
+if redis.call('EXISTS', key) == 0 then
+  return -1
+end
+
+local status = redis.call('HGET', key, 'status')
+
+if status ~= 'scheduled' and status ~= 'live' then
+  return -2
+end
+
+if changes.startsAt and status ~= 'scheduled' then
+  return -3
+end
+
+if redis.call('HGET', key, 'version') ~= expectedVersion then
+  return 0
+end
+
+for field, value in pairs(changes) do
+  redis.call('HSET', key, field, value)
+end
+
+for _, field in ipairs(removals) do
+  redis.call('HDEL', key, field)
+end
+
+redis.call('HINCRBY', key, 'version', 1)
+
+if changes.endsAt then
+  if status == 'live' then
+    redis.call('ZADD', expiryKey, changes.endsAt, itemId)
+  end
+  redis.call('ZADD', endsAtIndexKey, changes.endsAt, itemId)
+end
+
+if changes.startsAt then
+  redis.call('ZADD', startKey, changes.startsAt, itemId)
+end
+
+if changes.currentBid then
+  redis.call('ZADD', currentBidIndexKey, changes.currentBid, itemId)
+end
+
+return 1
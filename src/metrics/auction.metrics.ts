@@ -0,0 +1,53 @@
+import { Counter, Gauge, Histogram } from '../utils/metrics'
+
+const LATENCY_BUCKETS = [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5]
+const LAG_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+
+/**
+ * Metrics exposed on GET /metrics
+ */
+export const bidsTotal = new Counter(
+  'auction_bids_total',
+  'Bids processed over Socket.io and REST, by outcome',
+  ['status', 'result', 'auction_type']
+)
+
+// Refused before reaching an auction, so not counted in auction_bids_total
+export const rateLimitedBidsTotal = new Counter(
+  'auction_rate_limited_bids_total',
+  'Bids refused by the rate limiter, by whether the refusal came with a ban',
+  ['banned']
+)
+
+export const bidDuration = new Histogram(
+  'auction_bid_duration_seconds',
+  'Time to validate, place and read back a bid',
+  ['auction_type'],
+  LATENCY_BUCKETS
+)
+
+export const luaScriptDuration = new Histogram(
+  'auction_lua_script_duration_seconds',
+  'Time spent running each Lua script in Redis',
+  ['script'],
+  LATENCY_BUCKETS
+)
+
+export const connectedSockets = new Gauge(
+  'auction_connected_sockets',
+  'Socket.io clients connected to this instance'
+)
+
+// Refreshed from the status indexes on every scrape
+export const auctionsByStatus = new Gauge(
+  'auction_auctions',
+  'Auctions in each lifecycle status',
+  ['status']
+)
+
+export const expiryLag = new Histogram(
+  'auction_expiry_lag_seconds',
+  'Delay between an auction\'s endsAt and the expiry worker ending it',
+  [],
+  LAG_BUCKETS
+)
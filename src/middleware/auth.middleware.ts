@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction } from 'express'
+import { AuthenticatedBidder } from '../models/bidder'
+import * as authService from '../services/auth.service'
+
+declare global {
+  namespace Express {
+    interface Request {
+      bidder?: AuthenticatedBidder
+    }
+  }
+}
+
+/**
+ * Reads an optional "Authorization: Bearer <token>" header
+ * Requests without a valid token continue anonymously
+ */
+export function authenticate (req: Request, _res: Response, next: NextFunction): void {
+  const header = req.headers.authorization
+
+  if (header && header.startsWith('Bearer ')) {
+    const bidder = authService.verifyToken(header.slice('Bearer '.length))
+    if (bidder) {
+      req.bidder = bidder
+    }
+  }
+
+  next()
+}
+
+/**
+ * Rejects requests without a valid session token
+ */
+export function requireBidder (req: Request, res: Response, next: NextFunction): void {
+  if (!req.bidder) {
+    res.status(401).json({ error: 'Authentication required' })
+    return
+  }
+
+  next()
+}
+
+/**
+ * Rejects requests not made by an admin (see ADMIN_USERNAMES)
+ */
+export function requireAdmin (req: Request, res: Response, next: NextFunction): void {
+  if (!req.bidder) {
+    res.status(401).json({ error: 'Authentication required' })
+    return
+  }
+  if (!req.bidder.isAdmin) {
+    res.status(403).json({ error: 'Admin access required' })
+    return
+  }
+
+  next()
+}
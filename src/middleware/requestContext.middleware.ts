@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from 'express'
+import { randomUUID } from 'crypto'
+import { logger, Logger } from '../utils/logger'
+
+declare global {
+  namespace Express {
+    interface Request {
+      id: string
+      log: Logger
+    }
+  }
+}
+
+const REQUEST_ID_HEADER = 'x-request-id'
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/
+
+/**
+ * Gives every request a correlation ID, reusing a well-formed X-Request-Id
+ * from the caller (e.g. a load balancer), and a logger that tags its entries
+ * with it
+ * The ID is echoed in the response header and each request is logged once
+ * it completes
+ */
+export function requestContext (req: Request, res: Response, next: NextFunction): void {
+  const header = req.get(REQUEST_ID_HEADER)
+  req.id = header && REQUEST_ID_PATTERN.test(header) ? header : randomUUID()
+  req.log = logger.child({ requestId: req.id })
+  res.setHeader('X-Request-Id', req.id)
+
+  const start = process.hrtime.bigint()
+  res.on('finish', () => {
+    req.log.info('Request completed', {
+      method: req.method,
+      path: req.originalUrl,
+      status: res.statusCode,
+      durationMs: Number(process.hrtime.bigint() - start) / 1e6,
+      bidder: req.bidder?.userId
+    })
+  })
+
+  next()
+}
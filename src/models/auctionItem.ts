@@ -1,23 +1,86 @@
+// Amounts are integer minor units of the item's currency (cents for USD)
+export interface BidIncrementTier {
+  upTo?: number; // tier applies while the current bid is below this (omit for the top tier)
+  increment: number;
+}
+
+export type AuctionEndReason =
+  | 'TIME_EXPIRED'
+  | 'RESERVE_NOT_MET'
+  | 'BOUGHT_NOW'
+  | 'TAKEN' // Dutch: a bidder accepted the clock price
+  | 'CANCELLED';
+
+// english: open ascending bids. sealed_*: bids hidden until close, the winner
+// pays their own bid (first price) or the runner-up's (second price, Vickrey).
+// dutch: the price drops on a schedule and the first taker wins.
+export type AuctionType =
+  | 'english'
+  | 'sealed_first_price'
+  | 'sealed_second_price'
+  | 'dutch';
+
+// scheduled -> live -> ended, or scheduled | live -> cancelled
+export type AuctionStatus = 'scheduled' | 'live' | 'ended' | 'cancelled';
+
 export interface AuctionItem {
   id: string;
   title: string;
-  startingPrice: number;
+  auctionType: AuctionType;
+  currency: string; // ISO 4217 code; every amount is in its minor units
+  startingPrice: number; // Dutch: the opening (highest) price
   currentBid: number;
   highestBidder: string;
+  status: AuctionStatus;
+  startsAt: number; // epoch milliseconds; bids are rejected before this
   endsAt: number; // epoch milliseconds
-  ended: boolean;
-  version: number;
+  originalEndsAt: number; // endsAt before any soft-close extension
+  softCloseWindowMs: number; // bids this close to endsAt extend the auction (0 disables)
+  softCloseExtensionMs: number; // endsAt moves to bid time + this
+  softCloseMaxExtensionMs: number; // cap on total extension past originalEndsAt
+  bidIncrements?: BidIncrementTier[]; // per-item increment table, global default if omitted
+  reservePrice?: number; // hidden; never sent to clients (see reserveMet)
+  buyNowPrice?: number;
+  floorPrice?: number; // Dutch: the price stops dropping here
+  priceDrop?: number; // Dutch: amount the price drops by each interval
+  priceDropIntervalMs?: number; // Dutch
+  ended: boolean; // status is ended or cancelled
+  endReason?: AuctionEndReason; // set once ended
+  endedAt?: number; // server time the auction ended (epoch milliseconds)
+  version: number; // bumped on every bid, lifecycle change and admin edit
+  bidCount: number; // accepted bids, proxy counter-bids included
+  bidHistory?: BidRecord[]; // most recent first, populated by the service layer
+  nextMinimumBid?: number; // populated by the service layer
+  reserveMet?: boolean; // populated by the service layer for items with a reserve
+  winner?: string | null; // populated by the service layer once ended (null: no sale)
 }
 
 export interface AuctionItemRedis {
   id: string;
   title: string;
+  auctionType?: string; // absent on items stored before formats existed (english)
+  currency?: string; // absent on items stored before minor units (decimal amounts)
   startingPrice: string;
   currentBid: string;
   highestBidder: string;
+  status?: string;
+  startsAt?: string;
   endsAt: string;
+  originalEndsAt?: string;
+  softCloseWindowMs?: string;
+  softCloseExtensionMs?: string;
+  softCloseMaxExtensionMs?: string;
+  bidIncrements?: string; // JSON-encoded BidIncrementTier[]
+  reservePrice?: string;
+  buyNowPrice?: string;
+  floorPrice?: string;
+  priceDrop?: string;
+  priceDropIntervalMs?: string;
   ended: string; // "true" | "false"
+  endReason?: string;
+  endedAt?: string;
   version: string;
+  bidCount?: string;
 }
 
 export interface BidRequest {
@@ -25,10 +88,106 @@ export interface BidRequest {
   amount: number;
 }
 
+export type BidStatus =
+  | 'BID_ACCEPTED'
+  | 'BID_TOO_LOW'
+  | 'AUCTION_ENDED'
+  | 'OUTBID_BY_PROXY'
+  | 'BID_BELOW_INCREMENT'
+  | 'BOUGHT_NOW'
+  | 'BID_RETRACTED'
+  | 'NOT_STARTED'
+  | 'INVALID_AMOUNT'
+  | 'BID_SEALED' // sealed formats: recorded, hidden until close
+  | 'PRICE_TAKEN' // Dutch: won at the clock price
+  | 'PROXY_NOT_SUPPORTED'
+  | 'SERVER_SHUTTING_DOWN'; // refused while the instance drains; retry elsewhere
+
+export interface BidRecord {
+  amount: number; // minor units
+  bidderName: string;
+  timestamp: number; // server time the bid was processed (epoch milliseconds)
+  version: number; // item version after the bid was processed
+  status: BidStatus;
+  autoBid?: boolean; // placed by a proxy (maximum) bid on the bidder's behalf
+  retractedBy?: string; // admin who voided the bid (status BID_RETRACTED)
+  retractedAt?: number;
+  retractReason?: string;
+}
+
+export interface BidHistoryPage {
+  itemId: string;
+  total: number;
+  offset: number;
+  limit: number;
+  bids: BidRecord[];
+}
+
 export interface BidResult {
   success: boolean;
-  status: 'BID_ACCEPTED' | 'BID_TOO_LOW' | 'AUCTION_ENDED';
+  status: BidStatus;
   item?: AuctionItem;
   previousBidder?: string;
+  extended?: boolean; // the bid pushed endsAt forward (soft close)
+}
+
+export type AuctionSort = 'ending_soonest' | 'highest_bid' | 'most_bids';
+
+export interface AuctionQuery {
+  status?: AuctionStatus;
+  currency?: string; // required with a price filter or the highest_bid sort
+  endingWithinMinutes?: number;
+  minPrice?: number; // on the current bid, in minor units of currency
+  maxPrice?: number;
+  search?: string; // every word must prefix-match a word of the title
+  sort: AuctionSort;
+  cursor?: string; // opaque, from a previous page's nextCursor
+  limit: number;
+}
+
+export interface AuctionItemPage {
+  serverTime: number;
+  total: number; // items matching the filters, across all pages
+  items: AuctionItem[];
+  nextCursor: string | null;
 }
 
+export interface CreateAuctionInput {
+  title: string;
+  auctionType?: AuctionType; // defaults to english
+  currency?: string; // defaults to DEFAULT_CURRENCY
+  startingPrice: number;
+  startsAt?: number; // epoch milliseconds; live immediately if omitted
+  endsAt?: number; // epoch milliseconds; either this or durationSeconds
+  durationSeconds?: number; // counted from startsAt
+  reservePrice?: number;
+  buyNowPrice?: number;
+  bidIncrements?: BidIncrementTier[];
+  softCloseWindowMs?: number;
+  softCloseExtensionMs?: number;
+  softCloseMaxExtensionMs?: number;
+  floorPrice?: number; // required for Dutch auctions, with priceDrop and priceDropIntervalMs
+  priceDrop?: number;
+  priceDropIntervalMs?: number;
+}
+
+export interface UpdateAuctionInput {
+  title?: string;
+  startingPrice?: number;
+  startsAt?: number; // only while scheduled
+  endsAt?: number;
+  reservePrice?: number | null; // null removes
+  buyNowPrice?: number | null; // null removes
+  bidIncrements?: BidIncrementTier[] | null; // null reverts to the global default
+  softCloseWindowMs?: number;
+  softCloseExtensionMs?: number;
+  softCloseMaxExtensionMs?: number;
+}
+
+export interface AuctionMutationResult {
+  success: boolean;
+  status: 'OK' | 'NOT_FOUND' | 'BID_NOT_FOUND' | 'VALIDATION_FAILED' | 'CONFLICT' | 'AUCTION_ENDED';
+  item?: AuctionItem;
+  bid?: BidRecord; // the voided bid, for retractions
+  errors?: string[];
+}
@@ -0,0 +1,20 @@
+import { AuctionEndReason } from './auctionItem';
+
+export interface AuctionResult {
+  itemId: string;
+  title: string;
+  winner: string | null; // null when unsold (no bids, reserve not met or cancelled)
+  currency: string;
+  hammerPrice: number | null; // winning bid in minor units, null when unsold
+  bidCount: number;
+  closedAt: number; // server time the auction ended (epoch milliseconds)
+  endReason: AuctionEndReason;
+  reserveMet: boolean | null; // null when the item had no reserve
+}
+
+export interface AuctionResultPage {
+  total: number;
+  offset: number;
+  limit: number;
+  results: AuctionResult[];
+}
@@ -0,0 +1,30 @@
+export interface Bidder {
+  username: string; // unique, lowercase; also the bidder's identity on bids
+  createdAt: number; // epoch milliseconds
+}
+
+export interface BidderRedis {
+  username: string;
+  passwordHash: string; // hex-encoded scrypt hash
+  salt: string; // hex-encoded
+  createdAt: string;
+}
+
+export interface SessionPayload {
+  sub: string; // username
+  exp: number; // expiry, epoch milliseconds
+}
+
+export interface AuthenticatedBidder {
+  userId: string;
+  isAdmin: boolean;
+}
+
+export interface AuthResult {
+  success: boolean;
+  status: 'OK' | 'VALIDATION_FAILED' | 'USERNAME_TAKEN' | 'INVALID_CREDENTIALS';
+  token?: string;
+  expiresAt?: number;
+  bidder?: Bidder;
+  errors?: string[];
+}
@@ -0,0 +1,11 @@
+export interface WatchlistResult {
+  success: boolean;
+  status: 'OK' | 'NOT_FOUND' | 'AUCTION_ENDED' | 'WATCHLIST_FULL';
+  itemIds?: string[]; // the bidder's watchlist after the change
+}
+
+export interface EndingSoonAlert {
+  itemId: string;
+  thresholdMs: number; // the configured threshold the auction crossed
+  watchers: string[]; // bidders notified
+}
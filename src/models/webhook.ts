@@ -0,0 +1,53 @@
+export type WebhookEventType =
+  | 'BID_ACCEPTED' // a bid entered the history (a proxy's counter-bid too), took a Dutch price or was sealed
+  | 'AUCTION_ENDED'
+  | 'AUCTION_CANCELLED'
+  | 'BID_RETRACTED';
+
+export interface WebhookSubscription {
+  id: string;
+  url: string; // receives a POST per event
+  events: WebhookEventType[];
+  secret: string; // HMAC-SHA256 key for the X-Webhook-Signature header
+  createdBy: string; // admin who registered it
+  createdAt: number; // epoch milliseconds
+}
+
+// Subscriptions as listed: the secret is only returned when registering
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret'>;
+
+export interface WebhookAttempt {
+  attemptedAt: number; // epoch milliseconds
+  durationMs: number;
+  statusCode?: number; // absent when no response arrived
+  error?: string; // network error, timeout or non-2xx status
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+export interface WebhookDelivery {
+  id: string; // also sent as X-Webhook-Id, so receivers can drop duplicates
+  subscriptionId: string;
+  event: WebhookEventType;
+  payload: string; // the exact JSON body that is signed and sent
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  attemptsLeft: number; // reset when a dead delivery is retried
+  nextAttemptAt: number | null; // null once delivered or dead
+  createdAt: number;
+}
+
+export interface WebhookDeliveryPage {
+  total: number;
+  offset: number;
+  limit: number;
+  deliveries: WebhookDelivery[];
+}
+
+export interface WebhookResult {
+  success: boolean;
+  status: 'OK' | 'NOT_FOUND' | 'VALIDATION_FAILED' | 'CONFLICT';
+  subscription?: WebhookSubscription | PublicWebhookSubscription;
+  delivery?: WebhookDelivery;
+  errors?: string[];
+}
@@ -0,0 +1,72 @@
+import { Router, Request, Response } from 'express'
+import * as authService from '../services/auth.service'
+import { AuthResult } from '../models/bidder'
+import { requireBidder } from '../middleware/auth.middleware'
+
+const router = Router()
+
+const AUTH_STATUS_CODES: Record<AuthResult['status'], number> = {
+  OK: 200,
+  VALIDATION_FAILED: 400,
+  USERNAME_TAKEN: 409,
+  INVALID_CREDENTIALS: 401
+}
+
+/**
+ * Sends an auth result with the matching HTTP status
+ */
+function sendAuthResult (res: Response, result: AuthResult, successCode = 200): void {
+  if (result.success) {
+    res.status(successCode).json({
+      token: result.token,
+      expiresAt: result.expiresAt,
+      bidder: result.bidder
+    })
+    return
+  }
+
+  res.status(AUTH_STATUS_CODES[result.status]).json({
+    error: result.status,
+    errors: result.errors
+  })
+}
+
+/**
+ * POST /auth/register
+ * Registers a bidder and returns a session token
+ */
+router.post('/register', async (req: Request, res: Response) => {
+  try {
+    const { username, password } = req.body || {}
+    const result = await authService.register(username, password)
+    sendAuthResult(res, result, 201)
+  } catch (error) {
+    req.log.error('Error registering bidder', { error })
+    res.status(500).json({ error: 'Failed to register' })
+  }
+})
+
+/**
+ * POST /auth/login
+ * Returns a session token for valid credentials
+ */
+router.post('/login', async (req: Request, res: Response) => {
+  try {
+    const { username, password } = req.body || {}
+    const result = await authService.login(username, password)
+    sendAuthResult(res, result)
+  } catch (error) {
+    req.log.error('Error logging in bidder', { error })
+    res.status(500).json({ error: 'Failed to log in' })
+  }
+})
+
+/**
+ * GET /auth/me
+ * Returns the identity behind the request's session token
+ */
+router.get('/me', requireBidder, (req: Request, res: Response) => {
+  res.json(req.bidder)
+})
+
+export default router
@@ -0,0 +1,34 @@
+import { Router, Request, Response } from 'express'
+import { addStreamClient } from '../streams/event.stream'
+import { DRAIN_RETRY_AFTER_SECONDS, isDraining } from '../utils/drain'
+
+const router = Router()
+
+/**
+ * GET /events
+ * Server-Sent Events stream for clients that can't hold a Socket.io
+ * connection: UPDATE_BID, AUCTION_STARTED, AUCTION_EXTENDED, AUCTION_ENDED
+ * and AUCTION_CANCELLED, with the same payloads as the Socket.io events
+ * Query params: itemId (repeatable or comma-separated) to only receive those
+ * items' events
+ * A draining instance refuses new streams with 503, as it refuses bids
+ */
+router.get('/', (req: Request, res: Response) => {
+  if (isDraining()) {
+    res.set('Retry-After', String(DRAIN_RETRY_AFTER_SECONDS))
+    res.status(503).json({ error: 'SERVER_SHUTTING_DOWN' })
+    return
+  }
+
+  const itemIds = ([] as unknown[])
+    .concat(req.query.itemId ?? [])
+    .filter((value): value is string => typeof value === 'string')
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(value => value !== '')
+
+  const removeClient = addStreamClient(res, itemIds)
+  req.on('close', removeClient)
+})
+
+export default router
@@ -0,0 +1,31 @@
+import { Router, Request, Response } from 'express'
+import * as healthService from '../services/health.service'
+
+const router = Router()
+
+/**
+ * GET /health, GET /health/live
+ * Liveness: the process is up and serving HTTP; says nothing about Redis
+ */
+router.get(['/', '/live'], (_req: Request, res: Response) => {
+  res.json({ status: 'ok', timestamp: Date.now() })
+})
+
+/**
+ * GET /health/ready
+ * Readiness: 200 while the instance can take bids, 503 when Redis is
+ * unreachable, a Lua script can't be loaded or the instance is draining for
+ * shutdown
+ */
+router.get('/ready', async (_req: Request, res: Response) => {
+  const result = await healthService.checkReadiness()
+
+  res.status(result.ready ? 200 : 503).json({
+    status: result.ready ? 'ready' : 'not_ready',
+    draining: result.draining,
+    checks: result.checks,
+    timestamp: Date.now()
+  })
+})
+
+export default router
@@ -0,0 +1,68 @@
+import { after, before, describe, it, mock } from 'node:test'
+import assert from 'assert'
+import express from 'express'
+import { AddressInfo } from 'net'
+import { Server } from 'http'
+import itemsRouter from './items.route'
+import { authenticate } from '../middleware/auth.middleware'
+import { requestContext } from '../middleware/requestContext.middleware'
+import * as authService from '../services/auth.service'
+import * as rateLimitService from '../services/rateLimit.service'
+import { startDraining } from '../utils/drain'
+
+// Bids over REST on a draining instance; neither path reaches Redis
+
+describe('POST /items/:id/bids while draining', () => {
+  let server: Server
+  let baseUrl: string
+
+  before(async () => {
+    mock.method(authService, 'verifyToken', () => ({ userId: 'alice', isAdmin: false }))
+    mock.method(rateLimitService, 'checkBidRateLimit', async () => ({
+      allowed: true,
+      banned: false,
+      retryAfterMs: 0
+    }))
+    startDraining()
+
+    const app = express()
+    app.use(express.json())
+    app.use(requestContext)
+    app.use(authenticate)
+    app.use('/items', itemsRouter)
+
+    server = app.listen(0)
+    await new Promise(resolve => server.once('listening', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  after(async () => {
+    mock.restoreAll()
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  async function postBid (body: unknown): Promise<Response> {
+    return await fetch(`${baseUrl}/items/item-1/bids`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer token', 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+  }
+
+  it('refuses a bid with 503 and Retry-After, not 404', async () => {
+    const response = await postBid({ amount: 1500 })
+
+    assert.equal(response.status, 503)
+    assert.ok(Number(response.headers.get('Retry-After')) > 0)
+    assert.deepStrictEqual(await response.json(), {
+      success: false,
+      status: 'SERVER_SHUTTING_DOWN'
+    })
+  })
+
+  it('refuses a proxy bid the same way', async () => {
+    const response = await postBid({ maxAmount: 5000 })
+
+    assert.equal(response.status, 503)
+  })
+})
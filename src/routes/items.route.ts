@@ -1,24 +1,255 @@
 import { Router, Request, Response } from 'express'
+import { createHash } from 'crypto'
 import * as auctionService from '../services/auction.service'
+import * as adminService from '../services/admin.service'
+import * as rateLimitService from '../services/rateLimit.service'
+import { AuctionMutationResult, BidStatus } from '../models/auctionItem'
+import { requireAdmin, requireBidder } from '../middleware/auth.middleware'
+import { DRAIN_RETRY_AFTER_SECONDS } from '../utils/drain'
 
 const router = Router()
 
+const MUTATION_STATUS_CODES: Record<AuctionMutationResult['status'], number> = {
+  OK: 200,
+  NOT_FOUND: 404,
+  BID_NOT_FOUND: 404,
+  VALIDATION_FAILED: 400,
+  CONFLICT: 409,
+  AUCTION_ENDED: 409
+}
+
+// 2xx means the bid leads, won or was sealed; 409 means the auction's state
+// turned it down
+const BID_STATUS_CODES: Record<BidStatus, number> = {
+  BID_ACCEPTED: 201,
+  BOUGHT_NOW: 201,
+  PRICE_TAKEN: 201,
+  BID_SEALED: 202,
+  OUTBID_BY_PROXY: 409,
+  BID_TOO_LOW: 409,
+  BID_BELOW_INCREMENT: 409,
+  AUCTION_ENDED: 409,
+  NOT_STARTED: 409,
+  BID_RETRACTED: 409, // history entries only, never a bid outcome
+  INVALID_AMOUNT: 400,
+  PROXY_NOT_SUPPORTED: 400,
+  SERVER_SHUTTING_DOWN: 503
+}
+
+/**
+ * Sends an admin mutation result with the matching HTTP status
+ */
+function sendMutationResult (
+  res: Response,
+  result: AuctionMutationResult,
+  successCode = 200
+): void {
+  if (result.success) {
+    res.status(successCode).json(result.item)
+    return
+  }
+
+  res.status(MUTATION_STATUS_CODES[result.status]).json({
+    error: result.status,
+    errors: result.errors,
+    item: result.item
+  })
+}
+
 /**
  * GET /items
- * Returns all auction items with current server time
+ * Returns a page of auction items with current server time
+ * Query params: status (active | ended | cancelled), endingWithinMinutes,
+ * currency (required with minPrice, maxPrice or the highest_bid sort),
+ * minPrice, maxPrice, q (title search), sort (ending_soonest | highest_bid |
+ * most_bids), limit (default 20, max 100), cursor (nextCursor of the previous page)
  */
-router.get('/items', async (req: Request, res: Response) => {
+router.get('/', async (req: Request, res: Response) => {
+  const { query, errors } = auctionService.parseAuctionQuery(req.query)
+
+  if (!query) {
+    res.status(400).json({ error: 'VALIDATION_FAILED', errors })
+    return
+  }
+
+  try {
+    res.json(await auctionService.queryAuctionItems(query))
+  } catch (error) {
+    req.log.error('Error fetching items', { error })
+    res.status(500).json({ error: 'Failed to fetch auction items' })
+  }
+})
+
+/**
+ * GET /items/:id/bids
+ * Returns a page of the item's bid history, most recent first
+ * Query params: offset (default 0), limit (default 20, max 100)
+ */
+router.get('/:id/bids', async (req: Request, res: Response) => {
+  const offset = parseInt((req.query.offset as string) || '0', 10)
+  const limit = parseInt((req.query.limit as string) || '20', 10)
+
+  if (isNaN(offset) || offset < 0 || isNaN(limit) || limit < 1 || limit > 100) {
+    res.status(400).json({ error: 'Invalid offset or limit' })
+    return
+  }
+
+  try {
+    const page = await auctionService.getBidHistory(req.params.id, offset, limit)
+
+    if (!page) {
+      res.status(404).json({ error: 'Auction item not found' })
+      return
+    }
+
+    res.json(page)
+  } catch (error) {
+    req.log.error('Error fetching bid history', { itemId: req.params.id, error })
+    res.status(500).json({ error: 'Failed to fetch bid history' })
+  }
+})
+
+/**
+ * POST /items/:id/bids
+ * Places a bid as the authenticated bidder, with the same outcomes as the
+ * BID_PLACED / PROXY_BID_PLACED socket events; watchers are notified the same way
+ * Body: { amount } for a bid or { maxAmount } for a proxy (maximum) bid, in
+ * minor units
+ */
+router.post('/:id/bids', requireBidder, async (req: Request, res: Response) => {
+  const bidderName = req.bidder?.userId as string
+  const { amount, maxAmount } = req.body || {}
+
   try {
-    console.log(req)
-    const { items, serverTime } = await auctionService.getAuctionItems()
+    // Every attempt costs a token, before any auction state is read. The
+    // session stands in for the connection: behind a proxy every client
+    // shares one IP, and a shared bucket would ban bidders for others' bids
+    const session = createHash('sha256')
+      .update(req.headers.authorization as string)
+      .digest('hex')
+      .slice(0, 32)
+    const rateLimit = await rateLimitService.checkBidRateLimit(
+      bidderName,
+      `http:${session}`
+    )
+    if (!rateLimit.allowed) {
+      res.set('Retry-After', String(Math.ceil(rateLimit.retryAfterMs / 1000)))
+      res.status(429).json({
+        error: 'RATE_LIMITED',
+        banned: rateLimit.banned,
+        retryAfterMs: rateLimit.retryAfterMs
+      })
+      return
+    }
 
-    res.json({
-      serverTime,
-      items
+    if ((amount === undefined) === (maxAmount === undefined)) {
+      res.status(400).json({
+        error: 'VALIDATION_FAILED',
+        errors: ['exactly one of amount or maxAmount is required']
+      })
+      return
+    }
+
+    const result = maxAmount !== undefined
+      ? await auctionService.placeProxyBid(req.params.id, maxAmount, bidderName)
+      : await auctionService.placeBid(req.params.id, amount, bidderName)
+
+    // Refused before the item is read, so there is no item to send
+    if (result.status === 'SERVER_SHUTTING_DOWN') {
+      res.set('Retry-After', String(DRAIN_RETRY_AFTER_SECONDS))
+      res.status(BID_STATUS_CODES[result.status]).json({
+        success: false,
+        status: result.status
+      })
+      return
+    }
+
+    if (!result.item) {
+      res.status(404).json({ error: 'Auction item not found' })
+      return
+    }
+
+    // The displaced bidder is told over OUTBID, never in this response
+    res.status(BID_STATUS_CODES[result.status]).json({
+      success: result.success,
+      status: result.status,
+      item: result.item,
+      extended: result.extended
     })
   } catch (error) {
-    console.error('Error fetching items:', error)
-    res.status(500).json({ error: 'Failed to fetch auction items' })
+    req.log.error('Error placing bid', { itemId: req.params.id, error })
+    res.status(500).json({ error: 'Failed to place bid' })
+  }
+})
+
+/**
+ * POST /items/:id/bids/:version/retract
+ * Voids an accepted bid and restores the previous high bid (admin)
+ * Body: { reason }
+ */
+router.post(
+  '/:id/bids/:version/retract',
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await adminService.retractBid(
+        req.params.id,
+        Number(req.params.version),
+        req.bidder?.userId as string,
+        req.body?.reason
+      )
+
+      if (result.success) {
+        res.json({ item: result.item, bid: result.bid })
+        return
+      }
+      sendMutationResult(res, result)
+    } catch (error) {
+      req.log.error('Error retracting bid', { itemId: req.params.id, error })
+      res.status(500).json({ error: 'Failed to retract bid' })
+    }
+  }
+)
+
+/**
+ * POST /items
+ * Creates an auction item (admin)
+ */
+router.post('/', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const result = await adminService.createAuction(req.body || {})
+    sendMutationResult(res, result, 201)
+  } catch (error) {
+    req.log.error('Error creating item', { error })
+    res.status(500).json({ error: 'Failed to create auction item' })
+  }
+})
+
+/**
+ * PATCH /items/:id
+ * Edits an auction item (admin); some fields are locked once bids exist
+ */
+router.patch('/:id', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const result = await adminService.updateAuction(req.params.id, req.body || {})
+    sendMutationResult(res, result)
+  } catch (error) {
+    req.log.error('Error updating item', { itemId: req.params.id, error })
+    res.status(500).json({ error: 'Failed to update auction item' })
+  }
+})
+
+/**
+ * DELETE /items/:id
+ * Cancels an auction item (admin); the item and its bid history are kept
+ */
+router.delete('/:id', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const result = await adminService.cancelAuction(req.params.id)
+    sendMutationResult(res, result)
+  } catch (error) {
+    req.log.error('Error cancelling item', { itemId: req.params.id, error })
+    res.status(500).json({ error: 'Failed to cancel auction item' })
   }
 })
 
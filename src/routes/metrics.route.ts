@@ -0,0 +1,23 @@
+import { Router, Request, Response } from 'express'
+import * as auctionService from '../services/auction.service'
+import { METRICS_CONTENT_TYPE, renderMetrics } from '../utils/metrics'
+
+const router = Router()
+
+/**
+ * GET /metrics
+ * Prometheus scrape endpoint for this instance: bid outcomes and latency,
+ * Lua script latency, connected sockets, auctions by status and expiry lag
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    await auctionService.refreshAuctionMetrics()
+  } catch (error) {
+    // Still expose the in-process metrics when Redis is unreachable
+    req.log.error('Error refreshing auction metrics', { error })
+  }
+
+  res.type(METRICS_CONTENT_TYPE).send(renderMetrics())
+})
+
+export default router
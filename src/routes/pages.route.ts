@@ -6,25 +6,66 @@ const router = Router()
 /**
  * GET /
  * Renders the auction dashboard
- * Fetches data from existing auction service (no logic duplication)
+ * Accepts the same query params as GET /items and fetches through the same
+ * service call (no logic duplication)
  */
 router.get('/', async (req: Request, res: Response) => {
+  const { query, errors } = auctionService.parseAuctionQuery(req.query)
+
+  if (!query) {
+    res.status(400).render('index', {
+      title: 'Live Auction Platform',
+      filters: req.query,
+      errors,
+      items: []
+    })
+    return
+  }
+
   try {
-    console.log(req.baseUrl)
-    const { items, serverTime } = await auctionService.getAuctionItems()
+    const { items, serverTime, total, nextCursor } =
+      await auctionService.queryAuctionItems(query)
 
-    console.log(items)
+    let nextPageUrl: string | null = null
+    if (nextCursor) {
+      const params = new URLSearchParams(req.query as Record<string, string>)
+      params.set('cursor', nextCursor)
+      nextPageUrl = `/?${params.toString()}`
+    }
 
     res.render('index', {
       title: 'Live Auction Platform',
       serverTime,
+      filters: req.query,
       items,
-      body: '' // Will be filled by index.ejs content
+      total,
+      nextPageUrl
     })
   } catch (error) {
-    console.error('Error rendering dashboard:', error)
+    req.log.error('Error rendering dashboard', { error })
     res.status(500).send('Error loading auction dashboard')
   }
 })
 
+/**
+ * GET /cards/:id
+ * Renders a single auction card fragment
+ * Lets open dashboards insert or refresh cards for items created or edited live
+ */
+router.get('/cards/:id', async (req: Request, res: Response) => {
+  try {
+    const item = await auctionService.getAuctionItem(req.params.id)
+
+    if (!item) {
+      res.status(404).send('Auction item not found')
+      return
+    }
+
+    res.render('partials/auctionCard', { ...item, layout: false })
+  } catch (error) {
+    req.log.error('Error rendering auction card', { itemId: req.params.id, error })
+    res.status(500).send('Error loading auction card')
+  }
+})
+
 export default router
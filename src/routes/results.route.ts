@@ -0,0 +1,28 @@
+import { Router, Request, Response } from 'express'
+import * as settlementService from '../services/settlement.service'
+
+const router = Router()
+
+/**
+ * GET /results
+ * Returns a page of settled auction results, most recently closed first
+ * Query params: offset (default 0), limit (default 20, max 100)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  const offset = parseInt((req.query.offset as string) || '0', 10)
+  const limit = parseInt((req.query.limit as string) || '20', 10)
+
+  if (isNaN(offset) || offset < 0 || isNaN(limit) || limit < 1 || limit > 100) {
+    res.status(400).json({ error: 'Invalid offset or limit' })
+    return
+  }
+
+  try {
+    res.json(await settlementService.getResults(offset, limit))
+  } catch (error) {
+    req.log.error('Error fetching results', { error })
+    res.status(500).json({ error: 'Failed to fetch auction results' })
+  }
+})
+
+export default router
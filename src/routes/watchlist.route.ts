@@ -0,0 +1,84 @@
+import { Router, Request, Response } from 'express'
+import * as watchlistService from '../services/watchlist.service'
+import { WatchlistResult } from '../models/watchlist'
+import { requireBidder } from '../middleware/auth.middleware'
+
+const router = Router()
+
+const WATCHLIST_STATUS_CODES: Record<WatchlistResult['status'], number> = {
+  OK: 200,
+  NOT_FOUND: 404,
+  AUCTION_ENDED: 409,
+  WATCHLIST_FULL: 409
+}
+
+// The watchlist is always the authenticated bidder's own
+router.use(requireBidder)
+
+/**
+ * Sends a watchlist result with the matching HTTP status
+ */
+function sendWatchlistResult (res: Response, result: WatchlistResult): void {
+  if (result.success) {
+    res.json({ itemIds: result.itemIds })
+    return
+  }
+
+  res.status(WATCHLIST_STATUS_CODES[result.status]).json({ error: result.status })
+}
+
+/**
+ * GET /watchlist
+ * Returns the IDs of the auctions the bidder watches
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const itemIds = await watchlistService.getWatchlist(req.bidder?.userId as string)
+    res.json({ itemIds })
+  } catch (error) {
+    req.log.error('Error fetching watchlist', { error })
+    res.status(500).json({ error: 'Failed to fetch watchlist' })
+  }
+})
+
+/**
+ * POST /watchlist
+ * Watches a scheduled or live auction, the same as the WATCH_ITEM socket event
+ * Body: { itemId }
+ */
+router.post('/', async (req: Request, res: Response) => {
+  const { itemId } = req.body || {}
+
+  if (typeof itemId !== 'string' || !itemId) {
+    res.status(400).json({ error: 'VALIDATION_FAILED', errors: ['itemId is required'] })
+    return
+  }
+
+  try {
+    sendWatchlistResult(
+      res,
+      await watchlistService.watchItem(req.bidder?.userId as string, itemId)
+    )
+  } catch (error) {
+    req.log.error('Error watching auction', { itemId, error })
+    res.status(500).json({ error: 'Failed to update watchlist' })
+  }
+})
+
+/**
+ * DELETE /watchlist/:itemId
+ * Stops watching an auction
+ */
+router.delete('/:itemId', async (req: Request, res: Response) => {
+  try {
+    sendWatchlistResult(
+      res,
+      await watchlistService.unwatchItem(req.bidder?.userId as string, req.params.itemId)
+    )
+  } catch (error) {
+    req.log.error('Error unwatching auction', { itemId: req.params.itemId, error })
+    res.status(500).json({ error: 'Failed to update watchlist' })
+  }
+})
+
+export default router
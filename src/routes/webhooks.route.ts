@@ -0,0 +1,152 @@
+import { Router, Request, Response } from 'express'
+import * as webhookService from '../services/webhook.service'
+import { WebhookResult } from '../models/webhook'
+import { requireAdmin } from '../middleware/auth.middleware'
+
+const router = Router()
+
+const WEBHOOK_STATUS_CODES: Record<WebhookResult['status'], number> = {
+  OK: 200,
+  NOT_FOUND: 404,
+  VALIDATION_FAILED: 400,
+  CONFLICT: 409
+}
+
+// Every webhook endpoint is admin-only
+router.use(requireAdmin)
+
+/**
+ * Parses offset / limit paging params, or null if they are invalid
+ */
+function parsePaging (req: Request): { offset: number, limit: number } | null {
+  const offset = parseInt((req.query.offset as string) || '0', 10)
+  const limit = parseInt((req.query.limit as string) || '20', 10)
+
+  if (isNaN(offset) || offset < 0 || isNaN(limit) || limit < 1 || limit > 100) {
+    return null
+  }
+  return { offset, limit }
+}
+
+/**
+ * Sends a webhook result with the matching HTTP status
+ */
+function sendWebhookResult (res: Response, result: WebhookResult, successCode = 200): void {
+  if (result.success) {
+    res.status(successCode).json(result.subscription ?? result.delivery)
+    return
+  }
+
+  res.status(WEBHOOK_STATUS_CODES[result.status]).json({
+    error: result.status,
+    errors: result.errors,
+    delivery: result.delivery
+  })
+}
+
+/**
+ * GET /webhooks
+ * Lists webhook subscriptions (secrets are never listed)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    res.json({ subscriptions: await webhookService.getSubscriptions() })
+  } catch (error) {
+    req.log.error('Error fetching webhooks', { error })
+    res.status(500).json({ error: 'Failed to fetch webhooks' })
+  }
+})
+
+/**
+ * POST /webhooks
+ * Registers a subscription; the response is the only time its secret is shown
+ * Body: { url, events, secret? }
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const result = await webhookService.createSubscription(
+      req.body || {},
+      req.bidder?.userId as string
+    )
+    sendWebhookResult(res, result, 201)
+  } catch (error) {
+    req.log.error('Error creating webhook', { error })
+    res.status(500).json({ error: 'Failed to create webhook' })
+  }
+})
+
+/**
+ * GET /webhooks/dead-letters
+ * Returns a page of deliveries that ran out of attempts, most recent first
+ * Query params: offset (default 0), limit (default 20, max 100)
+ */
+router.get('/dead-letters', async (req: Request, res: Response) => {
+  const paging = parsePaging(req)
+  if (!paging) {
+    res.status(400).json({ error: 'Invalid offset or limit' })
+    return
+  }
+
+  try {
+    res.json(await webhookService.getDeadLetters(paging.offset, paging.limit))
+  } catch (error) {
+    req.log.error('Error fetching dead letters', { error })
+    res.status(500).json({ error: 'Failed to fetch dead letters' })
+  }
+})
+
+/**
+ * POST /webhooks/deliveries/:deliveryId/retry
+ * Requeues a dead-lettered delivery with a fresh set of attempts
+ */
+router.post('/deliveries/:deliveryId/retry', async (req: Request, res: Response) => {
+  try {
+    const result = await webhookService.retryDelivery(req.params.deliveryId)
+    sendWebhookResult(res, result, 202)
+  } catch (error) {
+    req.log.error('Error retrying webhook delivery', { deliveryId: req.params.deliveryId, error })
+    res.status(500).json({ error: 'Failed to retry delivery' })
+  }
+})
+
+/**
+ * DELETE /webhooks/:id
+ * Deletes a subscription with its delivery history
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const result = await webhookService.deleteSubscription(req.params.id)
+    sendWebhookResult(res, result)
+  } catch (error) {
+    req.log.error('Error deleting webhook', { subscriptionId: req.params.id, error })
+    res.status(500).json({ error: 'Failed to delete webhook' })
+  }
+})
+
+/**
+ * GET /webhooks/:id/deliveries
+ * Returns a page of the subscription's deliveries with every attempt,
+ * most recent first
+ * Query params: offset (default 0), limit (default 20, max 100)
+ */
+router.get('/:id/deliveries', async (req: Request, res: Response) => {
+  const paging = parsePaging(req)
+  if (!paging) {
+    res.status(400).json({ error: 'Invalid offset or limit' })
+    return
+  }
+
+  try {
+    const page = await webhookService.getDeliveries(req.params.id, paging.offset, paging.limit)
+    if (!page) {
+      res.status(404).json({ error: 'Webhook not found' })
+      return
+    }
+    res.json(page)
+  } catch (error) {
+    req.log.error('Error fetching webhook deliveries', { subscriptionId: req.params.id, error })
+    res.status(500).json({ error: 'Failed to fetch webhook deliveries' })
+  }
+})
+
+export default router
@@ -0,0 +1,35 @@
+import { closeRedisClient } from '../config/redis'
+import * as authService from '../services/auth.service'
+import { logger } from '../utils/logger'
+
+/**
+ * Creates an admin account for a username listed in ADMIN_USERNAMES
+ * The password is read from ADMIN_PASSWORD so it stays out of shell history
+ */
+async function createAdminAccount (username: string | undefined, password: string | undefined): Promise<void> {
+  try {
+    const result = await authService.createAdmin(username, password)
+
+    if (!result.success) {
+      throw new Error(result.status === 'USERNAME_TAKEN'
+        ? `Account ${String(username)} already exists`
+        : (result.errors ?? []).join('; '))
+    }
+
+    logger.info('Created admin account', { username: result.bidder?.username })
+  } finally {
+    await closeRedisClient()
+  }
+}
+
+// Run if executed directly: ADMIN_PASSWORD=... npm run create-admin -- <username>
+if (require.main === module) {
+  createAdminAccount(process.argv[2], process.env.ADMIN_PASSWORD)
+    .then(() => process.exit(0))
+    .catch(error => {
+      logger.error('Creating admin account failed', { error })
+      process.exit(1)
+    })
+}
+
+export { createAdminAccount }
@@ -1,29 +1,81 @@
 import { getRedisClient, closeRedisClient } from '../config/redis'
-import * as auctionStore from '../store/auction.store'
+import { auctionStore } from '../store/auctionStore'
+import * as resultStore from '../store/result.store'
+import * as watchlistStore from '../store/watchlist.store'
+import * as lockStore from '../store/lock.store'
+import { config } from '../config/env'
 import { AuctionItem } from '../models/auctionItem'
 import { createFutureTimestamp } from '../utils/time'
+import { logger } from '../utils/logger'
+
+type SeedItem = Omit<
+  AuctionItem,
+  | 'originalEndsAt'
+  | 'softCloseWindowMs'
+  | 'softCloseExtensionMs'
+  | 'softCloseMaxExtensionMs'
+  | 'bidCount'
+  | 'status'
+  | 'startsAt'
+  | 'auctionType'
+> &
+Partial<Pick<AuctionItem, 'status' | 'startsAt' | 'auctionType'>>
+
+// Bids in the last 30s push endsAt to 30s after the bid, up to 5 minutes in total
+const SOFT_CLOSE_SETTINGS = {
+  softCloseWindowMs: 30 * 1000,
+  softCloseExtensionMs: 30 * 1000,
+  softCloseMaxExtensionMs: 5 * 60 * 1000
+}
+// Soft close only applies to English auctions
+const NO_SOFT_CLOSE = {
+  softCloseWindowMs: 0,
+  softCloseExtensionMs: 0,
+  softCloseMaxExtensionMs: 0
+}
+
+// Replicas started together seed once: whichever takes the lock seeds, the
+// rest skip. The TTL outlasts a seed run, and frees the lock if one dies.
+const SEED_LOCK_NAME = 'seed'
+const SEED_LOCK_TTL_MS = 60 * 1000
 
 /**
  * Seeds initial auction items into Redis
+ * Existing items are left untouched unless reset is set, which wipes all
+ * auction data first
  */
-async function seedAuctionItems (): Promise<void> {
-  console.log('Starting auction items seed...')
+async function seedAuctionItems (
+  options: { reset: boolean } = { reset: false }
+): Promise<void> {
+  logger.info('Starting auction items seed')
+  let locked = false
 
   try {
     // Connect to Redis
     await getRedisClient()
 
-    // Clear existing items
-    await auctionStore.clearAllItems()
-    console.log('Cleared existing auction items')
+    locked = await lockStore.acquireLock(SEED_LOCK_NAME, config.instanceId, SEED_LOCK_TTL_MS)
+    if (!locked) {
+      logger.info('Skipped seeding: another instance is seeding')
+      return
+    }
+
+    if (options.reset) {
+      await auctionStore.clearAllItems()
+      await resultStore.clearAllResults()
+      await watchlistStore.clearAllWatchlists()
+      logger.info('Cleared existing auction items')
+    }
 
-    // Create seed data
-    const items: AuctionItem[] = [
+    // Create seed data (amounts in minor units, e.g. cents)
+    const seedItems: SeedItem[] = [
       {
         id: '1',
         title: 'Vintage Rolex Submariner',
-        startingPrice: 5000,
-        currentBid: 5000,
+        currency: 'USD',
+        startingPrice: 500000,
+        currentBid: 500000,
+        reservePrice: 800000,
         highestBidder: '',
         endsAt: createFutureTimestamp(518400), // 60 seconds from now
         ended: false,
@@ -32,8 +84,9 @@ async function seedAuctionItems (): Promise<void> {
       {
         id: '2',
         title: 'Rare Pokemon Card Collection',
-        startingPrice: 1500,
-        currentBid: 1500,
+        currency: 'USD',
+        startingPrice: 150000,
+        currentBid: 150000,
         highestBidder: '',
         endsAt: createFutureTimestamp(518400), // 90 seconds from now
         ended: false,
@@ -42,8 +95,10 @@ async function seedAuctionItems (): Promise<void> {
       {
         id: '3',
         title: 'MacBook Pro M3 Max',
-        startingPrice: 2500,
-        currentBid: 2500,
+        currency: 'USD',
+        startingPrice: 250000,
+        currentBid: 250000,
+        buyNowPrice: 400000,
         highestBidder: '',
         endsAt: createFutureTimestamp(518400), // 120 seconds from now
         ended: false,
@@ -52,41 +107,105 @@ async function seedAuctionItems (): Promise<void> {
       {
         id: '4',
         title: 'Signed Baseball by Babe Ruth',
-        startingPrice: 10000,
-        currentBid: 10000,
+        currency: 'USD',
+        startingPrice: 1000000,
+        currentBid: 1000000,
         highestBidder: '',
         endsAt: createFutureTimestamp(518400), // 45 seconds from now
         ended: false,
         version: 0
+      },
+      {
+        id: '5',
+        title: 'First Edition Harry Potter',
+        currency: 'GBP',
+        startingPrice: 300000,
+        currentBid: 300000,
+        highestBidder: '',
+        status: 'scheduled',
+        startsAt: createFutureTimestamp(120), // opens for bidding in 2 minutes
+        endsAt: createFutureTimestamp(518400),
+        ended: false,
+        version: 0
+      },
+      {
+        id: '6',
+        title: 'Original Banksy Print',
+        auctionType: 'sealed_second_price',
+        currency: 'USD',
+        startingPrice: 200000,
+        currentBid: 200000,
+        reservePrice: 300000,
+        highestBidder: '',
+        endsAt: createFutureTimestamp(600), // bids revealed in 10 minutes
+        ended: false,
+        version: 0
+      },
+      {
+        id: '7',
+        title: 'Case of 2015 Bordeaux',
+        auctionType: 'dutch',
+        currency: 'EUR',
+        startingPrice: 500000,
+        currentBid: 500000,
+        floorPrice: 150000,
+        priceDrop: 10000, // EUR 100 less every 30 seconds
+        priceDropIntervalMs: 30 * 1000,
+        highestBidder: '',
+        endsAt: createFutureTimestamp(3600),
+        ended: false,
+        version: 0
       }
     ]
 
-    // Save items to Redis
+    const items: AuctionItem[] = seedItems.map(item => ({
+      ...item,
+      auctionType: item.auctionType ?? 'english',
+      status: item.status ?? 'live',
+      startsAt: item.startsAt ?? Date.now(),
+      ...(item.auctionType === undefined ? SOFT_CLOSE_SETTINGS : NO_SOFT_CLOSE),
+      originalEndsAt: item.endsAt,
+      bidCount: 0
+    }))
+
+    // Save items to Redis, skipping any that already exist
+    let seededCount = 0
     for (const item of items) {
+      if (await auctionStore.getItemById(item.id)) {
+        logger.info('Skipped existing auction item', { itemId: item.id, title: item.title })
+        continue
+      }
+
       await auctionStore.saveItem(item)
-      console.log(
-        `Seeded: ${item.title} - Ends in ${(item.endsAt - Date.now()) / 1000}s`
-      )
+      seededCount++
+      logger.info('Seeded auction item', {
+        itemId: item.id,
+        title: item.title,
+        endsInSeconds: (item.endsAt - Date.now()) / 1000
+      })
     }
 
-    console.log(`Successfully seeded ${items.length} auction items`)
+    logger.info('Seeded auction items', { count: seededCount })
   } catch (error) {
-    console.error('Error seeding auction items:', error)
+    logger.error('Error seeding auction items', { error })
     throw error
   } finally {
+    if (locked) {
+      await lockStore.releaseLock(SEED_LOCK_NAME, config.instanceId)
+    }
     await closeRedisClient()
   }
 }
 
 // Run seed if executed directly
 if (require.main === module) {
-  seedAuctionItems()
+  seedAuctionItems({ reset: process.argv.includes('--reset') })
     .then(() => {
-      console.log('Seed completed successfully')
+      logger.info('Seed completed successfully')
       process.exit(0)
     })
     .catch(error => {
-      console.error('Seed failed:', error)
+      logger.error('Seed failed', { error })
       process.exit(1)
     })
 }
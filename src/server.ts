@@ -1,53 +1,130 @@
+import { Server as HTTPServer } from 'http';
 import { createApp } from './app';
 import { config } from './config/env';
 import { getRedisClient, closeRedisClient } from './config/redis';
 import { seedAuctionItems } from './seed/seed';
+import { ensureIndexes, migrateToMinorUnits } from './store/auction.store';
+import { migrateToMinorUnits as migrateResultsToMinorUnits } from './store/result.store';
+import { startExpiryWorker } from './workers/expiry.worker';
+import { startWebhookWorker } from './workers/webhook.worker';
+import { logger } from './utils/logger';
+import { startDraining, waitForInFlight } from './utils/drain';
+import { closeStreamClients } from './streams/event.stream';
+import { TypedServer } from './types/socket';
+
+const SHUTDOWN_MESSAGE = 'Server is restarting - reconnecting you to another server';
+
+/**
+ * Disconnects every socket and stops the HTTP server, resolving once all
+ * connections have closed
+ */
+async function closeServer(io: TypedServer, httpServer: HTTPServer): Promise<void> {
+  const closed = new Promise<void>((resolve) => {
+    httpServer.once('close', () => resolve());
+  });
+
+  await io.close();
+  // Keep-alive connections idle between requests would hold the server open
+  httpServer.closeIdleConnections();
+  await closed;
+}
 
 /**
  * Bootstrap and start the server
  */
 async function startServer(): Promise<void> {
   try {
-    console.log('Starting Live Bidding Platform...');
+    logger.info('Starting Live Bidding Platform');
 
     // Connect to Redis
-    console.log('Connecting to Redis...');
+    logger.info('Connecting to Redis');
     await getRedisClient();
-    console.log('Redis connected successfully');
+    logger.info('Redis connected successfully');
+
+    // Seed demo auction items (opt-in, never overwrites existing items)
+    if (config.seedOnStartup) {
+      logger.info('Seeding auction items');
+      await seedAuctionItems();
+    }
 
-    // Seed auction items
-    console.log('Seeding auction items...');
-    await seedAuctionItems();
+    // Convert amounts stored before integer minor units and currencies; the
+    // in-memory auction store always starts empty
+    const useRedisAuctions = config.auctionStore === 'redis';
+    const migratedCount =
+      (useRedisAuctions ? await migrateToMinorUnits() : 0) +
+      (await migrateResultsToMinorUnits(config.defaultCurrency));
+    if (migratedCount > 0) {
+      logger.info('Converted auction items and results to minor units', { count: migratedCount });
+    }
+
+    // Index auctions saved before the expiry and query indexes existed
+    const indexedCount = useRedisAuctions ? await ensureIndexes() : 0;
+    if (indexedCount > 0) {
+      logger.info('Indexed existing auction items', { count: indexedCount });
+    }
 
     // Create Express app and Socket.io server
-    const { httpServer } = createApp();
+    const { httpServer, io } = await createApp();
+
+    // Every instance competes for the expiry lock; only the leader ends auctions
+    const stopExpiryWorker = startExpiryWorker(io);
+
+    // Every instance queues its own events' webhooks and delivers due ones
+    const stopWebhookWorker = startWebhookWorker();
 
     // Start listening
     httpServer.listen(config.port, () => {
-      console.log('='.repeat(50));
-      console.log(`🚀 Server running on port ${config.port}`);
-      console.log(`📡 WebSocket ready for connections`);
-      console.log(`🗄️  Redis connected to ${config.redisHost}:${config.redisPort}`);
-      console.log(`🌍 Environment: ${config.nodeEnv}`);
-      console.log('='.repeat(50));
+      logger.info('Server running', {
+        port: config.port,
+        redis: `${config.redisHost}:${config.redisPort}`,
+        environment: config.nodeEnv,
+        auctionStore: config.auctionStore,
+      });
     });
 
     // Graceful shutdown handlers
+    // Drains in order: refuse new bids, tell clients, finish in-flight bids,
+    // stop the expiry worker, close connections, stop the webhook worker, and
+    // only then close Redis
+    let shuttingDown = false;
     const shutdown = async (signal: string): Promise<void> => {
-      console.log(`\n${signal} received. Starting graceful shutdown...`);
+      if (shuttingDown) {
+        return;
+      }
+      shuttingDown = true;
+      logger.info('Starting graceful shutdown', { signal });
+
+      setTimeout(() => {
+        logger.error('Graceful shutdown timed out', { timeoutMs: config.shutdownTimeoutMs });
+        process.exit(1);
+      }, config.shutdownTimeoutMs).unref();
 
       try {
-        httpServer.close(() => {
-          console.log('HTTP server closed');
-        });
+        // Readiness fails and new bids are refused from here on
+        startDraining();
+
+        // Only this instance's clients; the other instances keep serving
+        io.local.emit('SERVER_SHUTDOWN', { message: SHUTDOWN_MESSAGE });
+        closeStreamClients(SHUTDOWN_MESSAGE);
+
+        const finishedBids = await waitForInFlight();
+        logger.info('In-flight bids finished', { count: finishedBids });
+
+        await stopExpiryWorker();
+
+        await closeServer(io, httpServer);
+        logger.info('HTTP server closed');
+
+        // Last, so it queues the events of everything that finished above
+        await stopWebhookWorker();
 
         await closeRedisClient();
-        console.log('Redis connection closed');
+        logger.info('Redis connection closed');
 
-        console.log('Graceful shutdown completed');
+        logger.info('Graceful shutdown completed');
         process.exit(0);
       } catch (error) {
-        console.error('Error during shutdown:', error);
+        logger.error('Error during shutdown', { error });
         process.exit(1);
       }
     };
@@ -55,7 +132,7 @@ async function startServer(): Promise<void> {
     process.on('SIGTERM', () => shutdown('SIGTERM'));
     process.on('SIGINT', () => shutdown('SIGINT'));
   } catch (error) {
-    console.error('Failed to start server:', error);
+    logger.error('Failed to start server', { error });
     process.exit(1);
   }
 }
@@ -0,0 +1,490 @@
+import { randomUUID } from 'crypto'
+import {
+  AuctionItem,
+  AuctionMutationResult,
+  AuctionType,
+  BidIncrementTier,
+  CreateAuctionInput,
+  UpdateAuctionInput
+} from '../models/auctionItem'
+import { auctionStore } from '../store/auctionStore'
+import { auctionEvents } from '../events/auction.events'
+import { toPublicItem } from './auction.service'
+import { getServerTime } from '../utils/time'
+import { isMinorUnitAmount, isSupportedCurrency } from '../utils/money'
+import { config } from '../config/env'
+
+const MAX_TITLE_LENGTH = 200
+const MAX_RETRACT_REASON_LENGTH = 500
+
+const SOFT_CLOSE_FIELDS = [
+  'softCloseWindowMs',
+  'softCloseExtensionMs',
+  'softCloseMaxExtensionMs'
+] as const
+const AUCTION_TYPES: AuctionType[] = [
+  'english',
+  'sealed_first_price',
+  'sealed_second_price',
+  'dutch'
+]
+const DUTCH_FIELDS = ['floorPrice', 'priceDrop', 'priceDropIntervalMs'] as const
+
+function isPositiveNumber (value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0
+}
+
+function isNonNegativeInteger (value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+/**
+ * Validates an increment table: positive increments, ascending upTo bounds,
+ * all in minor units
+ */
+function validateBidIncrements (tiers: unknown, errors: string[]): void {
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    errors.push('bidIncrements must be a non-empty array')
+    return
+  }
+
+  let previousUpTo = 0
+  tiers.forEach((tier: Partial<BidIncrementTier>, index) => {
+    if (!isMinorUnitAmount(tier.increment)) {
+      errors.push(`bidIncrements[${index}].increment must be a positive integer (minor units)`)
+    }
+    if (tier.upTo !== undefined) {
+      if (!isMinorUnitAmount(tier.upTo) || tier.upTo <= previousUpTo) {
+        errors.push(`bidIncrements[${index}].upTo must be greater than the previous tier`)
+      } else {
+        previousUpTo = tier.upTo
+      }
+    }
+  })
+}
+
+/**
+ * Validates price and schedule relationships on the item as it would be
+ * after the change
+ */
+function validateItem (item: AuctionItem, errors: string[]): void {
+  if (item.endsAt <= item.startsAt) {
+    errors.push('endsAt must be after startsAt')
+  }
+  if (item.reservePrice !== undefined && item.reservePrice < item.startingPrice) {
+    errors.push('reservePrice must be at least startingPrice')
+  }
+  if (item.buyNowPrice !== undefined) {
+    if (item.buyNowPrice <= item.startingPrice) {
+      errors.push('buyNowPrice must be greater than startingPrice')
+    }
+    if (item.reservePrice !== undefined && item.buyNowPrice < item.reservePrice) {
+      errors.push('buyNowPrice must be at least reservePrice')
+    }
+  }
+  validateFormat(item, errors)
+}
+
+/**
+ * Validates that an item only uses the features its auction format has:
+ * buy it now, increments and soft close are English-only, and the Dutch
+ * clock replaces the reserve
+ */
+function validateFormat (item: AuctionItem, errors: string[]): void {
+  if (item.auctionType !== 'english') {
+    if (item.buyNowPrice !== undefined) {
+      errors.push(`buyNowPrice is not available in ${item.auctionType} auctions`)
+    }
+    if (item.bidIncrements !== undefined) {
+      errors.push(`bidIncrements are not available in ${item.auctionType} auctions`)
+    }
+    if (item.softCloseExtensionMs > 0) {
+      errors.push(`soft close is not available in ${item.auctionType} auctions`)
+    }
+  }
+
+  if (item.auctionType !== 'dutch') {
+    if (DUTCH_FIELDS.some(field => item[field] !== undefined)) {
+      errors.push(`${DUTCH_FIELDS.join(', ')} are only available in dutch auctions`)
+    }
+    return
+  }
+
+  if (item.reservePrice !== undefined) {
+    errors.push('reservePrice is not available in dutch auctions; use floorPrice')
+  }
+  for (const field of DUTCH_FIELDS) {
+    if (item[field] === undefined) {
+      errors.push(`${field} is required for dutch auctions`)
+    }
+  }
+  if (item.floorPrice !== undefined && item.floorPrice >= item.startingPrice) {
+    errors.push('floorPrice must be less than startingPrice')
+  }
+}
+
+/**
+ * Validates the fields shared by create and update requests
+ */
+function validateCommonFields (
+  input: CreateAuctionInput | UpdateAuctionInput,
+  errors: string[]
+): void {
+  if (
+    input.title !== undefined &&
+    (typeof input.title !== 'string' ||
+      input.title.trim() === '' ||
+      input.title.length > MAX_TITLE_LENGTH)
+  ) {
+    errors.push(`title must be a non-empty string of at most ${MAX_TITLE_LENGTH} characters`)
+  }
+  if (input.startingPrice !== undefined && !isMinorUnitAmount(input.startingPrice)) {
+    errors.push('startingPrice must be a positive integer (minor units)')
+  }
+  if (
+    input.startsAt !== undefined &&
+    (!isPositiveNumber(input.startsAt) || input.startsAt <= getServerTime())
+  ) {
+    errors.push('startsAt must be a future epoch milliseconds timestamp')
+  }
+  if (
+    input.endsAt !== undefined &&
+    (!isPositiveNumber(input.endsAt) || input.endsAt <= getServerTime())
+  ) {
+    errors.push('endsAt must be a future epoch milliseconds timestamp')
+  }
+  if (
+    input.reservePrice !== undefined &&
+    input.reservePrice !== null &&
+    !isMinorUnitAmount(input.reservePrice)
+  ) {
+    errors.push('reservePrice must be a positive integer (minor units)')
+  }
+  if (
+    input.buyNowPrice !== undefined &&
+    input.buyNowPrice !== null &&
+    !isMinorUnitAmount(input.buyNowPrice)
+  ) {
+    errors.push('buyNowPrice must be a positive integer (minor units)')
+  }
+  if (input.bidIncrements !== undefined && input.bidIncrements !== null) {
+    validateBidIncrements(input.bidIncrements, errors)
+  }
+  for (const field of SOFT_CLOSE_FIELDS) {
+    if (input[field] !== undefined && !isNonNegativeInteger(input[field])) {
+      errors.push(`${field} must be a non-negative integer (milliseconds)`)
+    }
+  }
+}
+
+/**
+ * Creates a new auction from admin input and broadcasts ITEM_CREATED
+ * With startsAt the auction is scheduled until then; otherwise it is live
+ * immediately. The auction format is fixed at creation
+ */
+export async function createAuction (
+  input: CreateAuctionInput
+): Promise<AuctionMutationResult> {
+  const errors: string[] = []
+
+  if (input.title === undefined) {
+    errors.push('title is required')
+  }
+  if (input.startingPrice === undefined) {
+    errors.push('startingPrice is required')
+  }
+  if (input.currency !== undefined && !isSupportedCurrency(input.currency)) {
+    errors.push('currency must be an ISO 4217 code such as USD')
+  }
+  if (input.auctionType !== undefined && !AUCTION_TYPES.includes(input.auctionType)) {
+    errors.push(`auctionType must be one of ${AUCTION_TYPES.join(', ')}`)
+  }
+  if (input.floorPrice !== undefined && !isMinorUnitAmount(input.floorPrice)) {
+    errors.push('floorPrice must be a positive integer (minor units)')
+  }
+  if (input.priceDrop !== undefined && !isMinorUnitAmount(input.priceDrop)) {
+    errors.push('priceDrop must be a positive integer (minor units)')
+  }
+  if (
+    input.priceDropIntervalMs !== undefined &&
+    !(isNonNegativeInteger(input.priceDropIntervalMs) && input.priceDropIntervalMs > 0)
+  ) {
+    errors.push('priceDropIntervalMs must be a positive integer (milliseconds)')
+  }
+  if ((input.endsAt === undefined) === (input.durationSeconds === undefined)) {
+    errors.push('exactly one of endsAt or durationSeconds is required')
+  }
+  if (
+    input.durationSeconds !== undefined &&
+    !isPositiveNumber(input.durationSeconds)
+  ) {
+    errors.push('durationSeconds must be a positive number')
+  }
+  validateCommonFields(input, errors)
+
+  if (errors.length > 0) {
+    return { success: false, status: 'VALIDATION_FAILED', errors }
+  }
+
+  const startsAt = input.startsAt ?? getServerTime()
+  const endsAt =
+    input.endsAt ?? startsAt + (input.durationSeconds as number) * 1000
+
+  const item: AuctionItem = {
+    id: randomUUID(),
+    title: input.title.trim(),
+    auctionType: input.auctionType ?? 'english',
+    currency: input.currency ?? config.defaultCurrency,
+    startingPrice: input.startingPrice,
+    currentBid: input.startingPrice,
+    highestBidder: '',
+    status: input.startsAt !== undefined ? 'scheduled' : 'live',
+    startsAt,
+    endsAt,
+    originalEndsAt: endsAt,
+    softCloseWindowMs: input.softCloseWindowMs ?? 0,
+    softCloseExtensionMs: input.softCloseExtensionMs ?? 0,
+    softCloseMaxExtensionMs: input.softCloseMaxExtensionMs ?? 0,
+    bidIncrements: input.bidIncrements,
+    reservePrice: input.reservePrice,
+    buyNowPrice: input.buyNowPrice,
+    floorPrice: input.floorPrice,
+    priceDrop: input.priceDrop,
+    priceDropIntervalMs: input.priceDropIntervalMs,
+    ended: false,
+    version: 0,
+    bidCount: 0
+  }
+
+  validateItem(item, errors)
+  if (errors.length > 0) {
+    return { success: false, status: 'VALIDATION_FAILED', errors }
+  }
+
+  await auctionStore.saveItem(item)
+  auctionEvents.emit('ITEM_CREATED', toPublicItem(item))
+
+  return { success: true, status: 'OK', item }
+}
+
+/**
+ * Edits an auction and broadcasts ITEM_UPDATED
+ * Once bids exist, the starting price is fixed, the reserve may only be
+ * lowered, buy-now must stay above the current bid and endsAt may only move later.
+ * startsAt may only change while the auction is scheduled
+ */
+export async function updateAuction (
+  itemId: string,
+  input: UpdateAuctionInput
+): Promise<AuctionMutationResult> {
+  const errors: string[] = []
+  validateCommonFields(input, errors)
+
+  if (errors.length > 0) {
+    return { success: false, status: 'VALIDATION_FAILED', errors }
+  }
+
+  const item = await auctionStore.getItemById(itemId)
+
+  if (!item) {
+    return { success: false, status: 'NOT_FOUND' }
+  }
+  if (item.ended) {
+    return { success: false, status: 'AUCTION_ENDED', item: toPublicItem(item) }
+  }
+
+  // Sealed bids leave highestBidder empty until they are revealed
+  const hasBids = item.bidCount > 0
+  const changes: Partial<AuctionItem> = {}
+  const removals: Array<keyof AuctionItem> = []
+
+  if (input.title !== undefined) {
+    changes.title = input.title.trim()
+  }
+
+  if (input.startingPrice !== undefined && input.startingPrice !== item.startingPrice) {
+    if (hasBids) {
+      errors.push('startingPrice cannot change once bids exist')
+    } else {
+      changes.startingPrice = input.startingPrice
+      changes.currentBid = input.startingPrice
+    }
+  }
+
+  if (input.startsAt !== undefined) {
+    if (item.status !== 'scheduled') {
+      errors.push('startsAt cannot change once the auction has started')
+    }
+    changes.startsAt = input.startsAt
+  }
+
+  if (input.endsAt !== undefined) {
+    if (hasBids && input.endsAt < item.endsAt) {
+      errors.push('endsAt cannot be moved earlier once bids exist')
+    }
+    // An admin-set end time resets the soft-close extension budget
+    changes.endsAt = input.endsAt
+    changes.originalEndsAt = input.endsAt
+  }
+
+  if (input.reservePrice === null) {
+    removals.push('reservePrice')
+  } else if (input.reservePrice !== undefined) {
+    if (hasBids && (item.reservePrice === undefined || input.reservePrice > item.reservePrice)) {
+      errors.push('reservePrice cannot be added or raised once bids exist')
+    }
+    changes.reservePrice = input.reservePrice
+  }
+
+  if (input.buyNowPrice === null) {
+    removals.push('buyNowPrice')
+  } else if (input.buyNowPrice !== undefined) {
+    if (hasBids && input.buyNowPrice <= item.currentBid) {
+      errors.push('buyNowPrice must be greater than the current bid')
+    }
+    changes.buyNowPrice = input.buyNowPrice
+  }
+
+  if (input.bidIncrements === null) {
+    removals.push('bidIncrements')
+  } else if (input.bidIncrements !== undefined) {
+    changes.bidIncrements = input.bidIncrements
+  }
+
+  for (const field of SOFT_CLOSE_FIELDS) {
+    if (input[field] !== undefined) {
+      changes[field] = input[field]
+    }
+  }
+
+  const updatedItem: AuctionItem = { ...item, ...changes }
+  for (const field of removals) {
+    delete updatedItem[field]
+  }
+  validateItem(updatedItem, errors)
+
+  if (errors.length > 0) {
+    return { success: false, status: 'VALIDATION_FAILED', errors }
+  }
+
+  // Rules above were checked against item.version; a bid in between means
+  // they must be re-checked by the caller
+  const resultCode = await auctionStore.updateItem(
+    itemId,
+    item.version,
+    changes,
+    removals
+  )
+
+  if (resultCode === -1) {
+    return { success: false, status: 'NOT_FOUND' }
+  } else if (resultCode === -2) {
+    return { success: false, status: 'AUCTION_ENDED' }
+  } else if (resultCode === -3) {
+    return {
+      success: false,
+      status: 'CONFLICT',
+      errors: ['The auction started while editing; startsAt can no longer change']
+    }
+  } else if (resultCode === 0) {
+    return {
+      success: false,
+      status: 'CONFLICT',
+      errors: ['The auction changed while editing (e.g. a bid was placed); retry the update']
+    }
+  }
+
+  const savedItem = await auctionStore.getItemById(itemId)
+  if (!savedItem) {
+    return { success: false, status: 'NOT_FOUND' }
+  }
+
+  auctionEvents.emit('ITEM_UPDATED', toPublicItem(savedItem))
+
+  return { success: true, status: 'OK', item: savedItem }
+}
+
+/**
+ * Cancels a scheduled or live auction and broadcasts AUCTION_CANCELLED
+ * The item is kept (ended, endReason CANCELLED) so its bid history survives
+ */
+export async function cancelAuction (
+  itemId: string
+): Promise<AuctionMutationResult> {
+  const cancelled = await auctionStore.cancelAuction(itemId, getServerTime())
+  const item = await auctionStore.getItemById(itemId)
+
+  if (!item) {
+    return { success: false, status: 'NOT_FOUND' }
+  }
+  if (!cancelled) {
+    return { success: false, status: 'AUCTION_ENDED', item: toPublicItem(item) }
+  }
+
+  auctionEvents.emit('AUCTION_CANCELLED', toPublicItem(item))
+
+  return { success: true, status: 'OK', item }
+}
+
+/**
+ * Voids an accepted bid, restoring the highest remaining bid (repriced if a
+ * proxy placed it), and broadcasts BID_RETRACTED
+ * Bids are identified by the item version they produced (BidRecord.version)
+ */
+export async function retractBid (
+  itemId: string,
+  bidVersion: unknown,
+  retractedBy: string,
+  reason: unknown
+): Promise<AuctionMutationResult> {
+  const errors: string[] = []
+
+  if (typeof bidVersion !== 'number' || !Number.isInteger(bidVersion) || bidVersion < 1) {
+    errors.push('bid version must be a positive integer')
+  }
+  if (
+    typeof reason !== 'string' ||
+    reason.trim() === '' ||
+    reason.length > MAX_RETRACT_REASON_LENGTH
+  ) {
+    errors.push(`reason must be a non-empty string of at most ${MAX_RETRACT_REASON_LENGTH} characters`)
+  }
+
+  if (errors.length > 0) {
+    return { success: false, status: 'VALIDATION_FAILED', errors }
+  }
+
+  // The currency picks the default increments a proxy lead is repriced with
+  const existing = await auctionStore.getItemById(itemId)
+  if (!existing) {
+    return { success: false, status: 'NOT_FOUND' }
+  }
+
+  const { status, bid } = await auctionStore.retractBid(
+    itemId,
+    bidVersion as number,
+    retractedBy,
+    (reason as string).trim(),
+    getServerTime(),
+    existing.currency
+  )
+
+  if (status === -1) {
+    return { success: false, status: 'NOT_FOUND' }
+  }
+
+  const item = await auctionStore.getItemById(itemId)
+  if (!item) {
+    return { success: false, status: 'NOT_FOUND' }
+  }
+
+  if (status === -2) {
+    return { success: false, status: 'AUCTION_ENDED', item: toPublicItem(item) }
+  } else if (status === 0 || !bid) {
+    return { success: false, status: 'BID_NOT_FOUND', item: toPublicItem(item) }
+  }
+
+  auctionEvents.emit('BID_RETRACTED', { item: toPublicItem(item), bid })
+
+  return { success: true, status: 'OK', item, bid }
+}
@@ -0,0 +1,132 @@
+import { after, before, beforeEach, describe, it } from 'node:test'
+import assert from 'assert'
+import { AuctionItem } from '../models/auctionItem'
+import { AuctionEventMap, auctionEvents } from '../events/auction.events'
+import { auctionStore } from '../store/auctionStore'
+import { createMemoryAuctionStore } from '../store/memoryAuction.store'
+import * as auctionService from './auction.service'
+
+// Bid outcomes and the domain events they raise, against the in-memory store
+// (swapped into the shared store object, so no Redis is needed)
+
+function makeItem (overrides: Partial<AuctionItem> = {}): AuctionItem {
+  const now = Date.now()
+  return {
+    id: 'item-1',
+    title: 'Vintage Camera',
+    auctionType: 'english',
+    currency: 'USD',
+    startingPrice: 1000,
+    currentBid: 1000,
+    highestBidder: '',
+    status: 'live',
+    startsAt: now - 60_000,
+    endsAt: now + 60_000,
+    originalEndsAt: now + 60_000,
+    softCloseWindowMs: 0,
+    softCloseExtensionMs: 0,
+    softCloseMaxExtensionMs: 0,
+    bidIncrements: [{ increment: 100 }],
+    ended: false,
+    version: 1,
+    bidCount: 0,
+    ...overrides
+  }
+}
+
+describe('auction service', () => {
+  const ended: AuctionItem[] = []
+  const accepted: Array<AuctionEventMap['BID_ACCEPTED']> = []
+  const onEnded = (item: AuctionItem): void => {
+    ended.push(item)
+  }
+  const onAccepted = (event: AuctionEventMap['BID_ACCEPTED']): void => {
+    accepted.push(event)
+  }
+
+  before(() => {
+    Object.assign(auctionStore, createMemoryAuctionStore())
+    auctionEvents.on('AUCTION_ENDED', onEnded)
+    auctionEvents.on('BID_ACCEPTED', onAccepted)
+  })
+
+  after(() => {
+    auctionEvents.off('AUCTION_ENDED', onEnded)
+    auctionEvents.off('BID_ACCEPTED', onAccepted)
+  })
+
+  beforeEach(async () => {
+    await auctionStore.clearAllItems()
+    ended.length = 0
+    accepted.length = 0
+  })
+
+  describe('queries', () => {
+    it('requires a currency to filter or sort by price', () => {
+      for (const params of [{ minPrice: '100' }, { maxPrice: '100' }, { sort: 'highest_bid' }]) {
+        assert.deepStrictEqual(auctionService.parseAuctionQuery(params).errors, [
+          'currency is required to filter or sort by price'
+        ])
+      }
+
+      const { query } = auctionService.parseAuctionQuery({ currency: 'usd', minPrice: '100', sort: 'highest_bid' })
+      assert.equal(query?.currency, 'USD')
+    })
+  })
+
+  describe('accepted bids', () => {
+    it('raises BID_ACCEPTED for each history entry, a proxy counter-bid included', async () => {
+      await auctionStore.saveItem(makeItem())
+      await auctionService.placeProxyBid('item-1', 5000, 'alice')
+      accepted.length = 0
+
+      const result = await auctionService.placeBid('item-1', 2000, 'bob')
+
+      assert.equal(result.status, 'OUTBID_BY_PROXY')
+      assert.deepStrictEqual(
+        accepted.map(({ bidderName, status, bid }) => ({ bidderName, status, amount: bid?.amount })),
+        [
+          { bidderName: 'bob', status: 'OUTBID_BY_PROXY', amount: 2000 },
+          { bidderName: 'alice', status: 'BID_ACCEPTED', amount: 2100 }
+        ]
+      )
+    })
+
+    it('raises nothing when the leader only raises their maximum', async () => {
+      await auctionStore.saveItem(makeItem())
+      await auctionService.placeProxyBid('item-1', 5000, 'alice')
+      accepted.length = 0
+
+      const result = await auctionService.placeProxyBid('item-1', 6000, 'alice')
+
+      assert.equal(result.status, 'BID_ACCEPTED')
+      assert.equal(result.item?.currentBid, 1100)
+      assert.equal(accepted.length, 0)
+    })
+  })
+
+  describe('late bids', () => {
+    it('rejects a bid after endsAt and announces the end exactly once, with the winner', async () => {
+      const endsAt = Date.now() - 1
+      await auctionStore.saveItem(makeItem({
+        endsAt,
+        originalEndsAt: endsAt,
+        currentBid: 1100,
+        highestBidder: 'alice',
+        bidCount: 1
+      }))
+      const late = await auctionService.placeBid('item-1', 1200, 'bob')
+      assert.equal(late.status, 'AUCTION_ENDED')
+      assert.equal(late.success, false)
+      assert.equal(ended.length, 0)
+
+      await auctionService.checkAndEndExpiredAuctions()
+      await auctionService.placeBid('item-1', 1300, 'bob')
+      await auctionService.checkAndEndExpiredAuctions()
+
+      assert.equal(ended.length, 1)
+      assert.equal(ended[0].winner, 'alice')
+      assert.equal(ended[0].currentBid, 1100)
+    })
+  })
+})
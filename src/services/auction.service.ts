@@ -1,18 +1,357 @@
-import { AuctionItem, BidResult } from '../models/auctionItem'
-import * as auctionStore from '../store/auction.store'
-import { getServerTime, isExpired } from '../utils/time'
+import {
+  AuctionItem,
+  AuctionItemPage,
+  AuctionQuery,
+  AuctionSort,
+  AuctionStatus,
+  AuctionType,
+  BidHistoryPage,
+  BidRecord,
+  BidResult,
+  BidStatus
+} from '../models/auctionItem'
+import { auctionStore } from '../store/auctionStore'
+import { auctionEvents } from '../events/auction.events'
+import { config } from '../config/env'
+import { getServerTime } from '../utils/time'
+import { getNextMinimumBid } from '../utils/bidIncrement'
+import { tokenize } from '../utils/search'
+import { isMinorUnitAmount, isSupportedCurrency } from '../utils/money'
+import { isSealed } from '../utils/auctionFormat'
+import { bidDuration, bidsTotal, auctionsByStatus, expiryLag } from '../metrics/auction.metrics'
+import { isDraining, trackInFlight } from '../utils/drain'
+
+// Upper bound on auctions started or ended per sweep; the scheduler re-runs
+// immediately while more are due
+const EXPIRY_BATCH_SIZE = 100
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+const STATUS_FILTERS: AuctionStatus[] = ['scheduled', 'live', 'ended', 'cancelled']
+// Filter names kept for clients written before scheduled auctions
+const STATUS_FILTER_ALIASES: Record<string, AuctionStatus> = { active: 'live' }
+const SORTS: AuctionSort[] = ['ending_soonest', 'highest_bid', 'most_bids']
+// Upper bound on items a reconnecting client may resync at once
+const MAX_SYNC_ITEMS = 200
+
+/**
+ * How one auction format takes bids: the atomic store call and the bid
+ * status each of its result codes means
+ * Formats that can accept several history entries per bid (proxy
+ * counter-bids) also return the entries accepted
+ */
+interface BidStrategy {
+  supportsProxyBids: boolean
+  place: (
+    item: AuctionItem,
+    amount: number,
+    bidderName: string,
+    serverTime: number,
+    isProxy: boolean
+  ) => Promise<{ status: number, accepted?: BidRecord[] }>
+  outcomes: Record<number, BidStatus>
+}
+
+// Open ascending bids with increments, proxies, buy it now and soft close
+const ENGLISH_STRATEGY: BidStrategy = {
+  supportsProxyBids: true,
+  place: async (item, amount, bidderName, serverTime, isProxy) =>
+    await auctionStore.placeBidAtomic(
+      item.id,
+      amount,
+      bidderName,
+      serverTime,
+      item.currency,
+      isProxy
+    ),
+  outcomes: {
+    3: 'BOUGHT_NOW',
+    2: 'OUTBID_BY_PROXY',
+    1: 'BID_ACCEPTED',
+    0: 'BID_TOO_LOW',
+    [-1]: 'AUCTION_ENDED',
+    [-2]: 'BID_BELOW_INCREMENT',
+    [-3]: 'NOT_STARTED'
+  }
+}
+
+// Hidden bids; the winner and price are settled when the auction ends
+const SEALED_STRATEGY: BidStrategy = {
+  supportsProxyBids: false,
+  place: async (item, amount, bidderName, serverTime) => ({
+    status: await auctionStore.placeSealedBid(item.id, amount, bidderName, serverTime)
+  }),
+  outcomes: {
+    1: 'BID_SEALED',
+    0: 'BID_TOO_LOW',
+    [-1]: 'AUCTION_ENDED',
+    [-3]: 'NOT_STARTED'
+  }
+}
+
+// A falling clock price; the first bid covering it wins
+const DUTCH_STRATEGY: BidStrategy = {
+  supportsProxyBids: false,
+  place: async (item, amount, bidderName, serverTime) => ({
+    status: await auctionStore.takeDutchPrice(item.id, amount, bidderName, serverTime)
+  }),
+  outcomes: {
+    3: 'PRICE_TAKEN',
+    0: 'BID_TOO_LOW',
+    [-1]: 'AUCTION_ENDED',
+    [-3]: 'NOT_STARTED'
+  }
+}
+
+const BID_STRATEGIES: Record<AuctionType, BidStrategy> = {
+  english: ENGLISH_STRATEGY,
+  sealed_first_price: SEALED_STRATEGY,
+  sealed_second_price: SEALED_STRATEGY,
+  dutch: DUTCH_STRATEGY
+}
+
+const SUCCESS_STATUSES: BidStatus[] = [
+  'BID_ACCEPTED',
+  'BOUGHT_NOW',
+  'BID_SEALED',
+  'PRICE_TAKEN'
+]
+
+/**
+ * Returns the winner of an ended auction, or null if it closed unsold
+ * (no bids, reserve not met or cancelled)
+ */
+export function getWinner (item: AuctionItem): string | null {
+  const sold =
+    item.endReason === 'TIME_EXPIRED' ||
+    item.endReason === 'BOUGHT_NOW' ||
+    item.endReason === 'TAKEN'
+
+  return item.ended && sold && item.highestBidder !== ''
+    ? item.highestBidder
+    : null
+}
 
 /**
- * Retrieves all auction items with current server time
+ * Shapes a stored item for clients: adds the fields derived from stored
+ * state and strips the hidden reserve price
+ * Whether a sealed auction's reserve is met stays hidden until it ends
  */
-export async function getAuctionItems (): Promise<{
-  items: AuctionItem[]
-  serverTime: number
-}> {
-  const items = await auctionStore.getAllItems()
+export function toPublicItem (item: AuctionItem): AuctionItem {
+  const { reservePrice, ...publicItem } = item
+  const hidden = isSealed(item.auctionType) && !item.ended
+
+  return {
+    ...publicItem,
+    nextMinimumBid: getNextMinimumBid(item),
+    reserveMet: reservePrice && !hidden
+      ? item.highestBidder !== '' && item.currentBid >= reservePrice
+      : undefined,
+    winner: item.ended ? getWinner(item) : undefined
+  }
+}
+
+/**
+ * Parses GET /items query parameters into an AuctionQuery
+ * Unknown parameters are ignored; invalid values are reported as errors
+ */
+export function parseAuctionQuery (
+  params: Record<string, unknown>
+): { query?: AuctionQuery, errors: string[] } {
+  const errors: string[] = []
+  const text = (name: string): string | undefined => {
+    const value = params[name]
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined
+  }
+  const numeric = (name: string): number | undefined => {
+    const value = text(name)
+    if (value === undefined) {
+      return undefined
+    }
+    const parsed = Number(value)
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      errors.push(`${name} must be a non-negative number`)
+      return undefined
+    }
+    return parsed
+  }
+
+  const rawStatus = text('status')
+  const status =
+    rawStatus !== undefined ? STATUS_FILTER_ALIASES[rawStatus] ?? rawStatus : undefined
+  if (status !== undefined && !STATUS_FILTERS.includes(status as AuctionStatus)) {
+    errors.push(`status must be one of ${STATUS_FILTERS.join(', ')}`)
+  }
+
+  const sort = text('sort') ?? 'ending_soonest'
+  if (!SORTS.includes(sort as AuctionSort)) {
+    errors.push(`sort must be one of ${SORTS.join(', ')}`)
+  }
+
+  const currency = text('currency')?.toUpperCase()
+  if (currency !== undefined && !isSupportedCurrency(currency)) {
+    errors.push('currency must be an ISO 4217 code such as USD')
+  }
+
+  const limit = numeric('limit') ?? DEFAULT_PAGE_SIZE
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    errors.push(`limit must be an integer from 1 to ${MAX_PAGE_SIZE}`)
+  }
+
+  const cursor = text('cursor')
+  if (cursor !== undefined && decodeCursor(cursor) === null) {
+    errors.push('cursor is invalid')
+  }
+
+  const query: AuctionQuery = {
+    status: status as AuctionStatus | undefined,
+    currency,
+    endingWithinMinutes: numeric('endingWithinMinutes'),
+    minPrice: numeric('minPrice'),
+    maxPrice: numeric('maxPrice'),
+    search: text('q'),
+    sort: sort as AuctionSort,
+    cursor,
+    limit
+  }
+
+  if (
+    query.minPrice !== undefined &&
+    query.maxPrice !== undefined &&
+    query.minPrice > query.maxPrice
+  ) {
+    errors.push('minPrice must not exceed maxPrice')
+  }
+
+  // Minor units of different currencies do not compare
+  if (
+    currency === undefined &&
+    (query.minPrice !== undefined || query.maxPrice !== undefined || query.sort === 'highest_bid')
+  ) {
+    errors.push('currency is required to filter or sort by price')
+  }
+
+  return errors.length > 0 ? { errors } : { query, errors }
+}
+
+function encodeCursor (entry: { score: number, id: string }): string {
+  return Buffer.from(JSON.stringify([entry.score, entry.id])).toString('base64url')
+}
+
+function decodeCursor (cursor: string): { score: number, id: string } | null {
+  try {
+    const [score, id] = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf-8')
+    ) as unknown[]
+    if (typeof score !== 'number' || typeof id !== 'string') {
+      return null
+    }
+    return { score, id }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Retrieves a page of auction items matching a query, with server time
+ * Each item carries a preview of its most recent bids
+ */
+export async function queryAuctionItems (
+  query: AuctionQuery
+): Promise<AuctionItemPage> {
   const serverTime = getServerTime()
 
-  return { items, serverTime }
+  const { entries, total, hasMore } = await auctionStore.queryItemIds({
+    sort: query.sort,
+    status: query.status,
+    currency: query.currency,
+    endsAtRange:
+      query.endingWithinMinutes !== undefined
+        ? [serverTime, serverTime + query.endingWithinMinutes * 60 * 1000]
+        : undefined,
+    priceRange:
+      query.minPrice !== undefined || query.maxPrice !== undefined
+        ? [query.minPrice, query.maxPrice]
+        : undefined,
+    titlePrefixes: query.search ? tokenize(query.search) : [],
+    after: query.cursor ? decodeCursor(query.cursor) ?? undefined : undefined,
+    limit: query.limit
+  })
+
+  const storedItems = await auctionStore.getItemsByIds(
+    entries.map(entry => entry.id)
+  )
+
+  const items = await Promise.all(
+    storedItems.map(async item => {
+      const { bids } = await auctionStore.getBidHistory(
+        item.id,
+        0,
+        config.bidHistoryPreviewSize
+      )
+      return { ...toPublicItem(item), bidHistory: bids }
+    })
+  )
+
+  return {
+    serverTime,
+    total,
+    items,
+    nextCursor:
+      hasMore && entries.length > 0
+        ? encodeCursor(entries[entries.length - 1])
+        : null
+  }
+}
+
+/**
+ * Retrieves a single auction item as clients see it
+ * Returns null if the item does not exist
+ */
+export async function getAuctionItem (itemId: string): Promise<AuctionItem | null> {
+  const item = await auctionStore.getItemById(itemId)
+
+  return item ? toPublicItem(item) : null
+}
+
+/**
+ * Returns the items whose version differs from the one a client last
+ * displayed, so a reconnecting client catches up on what it missed
+ * Unknown items are skipped, and at most MAX_SYNC_ITEMS are checked
+ */
+export async function getChangedItems (
+  knownVersions: Record<string, number>
+): Promise<AuctionItem[]> {
+  const itemIds = Object.keys(knownVersions).slice(0, MAX_SYNC_ITEMS)
+  const items = await auctionStore.getItemsByIds(itemIds)
+
+  return items
+    .filter(item => item.version !== knownVersions[item.id])
+    .map(toPublicItem)
+}
+
+/**
+ * Retrieves a page of an item's bid history, most recent first
+ * Returns null if the item does not exist
+ */
+export async function getBidHistory (
+  itemId: string,
+  offset: number,
+  limit: number
+): Promise<BidHistoryPage | null> {
+  const item = await auctionStore.getItemById(itemId)
+
+  if (!item) {
+    return null
+  }
+
+  const { bids, total } = await auctionStore.getBidHistory(
+    itemId,
+    offset,
+    limit
+  )
+
+  return { itemId, total, offset, limit, bids }
 }
 
 /**
@@ -23,6 +362,117 @@ export async function placeBid (
   itemId: string,
   amount: number,
   bidderName: string
+): Promise<BidResult> {
+  return await submitBid(itemId, amount, bidderName, false)
+}
+
+/**
+ * Places a proxy (maximum) bid on an auction item
+ * The maximum is kept server-side and the Lua script counter-bids on the
+ * bidder's behalf, one increment at a time, until it is exhausted
+ * Only English auctions take proxy bids
+ */
+export async function placeProxyBid (
+  itemId: string,
+  maxAmount: number,
+  bidderName: string
+): Promise<BidResult> {
+  return await submitBid(itemId, maxAmount, bidderName, true)
+}
+
+/**
+ * Raises the domain events for a bid's outcome, so every transport fans out
+ * the same updates whichever one the bid arrived on
+ * BID_ACCEPTED follows the history: one per entry accepted when the format
+ * reports them (none when a leader only raised their hidden maximum)
+ * Sealed bids only reveal the new bid count to watchers
+ */
+function publishBidResult (
+  result: BidResult,
+  bidderName: string,
+  amount: number,
+  acceptedBids: BidRecord[] | undefined
+): void {
+  const item = result.item
+  if (!item) {
+    return
+  }
+
+  if (acceptedBids) {
+    for (const bid of acceptedBids) {
+      auctionEvents.emit('BID_ACCEPTED', {
+        item,
+        bidderName: bid.bidderName,
+        // A proxy's counter-bid is accepted whatever became of the bid it answered
+        status: bid.bidderName === bidderName ? result.status : 'BID_ACCEPTED',
+        bid
+      })
+    }
+  } else if (result.success) {
+    auctionEvents.emit('BID_ACCEPTED', { item, bidderName, status: result.status })
+  }
+
+  if (result.status === 'BID_SEALED') {
+    auctionEvents.emit('SEALED_BID_ACCEPTED', { item, bidderName, amount })
+    auctionEvents.emit('BID_UPDATED', item)
+    return
+  }
+
+  // A bid topped by the leader's proxy still moved the price
+  if (result.success || result.status === 'OUTBID_BY_PROXY') {
+    auctionEvents.emit('BID_UPDATED', item)
+  }
+  if (result.previousBidder && result.previousBidder !== bidderName) {
+    auctionEvents.emit('OUTBID', { item, bidderName: result.previousBidder })
+  }
+  if (result.status === 'BOUGHT_NOW' || result.status === 'PRICE_TAKEN') {
+    auctionEvents.emit('AUCTION_ENDED', item)
+  }
+  if (result.extended) {
+    auctionEvents.emit('AUCTION_EXTENDED', item)
+  }
+}
+
+/**
+ * Executes a manual or proxy bid, recording its outcome and latency
+ * Once the instance starts draining new bids are refused, and shutdown waits
+ * for the ones already running
+ */
+async function submitBid (
+  itemId: string,
+  amount: number,
+  bidderName: string,
+  isProxy: boolean
+): Promise<BidResult> {
+  if (isDraining()) {
+    return { success: false, status: 'SERVER_SHUTTING_DOWN' }
+  }
+
+  const endTimer = bidDuration.startTimer()
+  const result = await trackInFlight(
+    async () => await executeBid(itemId, amount, bidderName, isProxy)
+  )
+  const auctionType = result.item?.auctionType ?? 'unknown'
+
+  endTimer({ auction_type: auctionType })
+  bidsTotal.inc({
+    status: result.status,
+    result: result.success ? 'accepted' : 'rejected',
+    auction_type: auctionType
+  })
+
+  return result
+}
+
+/**
+ * Places a bid with the item's format strategy and interprets the Lua
+ * script result
+ */
+async function executeBid (
+  itemId: string,
+  amount: number,
+  bidderName: string,
+  isProxy: boolean
 ): Promise<BidResult> {
   const serverTime = getServerTime()
 
@@ -36,74 +486,159 @@ export async function placeBid (
     }
   }
 
-  const previousBidder = itemBefore.highestBidder || undefined
+  const strategy = BID_STRATEGIES[itemBefore.auctionType]
+
+  if (isProxy && !strategy.supportsProxyBids) {
+    return {
+      success: false,
+      status: 'PROXY_NOT_SUPPORTED',
+      item: toPublicItem(itemBefore)
+    }
+  }
+
+  // Amounts are whole minor units of the item's currency
+  if (!isMinorUnitAmount(amount)) {
+    return {
+      success: false,
+      status: 'INVALID_AMOUNT',
+      item: toPublicItem(itemBefore)
+    }
+  }
 
   // Execute atomic bid placement via Lua script
-  const resultCode = await auctionStore.placeBidAtomic(
-    itemId,
+  const placed = await strategy.place(
+    itemBefore,
     amount,
     bidderName,
-    serverTime
+    serverTime,
+    isProxy
   )
 
   // Fetch updated item state after bid attempt
-  const itemAfter = await auctionStore.getItemById(itemId)
+  const storedItemAfter = await auctionStore.getItemById(itemId)
 
-  if (!itemAfter) {
+  if (!storedItemAfter) {
     return {
       success: false,
       status: 'AUCTION_ENDED'
     }
   }
 
-  // Interpret Lua script result code
-  if (resultCode === 1) {
-    // BID_ACCEPTED
-    return {
-      success: true,
-      status: 'BID_ACCEPTED',
-      item: itemAfter,
-      previousBidder
-    }
-  } else if (resultCode === 0) {
-    // BID_TOO_LOW
-    return {
-      success: false,
-      status: 'BID_TOO_LOW',
-      item: itemAfter
+  const itemAfter = toPublicItem(storedItemAfter)
+  const status = strategy.outcomes[placed.status] ?? 'AUCTION_ENDED'
+  const success = SUCCESS_STATUSES.includes(status)
+
+  // Only report a previous bidder when the lead actually changed hands
+  const previousBidder =
+    success &&
+    itemBefore.highestBidder &&
+    itemBefore.highestBidder !== itemAfter.highestBidder
+      ? itemBefore.highestBidder
+      : undefined
+
+  // Soft close may have pushed the end time forward
+  const extended = itemAfter.endsAt > itemBefore.endsAt
+
+  const result: BidResult = {
+    success,
+    status,
+    item: itemAfter,
+    previousBidder,
+    extended
+  }
+  publishBidResult(result, bidderName, amount, placed.accepted)
+
+  return result
+}
+
+/**
+ * Opens scheduled auctions whose startsAt has passed, using the start index
+ * Raises AUCTION_STARTED for each and returns the newly started auctions
+ */
+export async function startDueAuctions (): Promise<AuctionItem[]> {
+  const serverTime = getServerTime()
+  const dueIds = await auctionStore.getDueStartIds(
+    serverTime,
+    EXPIRY_BATCH_SIZE
+  )
+
+  const startedItems: AuctionItem[] = []
+
+  for (const itemId of dueIds) {
+    // Starts atomically only if still scheduled; the first bid after
+    // startsAt may have started it already, or an admin rescheduled or
+    // cancelled it
+    const startedNow = await auctionStore.startAuction(itemId, serverTime)
+    if (!startedNow) {
+      continue
     }
-  } else {
-    // AUCTION_ENDED
-    return {
-      success: false,
-      status: 'AUCTION_ENDED',
-      item: itemAfter
+
+    const updatedItem = await auctionStore.getItemById(itemId)
+    if (updatedItem) {
+      const startedItem = toPublicItem(updatedItem)
+      startedItems.push(startedItem)
+      auctionEvents.emit('AUCTION_STARTED', startedItem)
     }
   }
+
+  return startedItems
 }
 
 /**
- * Checks all active auctions and marks expired ones as ended
- * Returns list of newly ended auctions
+ * Ends live auctions that are past their endsAt, using the expiry index
+ * Raises AUCTION_ENDED for each and returns the newly ended auctions
  */
 export async function checkAndEndExpiredAuctions (): Promise<AuctionItem[]> {
-  // const serverTime = getServerTime();
-  const items = await auctionStore.getAllItems()
+  const serverTime = getServerTime()
+  const dueIds = await auctionStore.getDueAuctionIds(
+    serverTime,
+    EXPIRY_BATCH_SIZE
+  )
 
   const endedItems: AuctionItem[] = []
 
-  for (const item of items) {
-    if (!item.ended && isExpired(item.endsAt)) {
-      await auctionStore.markAuctionEnded(item.id)
-
-      const updatedItem: AuctionItem = {
-        ...item,
-        ended: true
-      }
+  for (const itemId of dueIds) {
+    // Ends atomically only if still due; a late bid may have extended the
+    // auction, or an admin cancelled it, since the index was read
+    const endedNow = await auctionStore.markAuctionEnded(itemId, serverTime)
+    if (!endedNow) {
+      continue
+    }
 
-      endedItems.push(updatedItem)
+    const updatedItem = await auctionStore.getItemById(itemId)
+    if (updatedItem) {
+      const endedItem = toPublicItem(updatedItem)
+      endedItems.push(endedItem)
+      expiryLag.observe({}, Math.max(serverTime - endedItem.endsAt, 0) / 1000)
+      auctionEvents.emit('AUCTION_ENDED', endedItem)
     }
   }
 
   return endedItems
 }
+
+/**
+ * Returns when the next live auction is due to end, or null if none are live
+ */
+export async function getNextExpiryTime (): Promise<number | null> {
+  return await auctionStore.getNextExpiryTime()
+}
+
+/**
+ * Returns when the next scheduled auction is due to start, or null if none
+ * are scheduled
+ */
+export async function getNextStartTime (): Promise<number | null> {
+  return await auctionStore.getNextStartTime()
+}
+
+/**
+ * Refreshes the auctions-by-status gauge from the status indexes, before a
+ * metrics scrape
+ */
+export async function refreshAuctionMetrics (): Promise<void> {
+  const counts = await auctionStore.countItemsByStatus()
+  for (const [status, count] of Object.entries(counts)) {
+    auctionsByStatus.set({ status }, count)
+  }
+}
@@ -0,0 +1,196 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+import {
+  AuthenticatedBidder,
+  AuthResult,
+  SessionPayload
+} from '../models/bidder'
+import * as bidderStore from '../store/bidder.store'
+import { config } from '../config/env'
+import { getServerTime } from '../utils/time'
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>
+
+const USERNAME_PATTERN = /^[a-z0-9_-]{3,32}$/
+const MIN_PASSWORD_LENGTH = 8
+const PASSWORD_KEY_LENGTH = 64
+
+async function hashPassword (password: string, salt: Buffer): Promise<Buffer> {
+  return await scryptAsync(password, salt, PASSWORD_KEY_LENGTH)
+}
+
+function sign (data: string): string {
+  return createHmac('sha256', config.sessionSecret).update(data).digest('base64url')
+}
+
+/**
+ * Issues a signed session token: base64url(payload).base64url(hmac)
+ */
+function issueToken (username: string): { token: string, expiresAt: number } {
+  const payload: SessionPayload = {
+    sub: username,
+    exp: getServerTime() + config.sessionTtlSeconds * 1000
+  }
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url')
+
+  return { token: `${encoded}.${sign(encoded)}`, expiresAt: payload.exp }
+}
+
+function validateCredentials (
+  username: unknown,
+  password: unknown
+): string[] {
+  const errors: string[] = []
+
+  if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+    errors.push('username must be 3-32 characters of a-z, 0-9, _ or -')
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    errors.push(`password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  }
+
+  return errors
+}
+
+function normalizeUsername (username: unknown): unknown {
+  return typeof username === 'string' ? username.trim().toLowerCase() : username
+}
+
+/**
+ * Stores a new account and signs it in
+ */
+async function createAccount (username: string, password: string): Promise<AuthResult> {
+  const salt = randomBytes(16)
+  const passwordHash = await hashPassword(password, salt)
+  const bidder = { username, createdAt: getServerTime() }
+
+  const created = await bidderStore.createBidder(
+    bidder,
+    passwordHash.toString('hex'),
+    salt.toString('hex')
+  )
+
+  if (!created) {
+    return { success: false, status: 'USERNAME_TAKEN' }
+  }
+
+  return { success: true, status: 'OK', bidder, ...issueToken(bidder.username) }
+}
+
+/**
+ * Registers a bidder and signs them in
+ * Admin usernames are reserved: admin accounts are created by an operator
+ * with createAdmin, never by self-registration
+ */
+export async function register (
+  rawUsername: unknown,
+  password: unknown
+): Promise<AuthResult> {
+  const username = normalizeUsername(rawUsername)
+  const errors = validateCredentials(username, password)
+
+  if (errors.length > 0) {
+    return { success: false, status: 'VALIDATION_FAILED', errors }
+  }
+  if (config.adminUsernames.includes(username as string)) {
+    return { success: false, status: 'USERNAME_TAKEN' }
+  }
+
+  return await createAccount(username as string, password as string)
+}
+
+/**
+ * Creates the account of a username listed in ADMIN_USERNAMES
+ */
+export async function createAdmin (
+  rawUsername: unknown,
+  password: unknown
+): Promise<AuthResult> {
+  const username = normalizeUsername(rawUsername)
+  const errors = validateCredentials(username, password)
+
+  if (typeof username === 'string' && !config.adminUsernames.includes(username)) {
+    errors.push('username must be listed in ADMIN_USERNAMES')
+  }
+  if (errors.length > 0) {
+    return { success: false, status: 'VALIDATION_FAILED', errors }
+  }
+
+  return await createAccount(username as string, password as string)
+}
+
+/**
+ * Verifies a bidder's password and issues a session token
+ */
+export async function login (
+  rawUsername: unknown,
+  password: unknown
+): Promise<AuthResult> {
+  const username = normalizeUsername(rawUsername)
+
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    return { success: false, status: 'INVALID_CREDENTIALS' }
+  }
+
+  const credentials = await bidderStore.getBidderCredentials(username)
+
+  if (!credentials) {
+    return { success: false, status: 'INVALID_CREDENTIALS' }
+  }
+
+  const expected = Buffer.from(credentials.passwordHash, 'hex')
+  const actual = await hashPassword(password, Buffer.from(credentials.salt, 'hex'))
+
+  if (!timingSafeEqual(expected, actual)) {
+    return { success: false, status: 'INVALID_CREDENTIALS' }
+  }
+
+  const bidder = {
+    username: credentials.username,
+    createdAt: parseInt(credentials.createdAt, 10)
+  }
+
+  return { success: true, status: 'OK', bidder, ...issueToken(bidder.username) }
+}
+
+/**
+ * Verifies a session token's signature and expiry
+ * Returns null for missing, tampered or expired tokens
+ */
+export function verifyToken (token: unknown): AuthenticatedBidder | null {
+  if (typeof token !== 'string') {
+    return null
+  }
+
+  const [encoded, signature] = token.split('.')
+  if (!encoded || !signature) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(encoded))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(encoded, 'base64url').toString('utf-8')
+    ) as SessionPayload
+
+    if (typeof payload.sub !== 'string' || payload.exp <= getServerTime()) {
+      return null
+    }
+
+    return {
+      userId: payload.sub,
+      isAdmin: config.adminUsernames.includes(payload.sub)
+    }
+  } catch {
+    return null
+  }
+}
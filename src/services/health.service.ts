@@ -0,0 +1,64 @@
+import * as healthStore from '../store/health.store'
+import { isDraining } from '../utils/drain'
+import { logger } from '../utils/logger'
+
+// A check slower than this counts as failed
+const CHECK_TIMEOUT_MS = 2000
+
+export type CheckStatus = 'ok' | 'error'
+
+export interface ReadinessResult {
+  ready: boolean
+  draining: boolean
+  checks: {
+    redis: CheckStatus
+    scripts: CheckStatus
+  }
+}
+
+async function withTimeout<T> (work: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs)
+  })
+
+  try {
+    return await Promise.race([work, timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+async function runCheck (name: string, check: () => Promise<void>): Promise<CheckStatus> {
+  try {
+    await withTimeout(check(), CHECK_TIMEOUT_MS)
+    return 'ok'
+  } catch (error) {
+    logger.warn('Readiness check failed', { check: name, error })
+    return 'error'
+  }
+}
+
+/**
+ * Checks the instance can serve bids: Redis answers, every Lua script is
+ * cached in Redis, and the instance isn't draining for shutdown
+ */
+export async function checkReadiness (): Promise<ReadinessResult> {
+  const draining = isDraining()
+
+  const redis = await runCheck('redis', healthStore.pingRedis)
+  const scripts = redis === 'ok'
+    ? await runCheck('scripts', async () => {
+      const loaded = await healthStore.loadMissingScripts()
+      if (loaded.length > 0) {
+        logger.info('Loaded missing Lua scripts', { scripts: loaded })
+      }
+    })
+    : 'error'
+
+  return {
+    ready: !draining && redis === 'ok' && scripts === 'ok',
+    draining,
+    checks: { redis, scripts }
+  }
+}
@@ -0,0 +1,54 @@
+import * as rateLimitStore from '../store/rateLimit.store'
+import { config } from '../config/env'
+import { getServerTime } from '../utils/time'
+import { rateLimitedBidsTotal } from '../metrics/auction.metrics'
+
+export interface RateLimitResult {
+  allowed: boolean
+  banned: boolean // the bidder is (now) temporarily banned
+  retryAfterMs: number
+}
+
+/**
+ * Charges one bid against the bidder's and the connection's token buckets
+ * Bidders who keep hitting the limit are banned for config.rateLimitBanMs
+ */
+export async function checkBidRateLimit (
+  userId: string,
+  connectionId: string
+): Promise<RateLimitResult> {
+  const { status, retryAfterMs } = await rateLimitStore.consumeTokens(
+    userId,
+    [
+      {
+        name: `bidder:${userId}`,
+        capacity: config.bidderBidBurst,
+        ratePerSecond: config.bidderBidsPerSecond
+      },
+      {
+        name: `socket:${connectionId}`,
+        capacity: config.socketBidBurst,
+        ratePerSecond: config.socketBidsPerSecond
+      }
+    ],
+    getServerTime(),
+    {
+      maxViolations: config.rateLimitMaxViolations,
+      windowMs: config.rateLimitViolationWindowMs,
+      durationMs: config.rateLimitBanMs
+    }
+  )
+
+  const result = { allowed: status === 1, banned: status === -1, retryAfterMs }
+  if (!result.allowed) {
+    rateLimitedBidsTotal.inc({ banned: String(result.banned) })
+  }
+  return result
+}
+
+/**
+ * Returns how long a bidder stays banned, in milliseconds (0 if not banned)
+ */
+export async function getBanRemainingMs (userId: string): Promise<number> {
+  return await rateLimitStore.getBanRemainingMs(userId)
+}
@@ -0,0 +1,98 @@
+import { AuctionResult, AuctionResultPage } from '../models/auctionResult'
+import { auctionStore } from '../store/auctionStore'
+import * as resultStore from '../store/result.store'
+import { getWinner } from './auction.service'
+import { removeFinishedItem } from './watchlist.service'
+
+// Upper bound on auctions settled per sweep
+const SETTLEMENT_BATCH_SIZE = 100
+
+/**
+ * Writes the result record for an ended auction, drops it from watchlists and
+ * clears its pending settlement
+ * Returns null if the item is missing or still live
+ */
+export async function settleAuction (itemId: string): Promise<AuctionResult | null> {
+  const item = await auctionStore.getItemById(itemId)
+
+  if (!item || !item.ended || !item.endReason) {
+    return null
+  }
+
+  const winner = getWinner(item)
+  const result: AuctionResult = {
+    itemId: item.id,
+    title: item.title,
+    winner,
+    currency: item.currency,
+    hammerPrice: winner !== null ? item.currentBid : null,
+    bidCount: item.bidCount,
+    // Items ended before endedAt was recorded closed at their end time
+    closedAt: item.endedAt ?? item.endsAt,
+    endReason: item.endReason,
+    reserveMet:
+      item.reservePrice !== undefined
+        ? item.highestBidder !== '' && item.currentBid >= item.reservePrice
+        : null
+  }
+
+  await resultStore.saveResult(result)
+  await removeFinishedItem(item.id)
+  await auctionStore.discardPendingSettlement(item.id)
+
+  return result
+}
+
+/**
+ * Settles auctions queued by the scripts that end them (expiry, buy-now,
+ * Dutch takes and cancellation)
+ * Returns the results written by this sweep
+ */
+export async function settlePendingAuctions (): Promise<AuctionResult[]> {
+  const pendingIds = await auctionStore.getPendingSettlementIds(
+    SETTLEMENT_BATCH_SIZE
+  )
+
+  const results: AuctionResult[] = []
+
+  for (const itemId of pendingIds) {
+    const result = await settleAuction(itemId)
+    if (result) {
+      results.push(result)
+    } else {
+      // The item was deleted; there is nothing left to settle
+      await auctionStore.discardPendingSettlement(itemId)
+    }
+  }
+
+  return results
+}
+
+/**
+ * Retrieves a page of auction results, most recently closed first
+ */
+export async function getResults (
+  offset: number,
+  limit: number
+): Promise<AuctionResultPage> {
+  const { results, total } = await resultStore.getResults(offset, limit)
+
+  return { total, offset, limit, results }
+}
+
+/**
+ * Retrieves a page of the auctions a bidder won, most recently closed first
+ */
+export async function getBidderWins (
+  bidder: string,
+  offset: number,
+  limit: number
+): Promise<AuctionResultPage> {
+  const { results, total } = await resultStore.getBidderWins(
+    bidder.toLowerCase(),
+    offset,
+    limit
+  )
+
+  return { total, offset, limit, results }
+}
@@ -0,0 +1,168 @@
+import { EndingSoonAlert, WatchlistResult } from '../models/watchlist'
+import * as watchlistStore from '../store/watchlist.store'
+import { auctionStore } from '../store/auctionStore'
+import { toPublicItem } from './auction.service'
+import { auctionEvents } from '../events/auction.events'
+import { config } from '../config/env'
+import { getServerTime } from '../utils/time'
+
+// Bounds each bidder's watchlist (and the watchers notified per alert)
+const MAX_WATCHLIST_SIZE = 200
+
+/**
+ * Returns the item IDs a bidder watches
+ */
+export async function getWatchlist (bidderName: string): Promise<string[]> {
+  return await watchlistStore.getWatchlist(bidderName)
+}
+
+/**
+ * Adds a scheduled or live auction to a bidder's watchlist
+ * Raises WATCHLIST_UPDATED so every session of the bidder sees the change
+ */
+export async function watchItem (
+  bidderName: string,
+  itemId: string
+): Promise<WatchlistResult> {
+  const item = await auctionStore.getItemById(itemId)
+  if (!item) {
+    return { success: false, status: 'NOT_FOUND' }
+  }
+  if (item.status === 'ended' || item.status === 'cancelled') {
+    return { success: false, status: 'AUCTION_ENDED' }
+  }
+
+  // Concurrent watches may overshoot the limit slightly; it only bounds growth
+  const { watching, size } = await watchlistStore.getWatchlistEntry(bidderName, itemId)
+  if (
+    !watching &&
+    size >= MAX_WATCHLIST_SIZE &&
+    await pruneFinishedItems(bidderName) >= MAX_WATCHLIST_SIZE
+  ) {
+    return { success: false, status: 'WATCHLIST_FULL' }
+  }
+
+  await watchlistStore.addToWatchlist(bidderName, itemId)
+  return await publishWatchlist(bidderName)
+}
+
+/**
+ * Removes an item from a bidder's watchlist; removing an item that isn't
+ * watched succeeds
+ */
+export async function unwatchItem (
+  bidderName: string,
+  itemId: string
+): Promise<WatchlistResult> {
+  await watchlistStore.removeFromWatchlist(bidderName, itemId)
+  return await publishWatchlist(bidderName)
+}
+
+/**
+ * Drops a settled (ended or cancelled) auction from its watchers' watchlists,
+ * so finished auctions stop counting toward MAX_WATCHLIST_SIZE
+ * Raises WATCHLIST_UPDATED for each former watcher
+ */
+export async function removeFinishedItem (itemId: string): Promise<void> {
+  const watchers = await watchlistStore.removeItemFromWatchlists(itemId)
+
+  for (const bidderName of watchers) {
+    await publishWatchlist(bidderName)
+  }
+}
+
+/**
+ * Removes the ended, cancelled and deleted auctions from a bidder's
+ * watchlist, e.g. ones a watch raced with settlement
+ * Returns the size of the remaining watchlist
+ */
+async function pruneFinishedItems (bidderName: string): Promise<number> {
+  const itemIds = await watchlistStore.getWatchlist(bidderName)
+  const open = new Set(
+    (await auctionStore.getItemsByIds(itemIds))
+      .filter(item => item.status === 'scheduled' || item.status === 'live')
+      .map(item => item.id)
+  )
+
+  for (const itemId of itemIds.filter(itemId => !open.has(itemId))) {
+    await watchlistStore.removeFromWatchlist(bidderName, itemId)
+  }
+  return open.size
+}
+
+async function publishWatchlist (bidderName: string): Promise<WatchlistResult> {
+  const itemIds = await watchlistStore.getWatchlist(bidderName)
+  auctionEvents.emit('WATCHLIST_UPDATED', { bidderName, itemIds })
+
+  return { success: true, status: 'OK', itemIds }
+}
+
+/**
+ * Alerts the watchers of live auctions whose remaining time has crossed a
+ * threshold in config.endingSoonThresholdsMs, once per threshold
+ * An auction that crossed several thresholds since the last sweep (e.g. one
+ * created with a minute left) is alerted for the smallest only
+ * Raises AUCTION_ENDING_SOON for each alert with watchers, and returns them
+ */
+export async function alertEndingSoonAuctions (): Promise<EndingSoonAlert[]> {
+  const thresholds = config.endingSoonThresholdsMs
+  const serverTime = getServerTime()
+  const auctions = await auctionStore.getAuctionsEndingBetween(
+    serverTime,
+    serverTime + thresholds[0]
+  )
+
+  const alerts: EndingSoonAlert[] = []
+
+  for (const { id, endsAt } of auctions) {
+    // Thresholds are sorted largest first, so the last crossed is the smallest
+    const crossed = thresholds.filter(threshold => endsAt - threshold <= serverTime)
+    let alertThreshold: number | null = null
+
+    for (const threshold of crossed) {
+      const marked = await watchlistStore.markEndingSoon(
+        id,
+        threshold,
+        endsAt,
+        endsAt + thresholds[0]
+      )
+      if (marked) {
+        alertThreshold = threshold
+      }
+    }
+
+    if (alertThreshold === null) {
+      continue
+    }
+
+    const watchers = await watchlistStore.getWatchers(id)
+    const storedItem = watchers.length > 0 ? await auctionStore.getItemById(id) : null
+    if (!storedItem) {
+      continue
+    }
+
+    const item = toPublicItem(storedItem)
+    alerts.push({ itemId: id, thresholdMs: alertThreshold, watchers })
+    auctionEvents.emit('AUCTION_ENDING_SOON', { item, thresholdMs: alertThreshold, watchers })
+  }
+
+  return alerts
+}
+
+/**
+ * Returns when the next live auction crosses an alert threshold, or null if
+ * none will
+ */
+export async function getNextEndingSoonTime (): Promise<number | null> {
+  const serverTime = getServerTime()
+
+  const crossings = await Promise.all(
+    config.endingSoonThresholdsMs.map(async threshold => {
+      const endsAt = await auctionStore.getNextExpiryTimeAfter(serverTime + threshold)
+      return endsAt !== null ? endsAt - threshold : null
+    })
+  )
+
+  const times = crossings.filter((time): time is number => time !== null)
+  return times.length > 0 ? Math.min(...times) : null
+}
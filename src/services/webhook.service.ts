@@ -0,0 +1,326 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto'
+import {
+  PublicWebhookSubscription,
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookDeliveryPage,
+  WebhookEventType,
+  WebhookResult,
+  WebhookSubscription
+} from '../models/webhook'
+import * as webhookStore from '../store/webhook.store'
+import { config } from '../config/env'
+import { getServerTime } from '../utils/time'
+import { logger } from '../utils/logger'
+
+export const WEBHOOK_EVENTS: WebhookEventType[] = [
+  'BID_ACCEPTED',
+  'AUCTION_ENDED',
+  'AUCTION_CANCELLED',
+  'BID_RETRACTED'
+]
+
+const MAX_URL_LENGTH = 2048
+const MIN_SECRET_LENGTH = 16
+const MAX_SECRET_LENGTH = 256
+// How long a claimed delivery is hidden from other instances
+const DELIVERY_LEASE_MARGIN_MS = 30 * 1000
+const USER_AGENT = 'live-bidding-platform-webhooks'
+
+function toPublicSubscription (
+  subscription: WebhookSubscription
+): PublicWebhookSubscription {
+  const { secret: _secret, ...rest } = subscription
+  return rest
+}
+
+function validateSubscription (input: Record<string, unknown>): string[] {
+  const errors: string[] = []
+
+  let url: URL | null = null
+  try {
+    url = typeof input.url === 'string' ? new URL(input.url) : null
+  } catch {
+    url = null
+  }
+  if (
+    url === null ||
+    (url.protocol !== 'http:' && url.protocol !== 'https:') ||
+    (input.url as string).length > MAX_URL_LENGTH
+  ) {
+    errors.push(`url must be an http(s) URL of at most ${MAX_URL_LENGTH} characters`)
+  }
+
+  if (
+    !Array.isArray(input.events) ||
+    input.events.length === 0 ||
+    input.events.some(event => !WEBHOOK_EVENTS.includes(event))
+  ) {
+    errors.push(`events must be a non-empty array of ${WEBHOOK_EVENTS.join(', ')}`)
+  }
+
+  if (
+    input.secret !== undefined &&
+    (typeof input.secret !== 'string' ||
+      input.secret.length < MIN_SECRET_LENGTH ||
+      input.secret.length > MAX_SECRET_LENGTH)
+  ) {
+    errors.push(`secret must be ${MIN_SECRET_LENGTH}-${MAX_SECRET_LENGTH} characters`)
+  }
+
+  return errors
+}
+
+/**
+ * Registers a webhook subscription (admin)
+ * Without a secret one is generated; either way it is only returned here
+ */
+export async function createSubscription (
+  input: Record<string, unknown>,
+  createdBy: string
+): Promise<WebhookResult> {
+  const errors = validateSubscription(input)
+  if (errors.length > 0) {
+    return { success: false, status: 'VALIDATION_FAILED', errors }
+  }
+
+  const subscription: WebhookSubscription = {
+    id: randomUUID(),
+    url: input.url as string,
+    events: [...new Set(input.events as WebhookEventType[])],
+    secret: (input.secret as string | undefined) ?? `whsec_${randomBytes(24).toString('hex')}`,
+    createdBy,
+    createdAt: getServerTime()
+  }
+  await webhookStore.saveSubscription(subscription)
+
+  return { success: true, status: 'OK', subscription }
+}
+
+/**
+ * Lists every subscription, without secrets
+ */
+export async function getSubscriptions (): Promise<PublicWebhookSubscription[]> {
+  return (await webhookStore.getSubscriptions()).map(toPublicSubscription)
+}
+
+/**
+ * Deletes a subscription and its delivery history
+ */
+export async function deleteSubscription (id: string): Promise<WebhookResult> {
+  const subscription = await webhookStore.getSubscription(id)
+  if (!subscription) {
+    return { success: false, status: 'NOT_FOUND' }
+  }
+
+  await webhookStore.deleteSubscription(id)
+  return { success: true, status: 'OK', subscription: toPublicSubscription(subscription) }
+}
+
+/**
+ * Returns a page of a subscription's deliveries with their attempts, most
+ * recent first, or null if the subscription doesn't exist
+ */
+export async function getDeliveries (
+  subscriptionId: string,
+  offset: number,
+  limit: number
+): Promise<WebhookDeliveryPage | null> {
+  if (!(await webhookStore.getSubscription(subscriptionId))) {
+    return null
+  }
+
+  const { deliveries, total } = await webhookStore.getSubscriptionDeliveries(
+    subscriptionId,
+    offset,
+    limit
+  )
+  return { total, offset, limit, deliveries }
+}
+
+/**
+ * Returns a page of deliveries that ran out of attempts, most recent first
+ */
+export async function getDeadLetters (
+  offset: number,
+  limit: number
+): Promise<WebhookDeliveryPage> {
+  const { deliveries, total } = await webhookStore.getDeadLetters(offset, limit)
+
+  return { total, offset, limit, deliveries }
+}
+
+/**
+ * Requeues a dead delivery with a fresh set of attempts
+ */
+export async function retryDelivery (id: string): Promise<WebhookResult> {
+  const delivery = await webhookStore.getDelivery(id)
+  if (!delivery) {
+    return { success: false, status: 'NOT_FOUND' }
+  }
+  if (delivery.status !== 'dead') {
+    return {
+      success: false,
+      status: 'CONFLICT',
+      delivery,
+      errors: ['Only dead deliveries can be retried']
+    }
+  }
+
+  const requeued: WebhookDelivery = {
+    ...delivery,
+    status: 'pending',
+    attemptsLeft: config.webhookMaxAttempts,
+    nextAttemptAt: getServerTime()
+  }
+  await webhookStore.saveDelivery(requeued)
+
+  return { success: true, status: 'OK', delivery: requeued }
+}
+
+/**
+ * Queues a delivery of the event to every subscription that wants it
+ * The body is fixed now, so every attempt sends (and signs) the same bytes
+ */
+export async function enqueueEvent (
+  event: WebhookEventType,
+  data: unknown
+): Promise<void> {
+  const subscriptions = (await webhookStore.getSubscriptions()).filter(
+    subscription => subscription.events.includes(event)
+  )
+  const now = getServerTime()
+
+  const deliveries: WebhookDelivery[] = subscriptions.map(subscription => {
+    const id = randomUUID()
+    return {
+      id,
+      subscriptionId: subscription.id,
+      event,
+      payload: JSON.stringify({ id, event, createdAt: now, data }),
+      status: 'pending',
+      attempts: [],
+      attemptsLeft: config.webhookMaxAttempts,
+      nextAttemptAt: now,
+      createdAt: now
+    }
+  })
+
+  await webhookStore.enqueueDeliveries(deliveries)
+}
+
+/**
+ * Signs a webhook body: hex HMAC-SHA256 of "<timestamp>.<body>" keyed with
+ * the subscription's secret
+ * Receivers recompute it from the X-Webhook-Timestamp header and the raw body
+ */
+export function signPayload (secret: string, timestamp: number, payload: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex')
+}
+
+/**
+ * POSTs a delivery's body to the subscription's URL once
+ * Only a 2xx response within config.webhookTimeoutMs counts as delivered
+ */
+async function attemptDelivery (
+  subscription: WebhookSubscription,
+  delivery: WebhookDelivery
+): Promise<WebhookAttempt> {
+  const attemptedAt = getServerTime()
+  const start = Date.now()
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': USER_AGENT,
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': attemptedAt.toString(),
+        'X-Webhook-Signature': `sha256=${signPayload(subscription.secret, attemptedAt, delivery.payload)}`
+      },
+      body: delivery.payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(config.webhookTimeoutMs)
+    })
+    // The body is never read; release the connection
+    await response.body?.cancel()
+
+    return {
+      attemptedAt,
+      durationMs: Date.now() - start,
+      statusCode: response.status,
+      error: response.ok ? undefined : `HTTP ${response.status}`
+    }
+  } catch (error) {
+    return {
+      attemptedAt,
+      durationMs: Date.now() - start,
+      error: error instanceof Error ? error.message : String(error)
+    }
+  }
+}
+
+/**
+ * Attempts a claimed delivery and records the outcome: delivered, retried
+ * after an exponential backoff, or dead-lettered once out of attempts
+ */
+async function processDelivery (delivery: WebhookDelivery): Promise<void> {
+  const subscription = await webhookStore.getSubscription(delivery.subscriptionId)
+  if (!subscription) {
+    // Deleted while the delivery was claimed
+    await webhookStore.dequeueDelivery(delivery.id)
+    return
+  }
+
+  const attempt = await attemptDelivery(subscription, delivery)
+  const attemptsLeft = delivery.attemptsLeft - 1
+  const failures = config.webhookMaxAttempts - attemptsLeft
+
+  let updated: WebhookDelivery
+  if (attempt.error === undefined) {
+    updated = { ...delivery, status: 'delivered', attemptsLeft, nextAttemptAt: null }
+  } else if (attemptsLeft <= 0) {
+    updated = { ...delivery, status: 'dead', attemptsLeft: 0, nextAttemptAt: null }
+    logger.warn('Webhook delivery dead-lettered', {
+      deliveryId: delivery.id,
+      subscriptionId: subscription.id,
+      event: delivery.event,
+      error: attempt.error
+    })
+  } else {
+    updated = {
+      ...delivery,
+      attemptsLeft,
+      nextAttemptAt: getServerTime() + config.webhookRetryBaseMs * 2 ** (failures - 1)
+    }
+  }
+
+  updated.attempts = [...delivery.attempts, attempt]
+  await webhookStore.saveDelivery(updated)
+}
+
+/**
+ * Claims and attempts up to limit due deliveries, in parallel
+ * Every instance may run this; each due delivery is claimed by one of them
+ * Returns how many deliveries were claimed
+ */
+export async function processDueDeliveries (limit: number): Promise<number> {
+  const now = getServerTime()
+  const ids = await webhookStore.claimDueDeliveryIds(
+    now,
+    limit,
+    now + config.webhookTimeoutMs + DELIVERY_LEASE_MARGIN_MS
+  )
+
+  const deliveries = await webhookStore.getDeliveriesByIds(ids)
+  const found = new Set(deliveries.map(delivery => delivery.id))
+  await Promise.all([
+    ...deliveries.map(processDelivery),
+    // Trimmed from the history while still queued
+    ...ids.filter(id => !found.has(id)).map(webhookStore.dequeueDelivery)
+  ])
+
+  return ids.length
+}
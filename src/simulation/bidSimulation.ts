@@ -0,0 +1,554 @@
+import { performance } from 'perf_hooks'
+import { io, Socket } from 'socket.io-client'
+import { config } from '../config/env'
+import { AuctionItem, AuctionItemPage, BidHistoryPage, BidRecord } from '../models/auctionItem'
+import { ClientToServerEvents, ServerToClientEvents } from '../types/socket'
+import { logger } from '../utils/logger'
+import { checkAuctionInvariants, Invariant, InvariantViolation, ObservedUpdate } from './invariants'
+
+type SimulatorSocket = Socket<ServerToClientEvents, ClientToServerEvents>
+
+// minimum: always the next minimum bid, so bidders collide on the same amount
+// random: the next minimum plus 0-4 increments
+// sniper: the next minimum, only within the snipe window before endsAt
+const STRATEGIES = ['minimum', 'random', 'sniper'] as const
+type Strategy = typeof STRATEGIES[number]
+
+type BidOutcome = 'accepted' | 'outbid' | 'ended' | 'rateLimited' | 'failed' | 'timedOut'
+
+interface SimulationOptions {
+  url: string
+  bidders: number
+  itemIds: string[] // empty: the first live English auctions
+  durationMs: number
+  bidsPerSecond: number // per bidder
+  strategy: Strategy | 'mixed' // mixed: bidders take turns at each strategy
+  snipeWindowMs: number
+  responseTimeoutMs: number
+  bidderPrefix: string
+}
+
+interface SimulatedBidder {
+  name: string
+  strategy: Strategy
+  items: Map<string, AuctionItem> // latest version seen of each target item
+  placeBid: (itemId: string, amount: number) => Promise<{
+    outcome: BidOutcome
+    latencyMs: number
+    retryAfterMs?: number
+  }>
+  close: () => void
+}
+
+interface Observer {
+  updates: Map<string, ObservedUpdate[]>
+  adminChanges: Map<string, number> // edits, retractions and cancellations seen
+  snapshot: (itemIds: string[]) => Promise<{ serverTime: number, items: AuctionItem[] }>
+  close: () => void
+}
+
+interface SimulationStats {
+  outcomes: Record<BidOutcome, number>
+  latenciesMs: number[]
+}
+
+const BIDDER_PASSWORD = 'simulated-bidder-password'
+// Bidders are logged in this many at a time; password hashing is deliberately slow
+const LOGIN_BATCH_SIZE = 10
+const DEFAULT_ITEM_COUNT = 3
+const HISTORY_PAGE_SIZE = 100
+// Time for the last broadcasts to arrive before the final snapshot
+const SETTLE_MS = 1000
+// OUTBID also tells a bidder someone else took the lead; that is not a reply to their bid
+const DISPLACED_MESSAGE_PREFIX = 'You have been outbid on'
+
+async function sleep (ms: number): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Parses --name value (or --name=value) flags
+ */
+function parseOptions (args: string[]): SimulationOptions {
+  const flags = new Map<string, string>()
+  for (let i = 0; i < args.length; i++) {
+    const [name, inline] = args[i].replace(/^--/, '').split('=', 2)
+    flags.set(name, inline ?? args[++i] ?? '')
+  }
+
+  const number = (name: string, defaultValue: number, min: number): number => {
+    const value = flags.has(name) ? Number(flags.get(name)) : defaultValue
+    if (!Number.isFinite(value) || value < min) {
+      throw new Error(`--${name} must be a number of at least ${min}`)
+    }
+    return value
+  }
+
+  const strategy = flags.get('strategy') ?? 'mixed'
+  if (strategy !== 'mixed' && !(STRATEGIES as readonly string[]).includes(strategy)) {
+    throw new Error(`--strategy must be mixed or one of ${STRATEGIES.join(', ')}`)
+  }
+
+  return {
+    url: (flags.get('url') ?? `http://localhost:${config.port}`).replace(/\/$/, ''),
+    bidders: Math.floor(number('bidders', 20, 1)),
+    itemIds: (flags.get('items') ?? '')
+      .split(',')
+      .map(itemId => itemId.trim())
+      .filter(itemId => itemId !== ''),
+    durationMs: number('duration', 30, 1) * 1000,
+    bidsPerSecond: number('rate', 1, 0.01),
+    strategy: strategy as SimulationOptions['strategy'],
+    snipeWindowMs: number('snipe-window', 10, 0) * 1000,
+    responseTimeoutMs: number('timeout', 5000, 1),
+    bidderPrefix: flags.get('prefix') ?? 'sim-bidder'
+  }
+}
+
+async function requestJson<T> (
+  url: string,
+  body?: unknown
+): Promise<{ status: number, body: T }> {
+  const response = await fetch(url, body === undefined
+    ? undefined
+    : {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+
+  return { status: response.status, body: (await response.json()) as T }
+}
+
+/**
+ * Registers a simulated bidder, or logs in one left by an earlier run
+ */
+async function getSessionToken (url: string, username: string): Promise<string> {
+  const credentials = { username, password: BIDDER_PASSWORD }
+
+  let result = await requestJson<{ token?: string }>(`${url}/auth/register`, credentials)
+  if (result.status === 409) {
+    result = await requestJson<{ token?: string }>(`${url}/auth/login`, credentials)
+  }
+  if (!result.body.token) {
+    throw new Error(`Could not log in ${username} (HTTP ${result.status})`)
+  }
+
+  return result.body.token
+}
+
+/**
+ * Returns the IDs of the first live English auctions, ending soonest first
+ */
+async function discoverItemIds (url: string): Promise<string[]> {
+  const { body } = await requestJson<AuctionItemPage>(
+    `${url}/items?status=live&limit=${HISTORY_PAGE_SIZE}`
+  )
+
+  return body.items
+    .filter(item => item.auctionType === 'english')
+    .slice(0, DEFAULT_ITEM_COUNT)
+    .map(item => item.id)
+}
+
+/**
+ * Retrieves an item's bid history entries with a version after sinceVersion
+ */
+async function getBidsSince (
+  url: string,
+  itemId: string,
+  sinceVersion: number
+): Promise<BidRecord[]> {
+  const bids: BidRecord[] = []
+
+  // History is newest first, so paging stops at the first older entry
+  for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+    const { body } = await requestJson<BidHistoryPage>(
+      `${url}/items/${encodeURIComponent(itemId)}/bids?offset=${offset}&limit=${HISTORY_PAGE_SIZE}`
+    )
+
+    for (const bid of body.bids) {
+      if (bid.version <= sinceVersion) {
+        return bids
+      }
+      bids.push(bid)
+    }
+    if (offset + body.bids.length >= body.total) {
+      return bids
+    }
+  }
+}
+
+async function connectSocket (url: string, token?: string): Promise<SimulatorSocket> {
+  const socket: SimulatorSocket = io(url, {
+    auth: token ? { token } : undefined,
+    // Skips long-polling, which needs sticky sessions behind a load balancer
+    transports: ['websocket'],
+    reconnection: false
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    socket.once('connect', () => resolve())
+    socket.once('connect_error', error => reject(error))
+  })
+
+  return socket
+}
+
+/**
+ * Connects an unauthenticated socket that records every UPDATE_BID and admin
+ * change of the target items, and reads their state with SYNC_REQUEST
+ */
+async function connectObserver (url: string, itemIds: string[]): Promise<Observer> {
+  const socket = await connectSocket(url)
+  const updates = new Map<string, ObservedUpdate[]>(itemIds.map(itemId => [itemId, []]))
+  const adminChanges = new Map<string, number>(itemIds.map(itemId => [itemId, 0]))
+  const countAdminChange = (item: AuctionItem): void => {
+    const count = adminChanges.get(item.id)
+    if (count !== undefined) {
+      adminChanges.set(item.id, count + 1)
+    }
+  }
+
+  socket.on('UPDATE_BID', item => {
+    updates.get(item.id)?.push({
+      version: item.version,
+      currentBid: item.currentBid,
+      highestBidder: item.highestBidder
+    })
+  })
+  // Broadcast to every socket, so the observer sees them without subscribing
+  socket.on('ITEM_UPDATED', countAdminChange)
+  socket.on('AUCTION_CANCELLED', countAdminChange)
+  socket.on('BID_RETRACTED', ({ item }) => countAdminChange(item))
+  for (const itemId of itemIds) {
+    socket.emit('SUBSCRIBE_ITEM', { itemId })
+  }
+
+  return {
+    updates,
+    adminChanges,
+    // Every item differs from version -1, so SYNC returns them all
+    snapshot: async requestedIds => await new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('No SYNC reply from the server')), 10000)
+      socket.once('SYNC', data => {
+        clearTimeout(timer)
+        resolve(data)
+      })
+      socket.emit('SYNC_REQUEST', {
+        versions: Object.fromEntries(requestedIds.map(itemId => [itemId, -1]))
+      })
+    }),
+    close: () => socket.disconnect()
+  }
+}
+
+/**
+ * Connects a logged-in bidder that follows the target items
+ * Each bidder has one bid in flight at a time, so the next reply to it
+ * (BID_ACCEPTED, OUTBID or RATE_LIMITED) is the bid's outcome
+ */
+async function connectBidder (
+  url: string,
+  name: string,
+  token: string,
+  strategy: Strategy,
+  startItems: AuctionItem[],
+  responseTimeoutMs: number
+): Promise<SimulatedBidder> {
+  const socket = await connectSocket(url, token)
+  const items = new Map(startItems.map(item => [item.id, item]))
+  let pending: { itemId: string, settle: (outcome: BidOutcome, retryAfterMs?: number) => void } | null = null
+
+  const track = (item: AuctionItem): void => {
+    const known = items.get(item.id)
+    if (known && item.version > known.version) {
+      items.set(item.id, item)
+    }
+  }
+
+  socket.on('UPDATE_BID', track)
+  socket.on('AUCTION_ENDED', track)
+  socket.on('BID_ACCEPTED', item => {
+    track(item)
+    if (pending?.itemId === item.id) {
+      pending.settle('accepted')
+    }
+  })
+  socket.on('OUTBID', ({ itemId, message }) => {
+    if (pending?.itemId !== itemId || message.startsWith(DISPLACED_MESSAGE_PREFIX)) {
+      return
+    }
+    if (message === 'Auction has ended') {
+      pending.settle('ended')
+    } else if (/^(Bid too low|Bid must be at least|You were outbid)/.test(message)) {
+      pending.settle('outbid')
+    } else {
+      pending.settle('failed')
+    }
+  })
+  socket.on('RATE_LIMITED', ({ retryAfterMs }) => pending?.settle('rateLimited', retryAfterMs))
+  socket.on('AUTH_REQUIRED', () => pending?.settle('failed'))
+  socket.on('disconnect', () => pending?.settle('failed'))
+
+  for (const item of startItems) {
+    socket.emit('SUBSCRIBE_ITEM', { itemId: item.id })
+  }
+
+  return {
+    name,
+    strategy,
+    items,
+    // A reply arriving after the timeout may be taken for the next bid's
+    placeBid: async (itemId, amount) => await new Promise(resolve => {
+      const sentAt = performance.now()
+      const settle = (outcome: BidOutcome, retryAfterMs?: number): void => {
+        clearTimeout(timer)
+        pending = null
+        resolve({ outcome, latencyMs: performance.now() - sentAt, retryAfterMs })
+      }
+      const timer = setTimeout(() => settle('timedOut'), responseTimeoutMs)
+
+      pending = { itemId, settle }
+      socket.emit('BID_PLACED', { itemId, amount })
+    }),
+    close: () => socket.disconnect()
+  }
+}
+
+/**
+ * Returns the amount a strategy bids on an item, or null to hold off
+ */
+function chooseBidAmount (
+  strategy: Strategy,
+  item: AuctionItem,
+  serverTime: number,
+  snipeWindowMs: number
+): number | null {
+  const minimum = item.nextMinimumBid ?? item.currentBid + 1
+
+  switch (strategy) {
+    case 'minimum':
+      return minimum
+    case 'random':
+      return minimum + (minimum - item.currentBid) * Math.floor(Math.random() * 5)
+    case 'sniper':
+      return item.endsAt - serverTime <= snipeWindowMs ? minimum : null
+  }
+}
+
+/**
+ * Bids on random open target items at the configured rate until the deadline
+ */
+async function runBidder (
+  bidder: SimulatedBidder,
+  options: SimulationOptions,
+  deadline: number,
+  clockOffsetMs: number,
+  stats: SimulationStats
+): Promise<void> {
+  const intervalMs = 1000 / options.bidsPerSecond
+
+  for (;;) {
+    // Jittered, so bidders don't fire in lockstep
+    await sleep(intervalMs * (0.5 + Math.random()))
+    if (Date.now() >= deadline) {
+      return
+    }
+
+    const open = [...bidder.items.values()].filter(item => !item.ended)
+    if (open.length === 0) {
+      return
+    }
+
+    const item = open[Math.floor(Math.random() * open.length)]
+    const amount = chooseBidAmount(
+      bidder.strategy,
+      item,
+      Date.now() + clockOffsetMs,
+      options.snipeWindowMs
+    )
+    if (amount === null) {
+      continue
+    }
+
+    const { outcome, latencyMs, retryAfterMs } = await bidder.placeBid(item.id, amount)
+    stats.outcomes[outcome]++
+    if (outcome !== 'timedOut') {
+      stats.latenciesMs.push(latencyMs)
+    }
+    if (retryAfterMs) {
+      await sleep(retryAfterMs)
+    }
+  }
+}
+
+/**
+ * Returns the nearest-rank percentile of ascending values
+ */
+function percentile (sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0
+  }
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)
+  return Math.round(sorted[Math.max(index, 0)] * 10) / 10
+}
+
+/**
+ * Runs the simulation against a running server and verifies the invariants
+ * Returns the violations found
+ */
+async function simulateBids (options: SimulationOptions): Promise<InvariantViolation[]> {
+  const itemIds = options.itemIds.length > 0
+    ? options.itemIds
+    : await discoverItemIds(options.url)
+  if (itemIds.length === 0) {
+    throw new Error('No live English auctions to bid on - create or seed some first')
+  }
+
+  const observer = await connectObserver(options.url, itemIds)
+  const bidders: SimulatedBidder[] = []
+
+  try {
+    const { serverTime, items } = await observer.snapshot(itemIds)
+    const clockOffsetMs = serverTime - Date.now()
+
+    // Invariants are defined for English auctions; sealed bids bump version without accepting
+    const startItems = items.filter(item => item.auctionType === 'english' && !item.ended)
+    const skipped = itemIds.filter(itemId => !startItems.some(item => item.id === itemId))
+    if (skipped.length > 0) {
+      logger.warn('Skipping items that are missing, ended or not English auctions', { itemIds: skipped })
+    }
+    if (startItems.length === 0) {
+      throw new Error('None of the items can be bid on')
+    }
+
+    logger.info('Logging in simulated bidders', { count: options.bidders })
+    const names = Array.from({ length: options.bidders }, (_, index) => `${options.bidderPrefix}-${index + 1}`)
+    const tokens: string[] = []
+    for (let i = 0; i < names.length; i += LOGIN_BATCH_SIZE) {
+      tokens.push(...await Promise.all(
+        names.slice(i, i + LOGIN_BATCH_SIZE).map(async name => await getSessionToken(options.url, name))
+      ))
+    }
+
+    bidders.push(...await Promise.all(names.map(async (name, index) => await connectBidder(
+      options.url,
+      name,
+      tokens[index],
+      options.strategy === 'mixed' ? STRATEGIES[index % STRATEGIES.length] : options.strategy,
+      startItems,
+      options.responseTimeoutMs
+    ))))
+
+    logger.info('Simulation started', {
+      url: options.url,
+      bidders: bidders.length,
+      itemIds: startItems.map(item => item.id),
+      durationMs: options.durationMs,
+      bidsPerSecond: options.bidsPerSecond,
+      strategy: options.strategy
+    })
+
+    const stats: SimulationStats = {
+      outcomes: { accepted: 0, outbid: 0, ended: 0, rateLimited: 0, failed: 0, timedOut: 0 },
+      latenciesMs: []
+    }
+    const startedAt = performance.now()
+    const deadline = Date.now() + options.durationMs
+
+    await Promise.all(bidders.map(async bidder =>
+      await runBidder(bidder, options, deadline, clockOffsetMs, stats)
+    ))
+
+    const elapsedSeconds = (performance.now() - startedAt) / 1000
+    const sent = Object.values(stats.outcomes).reduce((sum, count) => sum + count, 0)
+    const latencies = [...stats.latenciesMs].sort((a, b) => a - b)
+
+    logger.info('Simulation finished', {
+      elapsedSeconds: Math.round(elapsedSeconds * 10) / 10,
+      bidsSent: sent,
+      bidsPerSecond: Math.round((sent / elapsedSeconds) * 10) / 10,
+      acceptedPerSecond: Math.round((stats.outcomes.accepted / elapsedSeconds) * 10) / 10,
+      outcomes: stats.outcomes,
+      latencyMs: {
+        p50: percentile(latencies, 50),
+        p90: percentile(latencies, 90),
+        p99: percentile(latencies, 99),
+        max: percentile(latencies, 100)
+      }
+    })
+
+    await sleep(SETTLE_MS)
+    const { items: endItems } = await observer.snapshot(startItems.map(item => item.id))
+
+    const violations: InvariantViolation[] = []
+    const unchecked: Array<{ itemId: string, invariants: Invariant[] }> = []
+    for (const before of startItems) {
+      const after = endItems.find(item => item.id === before.id)
+      if (!after) {
+        violations.push({
+          itemId: before.id,
+          invariant: 'VERSION_MATCHES_ACCEPTED_BIDS',
+          message: 'The item disappeared during the simulation'
+        })
+        continue
+      }
+
+      const history = await getBidsSince(options.url, before.id, before.version)
+      const result = checkAuctionInvariants(
+        before,
+        after,
+        history,
+        observer.updates.get(before.id) ?? [],
+        observer.adminChanges.get(before.id) ?? 0
+      )
+      violations.push(...result.violations)
+      if (result.skipped.length > 0) {
+        unchecked.push({ itemId: before.id, invariants: result.skipped })
+      }
+      logger.info('Checked item', {
+        itemId: before.id,
+        acceptedBids: history.filter(bid => bid.status === 'BID_ACCEPTED').length,
+        adminChanges: observer.adminChanges.get(before.id) ?? 0,
+        broadcasts: observer.updates.get(before.id)?.length ?? 0,
+        currentBid: after.currentBid,
+        version: after.version,
+        ended: after.ended
+      })
+    }
+
+    if (unchecked.length > 0) {
+      logger.warn('Skipped invariants on items an admin changed during the run', { items: unchecked })
+    }
+
+    return violations
+  } finally {
+    for (const bidder of bidders) {
+      bidder.close()
+    }
+    observer.close()
+  }
+}
+
+// Run simulation if executed directly
+if (require.main === module) {
+  Promise.resolve()
+    .then(async () => await simulateBids(parseOptions(process.argv.slice(2))))
+    .then(violations => {
+      for (const violation of violations) {
+        logger.error('Invariant violated', { ...violation })
+      }
+      if (violations.length > 0) {
+        process.exit(1)
+      }
+      logger.info('All invariants held')
+      process.exit(0)
+    })
+    .catch(error => {
+      logger.error('Simulation failed', { error })
+      process.exit(1)
+    })
+}
+
+export { simulateBids }
@@ -0,0 +1,140 @@
+import { AuctionItem, BidRecord } from '../models/auctionItem'
+
+export type Invariant =
+  | 'MONOTONIC_CURRENT_BID' // accepted bids and broadcasts never lower the current bid
+  | 'VERSION_MATCHES_ACCEPTED_BIDS' // every version bump is an accepted bid or a lifecycle change
+  | 'NO_BID_AFTER_END' // no bid is accepted once endsAt has passed
+
+export interface InvariantViolation {
+  itemId: string
+  invariant: Invariant
+  message: string
+}
+
+// The part of an UPDATE_BID broadcast the checks compare
+export interface ObservedUpdate {
+  version: number
+  currentBid: number
+  highestBidder: string
+}
+
+export interface InvariantResult {
+  violations: InvariantViolation[]
+  skipped: Invariant[] // not checked, because an admin changed the item
+}
+
+/**
+ * Checks an English auction against the bidding invariants over a simulation
+ * before and after are the item at the start and end of the run, history its
+ * bid history entries newer than before.version, updates the UPDATE_BID
+ * broadcasts received for it in between, and adminChanges the ITEM_UPDATED,
+ * BID_RETRACTED and AUCTION_CANCELLED broadcasts for it
+ * Admin edits and retractions move version and the current bid without a
+ * bid, so on an item an admin changed during the run only NO_BID_AFTER_END
+ * is checked
+ */
+export function checkAuctionInvariants (
+  before: AuctionItem,
+  after: AuctionItem,
+  history: BidRecord[],
+  updates: ObservedUpdate[],
+  adminChanges: number
+): InvariantResult {
+  const violations: InvariantViolation[] = []
+  const report = (invariant: Invariant, message: string): void => {
+    violations.push({ itemId: before.id, invariant, message })
+  }
+
+  // Retracted entries were accepted when placed, so they count for the end check
+  const bids = history
+    .filter(bid => bid.status === 'BID_ACCEPTED' || bid.status === 'BID_RETRACTED')
+    .sort((a, b) => a.version - b.version)
+  checkNoBidAfterEnd(after, bids, report)
+
+  if (adminChanges > 0 || bids.some(bid => bid.status === 'BID_RETRACTED')) {
+    return { violations, skipped: ['MONOTONIC_CURRENT_BID', 'VERSION_MATCHES_ACCEPTED_BIDS'] }
+  }
+
+  // Proxy defences may match the challenger's amount, so equal is allowed
+  let previousBid = before.currentBid
+  for (const bid of bids) {
+    if (bid.amount < previousBid) {
+      report(
+        'MONOTONIC_CURRENT_BID',
+        `Bid at version ${bid.version} of ${bid.amount} is below the previous bid of ${previousBid}`
+      )
+    }
+    previousBid = bid.amount
+  }
+
+  const broadcasts = new Map<number, ObservedUpdate>()
+  let previousUpdate: ObservedUpdate | null = null
+  for (const update of [...updates].sort((a, b) => a.version - b.version)) {
+    const seen = broadcasts.get(update.version)
+    if (
+      seen &&
+      (seen.currentBid !== update.currentBid || seen.highestBidder !== update.highestBidder)
+    ) {
+      report(
+        'MONOTONIC_CURRENT_BID',
+        `Version ${update.version} was broadcast with two states: ${seen.currentBid} by ${seen.highestBidder} and ${update.currentBid} by ${update.highestBidder}`
+      )
+    }
+    if (previousUpdate && update.currentBid < previousUpdate.currentBid) {
+      report(
+        'MONOTONIC_CURRENT_BID',
+        `Broadcast at version ${update.version} lowered the current bid from ${previousUpdate.currentBid} to ${update.currentBid}`
+      )
+    }
+    broadcasts.set(update.version, update)
+    previousUpdate = update
+  }
+
+  // Starting and ending each bump version once without a bid
+  const lifecycleChanges =
+    (before.status === 'scheduled' && after.status !== 'scheduled' ? 1 : 0) +
+    (!before.ended && after.ended ? 1 : 0)
+  const expectedBids = after.version - before.version - lifecycleChanges
+
+  if (bids.length !== expectedBids) {
+    report(
+      'VERSION_MATCHES_ACCEPTED_BIDS',
+      `Version moved from ${before.version} to ${after.version} with ${lifecycleChanges} lifecycle changes, but ${bids.length} bids were accepted`
+    )
+  }
+  if (new Set(bids.map(bid => bid.version)).size !== bids.length) {
+    report('VERSION_MATCHES_ACCEPTED_BIDS', 'Several accepted bids share a version')
+  }
+  if (bids.length > 0 && bids[bids.length - 1].amount !== after.currentBid) {
+    report(
+      'VERSION_MATCHES_ACCEPTED_BIDS',
+      `The last accepted bid of ${bids[bids.length - 1].amount} is not the current bid of ${after.currentBid}`
+    )
+  }
+
+  return { violations, skipped: [] }
+}
+
+/**
+ * Reports bids accepted after the auction's end
+ * endsAt only moves forward, so its final value bounds every accepted bid
+ */
+function checkNoBidAfterEnd (
+  after: AuctionItem,
+  bids: BidRecord[],
+  report: (invariant: Invariant, message: string) => void
+): void {
+  for (const bid of bids) {
+    if (bid.timestamp > after.endsAt) {
+      report(
+        'NO_BID_AFTER_END',
+        `Bid at version ${bid.version} was accepted at ${bid.timestamp}, after endsAt ${after.endsAt}`
+      )
+    } else if (after.endedAt !== undefined && bid.timestamp > after.endedAt) {
+      report(
+        'NO_BID_AFTER_END',
+        `Bid at version ${bid.version} was accepted at ${bid.timestamp}, after the auction ended at ${after.endedAt}`
+      )
+    }
+  }
+}
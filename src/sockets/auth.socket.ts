@@ -0,0 +1,35 @@
+import { Socket } from 'socket.io';
+import { ServerToClientEvents, ClientToServerEvents, InterServerEvents, SocketData } from '../types/socket';
+import * as authService from '../services/auth.service';
+import * as rateLimitService from '../services/rateLimit.service';
+import { logger } from '../utils/logger';
+
+type TypedSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+/**
+ * Socket.io handshake middleware
+ * Populates socket.data.userId from the session token in handshake auth;
+ * sockets without a valid token still connect, but can only watch.
+ * Bidders banned for rate limit abuse are refused until the ban lapses.
+ */
+export async function authenticateSocket(socket: TypedSocket, next: (err?: Error) => void): Promise<void> {
+  const bidder = authService.verifyToken(socket.handshake.auth?.token);
+
+  if (bidder) {
+    try {
+      const banRemainingMs = await rateLimitService.getBanRemainingMs(bidder.userId);
+      if (banRemainingMs > 0) {
+        const error = new Error('BANNED') as Error & { data?: unknown };
+        error.data = { retryAfterMs: banRemainingMs };
+        next(error);
+        return;
+      }
+    } catch (error) {
+      logger.error('Error checking ban', { socketId: socket.id, userId: bidder.userId, error });
+    }
+
+    socket.data.userId = bidder.userId;
+  }
+
+  next();
+}
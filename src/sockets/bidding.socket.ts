@@ -1,112 +1,423 @@
-import { Server, Socket } from 'socket.io';
-import { ServerToClientEvents, ClientToServerEvents, InterServerEvents, SocketData } from '../types/socket';
+import { Socket } from 'socket.io';
+import { ServerToClientEvents, ClientToServerEvents, InterServerEvents, SocketData, TypedServer } from '../types/socket';
 import * as auctionService from '../services/auction.service';
+import * as rateLimitService from '../services/rateLimit.service';
+import * as watchlistService from '../services/watchlist.service';
+import { getServerTime } from '../utils/time';
+import { formatMoney } from '../utils/money';
+import { auctionEvents } from '../events/auction.events';
+import { bidderRoom, itemRoom } from './rooms';
+import { AuctionItem } from '../models/auctionItem';
+import { isSealed } from '../utils/auctionFormat';
+import { logger, Logger } from '../utils/logger';
+import { connectedSockets } from '../metrics/auction.metrics';
+import { WatchlistResult } from '../models/watchlist';
 
-type TypedServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
 type TypedSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
 
+/**
+ * Builds the BID_TOO_LOW message for an item's auction format
+ */
+function bidTooLowMessage(item: AuctionItem): string {
+  const nextMinimumBid = formatMoney(item.nextMinimumBid as number, item.currency);
+
+  if (isSealed(item.auctionType)) {
+    return `Sealed bids must be at least ${nextMinimumBid} and above your previous bid`;
+  }
+  if (item.auctionType === 'dutch') {
+    return `Bid too low. The price is now ${nextMinimumBid}`;
+  }
+  return `Bid too low. Current bid is ${formatMoney(item.currentBid, item.currency)}`;
+}
+
+const WATCH_REJECTED_MESSAGES: Record<Exclude<WatchlistResult['status'], 'OK'>, string> = {
+  NOT_FOUND: 'Auction not found',
+  AUCTION_ENDED: 'This auction has already ended',
+  WATCHLIST_FULL: 'Your watchlist is full - remove an auction first',
+};
+
+/**
+ * Adds an item to or removes it from the socket's bidder's watchlist
+ * Every socket of the bidder receives the new list through WATCHLIST_UPDATED
+ */
+async function processWatch(
+  socket: TypedSocket,
+  log: Logger,
+  itemId: unknown,
+  watch: boolean
+): Promise<void> {
+  const bidderName = socket.data.userId;
+  if (!bidderName) {
+    socket.emit('AUTH_REQUIRED', { message: 'Log in to watch auctions' });
+    return;
+  }
+  if (typeof itemId !== 'string' || !itemId) {
+    return;
+  }
+
+  try {
+    const result = watch
+      ? await watchlistService.watchItem(bidderName, itemId)
+      : await watchlistService.unwatchItem(bidderName, itemId);
+
+    if (result.status !== 'OK') {
+      socket.emit('WATCH_REJECTED', { itemId, message: WATCH_REJECTED_MESSAGES[result.status] });
+    }
+  } catch (error) {
+    log.error('Error updating watchlist', { itemId, error });
+    socket.emit('WATCH_REJECTED', { itemId, message: 'Server error updating watchlist' });
+  }
+}
+
+/**
+ * Validates and places a manual or proxy bid as the socket's authenticated
+ * bidder, replying to the socket with the outcome
+ * Watchers and displaced bidders are notified through the domain events the
+ * service raises (see initializeBiddingSocket)
+ * For proxy bids, amount is the bidder's hidden maximum and is never echoed back
+ */
+async function processBid(
+  io: TypedServer,
+  socket: TypedSocket,
+  log: Logger,
+  itemId: string,
+  amount: unknown,
+  isProxy: boolean
+): Promise<void> {
+  const kind = isProxy ? 'Proxy bid' : 'Bid';
+
+  // Identity comes from the handshake token, never from the client payload
+  const bidderName = socket.data.userId;
+  if (!bidderName) {
+    socket.emit('AUTH_REQUIRED', { message: 'Log in to place bids' });
+    return;
+  }
+
+  // Every attempt costs a token, before any auction state is read
+  let rateLimit: rateLimitService.RateLimitResult;
+  try {
+    rateLimit = await rateLimitService.checkBidRateLimit(bidderName, socket.id);
+  } catch (error) {
+    log.error('Error checking bid rate limit', { error });
+    socket.emit('OUTBID', {
+      itemId: itemId || 'unknown',
+      currentBid: 0,
+      message: 'Server error processing bid',
+    });
+    return;
+  }
+
+  if (!rateLimit.allowed) {
+    const retrySeconds = Math.ceil(rateLimit.retryAfterMs / 1000);
+    socket.emit('RATE_LIMITED', {
+      itemId: itemId || 'unknown',
+      retryAfterMs: rateLimit.retryAfterMs,
+      banned: rateLimit.banned,
+      message: rateLimit.banned
+        ? `Too many bids - you are blocked for ${retrySeconds}s`
+        : `Too many bids - try again in ${retrySeconds}s`,
+    });
+
+    if (rateLimit.banned) {
+      // Drop every connection the bidder has, on every instance
+      log.warn('Bidder banned for rate limit abuse');
+      io.in(bidderRoom(bidderName)).disconnectSockets(true);
+    }
+    return;
+  }
+
+  // Validate input
+  if (!itemId || typeof amount !== 'number') {
+    socket.emit('OUTBID', {
+      itemId: itemId || 'unknown',
+      currentBid: 0,
+      message: 'Invalid bid data',
+    });
+    return;
+  }
+
+  if (amount <= 0) {
+    socket.emit('OUTBID', {
+      itemId,
+      currentBid: 0,
+      message: 'Bid amount must be positive',
+    });
+    return;
+  }
+
+  try {
+    // Place bid using service layer (atomic via Lua)
+    const result = isProxy
+      ? await auctionService.placeProxyBid(itemId, amount, bidderName)
+      : await auctionService.placeBid(itemId, amount, bidderName);
+
+    if (result.status === 'BID_SEALED') {
+      // SEALED_BID_ACCEPTED reaches every socket of the bidder
+      log.info('Sealed bid accepted', { itemId });
+    } else if (result.success && result.item) {
+      socket.emit('BID_ACCEPTED', result.item);
+      log.info(`${kind} accepted`, { itemId, currentBid: result.item.currentBid, currency: result.item.currency });
+
+      // Buy it now and taking a Dutch price end the auction immediately
+      if (result.status === 'BOUGHT_NOW' || result.status === 'PRICE_TAKEN') {
+        log.info(result.status === 'BOUGHT_NOW' ? 'Auction bought now' : 'Auction taken', { itemId, title: result.item.title });
+      }
+    } else {
+      // Bid rejected
+      if (result.status === 'AUCTION_ENDED') {
+        socket.emit('OUTBID', {
+          itemId,
+          currentBid: result.item?.currentBid || 0,
+          message: 'Auction has ended',
+        });
+      } else if (result.status === 'INVALID_AMOUNT' && result.item) {
+        socket.emit('OUTBID', {
+          itemId,
+          currentBid: result.item.currentBid,
+          message: `Bid must be a whole number of ${result.item.currency} minor units`,
+        });
+      } else if (result.status === 'NOT_STARTED' && result.item) {
+        socket.emit('OUTBID', {
+          itemId,
+          currentBid: result.item.currentBid,
+          message: 'Auction has not started yet',
+        });
+      } else if (result.status === 'BID_TOO_LOW' && result.item) {
+        socket.emit('OUTBID', {
+          itemId,
+          currentBid: result.item.currentBid,
+          message: bidTooLowMessage(result.item),
+        });
+      } else if (result.status === 'PROXY_NOT_SUPPORTED' && result.item) {
+        socket.emit('OUTBID', {
+          itemId,
+          currentBid: result.item.currentBid,
+          message: 'Maximum bids are only available in English auctions',
+        });
+      } else if (result.status === 'BID_BELOW_INCREMENT' && result.item) {
+        socket.emit('OUTBID', {
+          itemId,
+          currentBid: result.item.currentBid,
+          message: `Bid must be at least ${formatMoney(result.item.nextMinimumBid as number, result.item.currency)}`,
+        });
+      } else if (result.status === 'SERVER_SHUTTING_DOWN') {
+        socket.emit('OUTBID', {
+          itemId,
+          currentBid: 0,
+          message: 'Server is restarting - place your bid again in a moment',
+        });
+      } else if (result.status === 'OUTBID_BY_PROXY' && result.item) {
+        socket.emit('OUTBID', {
+          itemId,
+          currentBid: result.item.currentBid,
+          message: `You were outbid by an automatic bid. Current bid is ${formatMoney(result.item.currentBid, result.item.currency)}`,
+        });
+      }
+
+      log.info(`${kind} rejected`, { itemId, status: result.status });
+    }
+  } catch (error) {
+    log.error('Error processing bid', { itemId, error });
+    socket.emit('OUTBID', {
+      itemId,
+      currentBid: 0,
+      message: 'Server error processing bid',
+    });
+  }
+}
+
 /**
  * Initializes Socket.io event handlers for bidding
  */
 export function initializeBiddingSocket(io: TypedServer): void {
   io.on('connection', (socket: TypedSocket) => {
-    console.log(`Client connected: ${socket.id}`);
+    // Every entry about this connection carries its socket and bidder
+    const log = logger.child({ socketId: socket.id, userId: socket.data.userId });
+    log.info('Client connected');
+    connectedSockets.inc();
+
+    // Personal notifications (e.g. OUTBID) reach every socket of the bidder
+    if (socket.data.userId) {
+      socket.join(bidderRoom(socket.data.userId));
+
+      watchlistService
+        .getWatchlist(socket.data.userId)
+        .then((itemIds) => socket.emit('WATCHLIST', { itemIds }))
+        .catch((error) => log.error('Error loading watchlist', { error }));
+    }
 
     /**
-     * Handler for BID_PLACED event
-     * Validates and processes bids atomically, then broadcasts results
+     * Handlers for SUBSCRIBE_ITEM / UNSUBSCRIBE_ITEM events
+     * Item rooms receive that item's UPDATE_BID and AUCTION_EXTENDED events
      */
-    socket.on('BID_PLACED', async (data) => {
-      const { itemId, amount, bidderName } = data;
+    socket.on('SUBSCRIBE_ITEM', (data) => {
+      if (data && typeof data.itemId === 'string' && data.itemId) {
+        socket.join(itemRoom(data.itemId));
+      }
+    });
 
-      // Validate input
-      if (!itemId || typeof amount !== 'number' || !bidderName) {
-        socket.emit('OUTBID', {
-          itemId: itemId || 'unknown',
-          currentBid: 0,
-          message: 'Invalid bid data',
-        });
-        return;
+    socket.on('UNSUBSCRIBE_ITEM', (data) => {
+      if (data && typeof data.itemId === 'string' && data.itemId) {
+        socket.leave(itemRoom(data.itemId));
       }
+    });
 
-      if (amount <= 0) {
-        socket.emit('OUTBID', {
-          itemId,
-          currentBid: 0,
-          message: 'Bid amount must be positive',
-        });
+    /**
+     * Handler for SYNC_REQUEST event
+     * Sent on every (re)connect with the versions the client displays; the
+     * reply carries only the items that changed while it was away
+     */
+    socket.on('SYNC_REQUEST', async (data) => {
+      if (!data || typeof data.versions !== 'object' || data.versions === null) {
         return;
       }
 
-      try {
-        // Place bid using service layer (atomic via Lua)
-        const result = await auctionService.placeBid(itemId, amount, bidderName);
-
-        if (result.success && result.item) {
-          // Bid accepted - notify bidder and broadcast to all clients
-          socket.emit('BID_ACCEPTED', result.item);
-          io.emit('UPDATE_BID', result.item);
-
-          // Notify previous bidder they've been outbid
-          if (result.previousBidder && result.previousBidder !== bidderName) {
-            io.emit('OUTBID', {
-              itemId,
-              currentBid: result.item.currentBid,
-              message: `You have been outbid on ${result.item.title}`,
-            });
-          }
-
-          console.log(`Bid accepted: ${bidderName} bid $${amount} on ${itemId}`);
-        } else {
-          // Bid rejected
-          if (result.status === 'AUCTION_ENDED') {
-            socket.emit('OUTBID', {
-              itemId,
-              currentBid: result.item?.currentBid || 0,
-              message: 'Auction has ended',
-            });
-          } else if (result.status === 'BID_TOO_LOW' && result.item) {
-            socket.emit('OUTBID', {
-              itemId,
-              currentBid: result.item.currentBid,
-              message: `Bid too low. Current bid is $${result.item.currentBid}`,
-            });
-          }
-
-          console.log(`Bid rejected: ${bidderName} bid $${amount} on ${itemId} - ${result.status}`);
+      const versions: Record<string, number> = {};
+      for (const [itemId, version] of Object.entries(data.versions)) {
+        if (typeof version === 'number') {
+          versions[itemId] = version;
         }
+      }
+
+      try {
+        const items = await auctionService.getChangedItems(versions);
+        socket.emit('SYNC', { serverTime: getServerTime(), items });
       } catch (error) {
-        console.error('Error processing bid:', error);
-        socket.emit('OUTBID', {
-          itemId,
-          currentBid: 0,
-          message: 'Server error processing bid',
-        });
+        log.error('Error syncing items', { error });
       }
     });
 
-    socket.on('disconnect', () => {
-      console.log(`Client disconnected: ${socket.id}`);
+    /**
+     * Handlers for WATCH_ITEM / UNWATCH_ITEM events
+     * Watchers of an item are alerted as it nears its end (AUCTION_ENDING_SOON)
+     */
+    socket.on('WATCH_ITEM', async (data) => {
+      await processWatch(socket, log, data && data.itemId, true);
+    });
+
+    socket.on('UNWATCH_ITEM', async (data) => {
+      await processWatch(socket, log, data && data.itemId, false);
+    });
+
+    /**
+     * Handler for BID_PLACED event
+     * Validates and processes bids atomically, then broadcasts results; a
+     * missing payload is answered as invalid bid data
+     */
+    socket.on('BID_PLACED', async (data) => {
+      await processBid(io, socket, log, data && data.itemId, data && data.amount, false);
+    });
+
+    /**
+     * Handler for PROXY_BID_PLACED event
+     * Stores a hidden maximum; the Lua script auto-bids up to it on the bidder's behalf
+     */
+    socket.on('PROXY_BID_PLACED', async (data) => {
+      await processBid(io, socket, log, data && data.itemId, data && data.maxAmount, true);
+    });
+
+    socket.on('disconnect', (reason) => {
+      connectedSockets.dec();
+      log.info('Client disconnected', { reason });
     });
   });
 
   /**
-   * Periodic check for expired auctions
-   * Runs every 1 second to detect and broadcast auction endings
+   * Bid outcomes, whether placed over Socket.io or REST
    */
-  setInterval(async () => {
-    try {
-      const endedAuctions = await auctionService.checkAndEndExpiredAuctions();
+  auctionEvents.on('BID_UPDATED', (item) => {
+    io.to(itemRoom(item.id)).emit('UPDATE_BID', item);
+  });
 
-      for (const item of endedAuctions) {
-        io.emit('AUCTION_ENDED', item);
-        console.log(`Auction ended: ${item.title} (${item.id})`);
-      }
-    } catch (error) {
-      console.error('Error checking expired auctions:', error);
-    }
-  }, 1000);
+  // Notify only the displaced bidder (all of their sockets) they've been outbid
+  auctionEvents.on('OUTBID', ({ item, bidderName }) => {
+    io.to(bidderRoom(bidderName)).emit('OUTBID', {
+      itemId: item.id,
+      currentBid: item.currentBid,
+      message: `You have been outbid on ${item.title}`,
+    });
+  });
 
-  console.log('Socket.io bidding handlers initialized');
-}
+  // Only the bidder learns a sealed bid's amount
+  auctionEvents.on('SEALED_BID_ACCEPTED', ({ item, bidderName, amount }) => {
+    io.to(bidderRoom(bidderName)).emit('SEALED_BID_ACCEPTED', {
+      itemId: item.id,
+      amount,
+      bidCount: item.bidCount,
+    });
+  });
+
+  // Late bid triggered soft close - let watchers' countdowns re-sync
+  auctionEvents.on('AUCTION_EXTENDED', (item) => {
+    io.to(itemRoom(item.id)).emit('AUCTION_EXTENDED', {
+      itemId: item.id,
+      endsAt: item.endsAt,
+      serverTime: getServerTime(),
+    });
+    logger.info('Auction extended', { itemId: item.id, endsAt: item.endsAt });
+  });
+
+  // Watchlist changes made over either transport reach all of the bidder's sockets
+  auctionEvents.on('WATCHLIST_UPDATED', ({ bidderName, itemIds }) => {
+    io.to(bidderRoom(bidderName)).emit('WATCHLIST', { itemIds });
+  });
+
+  // From the expiry worker (leader only) - only the item's watchers are told
+  auctionEvents.on('AUCTION_ENDING_SOON', ({ item, thresholdMs, watchers }) => {
+    io.to(watchers.map(bidderRoom)).emit('AUCTION_ENDING_SOON', {
+      itemId: item.id,
+      title: item.title,
+      endsAt: item.endsAt,
+      serverTime: getServerTime(),
+      thresholdMs,
+    });
+  });
+
+  /**
+   * Lifecycle changes from the expiry worker (leader only), buy now and
+   * Dutch takes - go out through the Redis adapter to every instance
+   */
+  auctionEvents.on('AUCTION_STARTED', (item) => {
+    io.emit('AUCTION_STARTED', item);
+  });
+
+  auctionEvents.on('AUCTION_ENDED', (item) => {
+    io.emit('AUCTION_ENDED', item);
+  });
+
+  /**
+   * Admin changes made over REST - fan out to every open dashboard
+   */
+  auctionEvents.on('ITEM_CREATED', (item) => {
+    io.emit('ITEM_CREATED', item);
+    logger.info('Auction created', { itemId: item.id, title: item.title });
+  });
+
+  auctionEvents.on('ITEM_UPDATED', (item) => {
+    io.emit('ITEM_UPDATED', item);
+    logger.info('Auction updated', { itemId: item.id, title: item.title });
+  });
 
+  auctionEvents.on('AUCTION_CANCELLED', (item) => {
+    io.emit('AUCTION_CANCELLED', item);
+    logger.info('Auction cancelled', { itemId: item.id, title: item.title });
+  });
+
+  /**
+   * An admin voided a bid - watchers get the restored state, and every
+   * dashboard learns which bid was retracted
+   */
+  auctionEvents.on('BID_RETRACTED', ({ item, bid }) => {
+    io.to(itemRoom(item.id)).emit('UPDATE_BID', item);
+    io.emit('BID_RETRACTED', { item, bid });
+    logger.info('Bid retracted', {
+      itemId: item.id,
+      bidder: bid.bidderName,
+      amount: bid.amount,
+      currency: item.currency,
+      retractedBy: bid.retractedBy,
+    });
+  });
+
+  logger.info('Socket.io bidding handlers initialized');
+}
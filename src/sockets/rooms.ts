@@ -0,0 +1,12 @@
+/**
+ * Socket.io room names
+ * Every authenticated socket joins its bidder room; sockets join item rooms
+ * via SUBSCRIBE_ITEM for the items they are viewing
+ */
+export function bidderRoom(userId: string): string {
+  return `bidder:${userId}`;
+}
+
+export function itemRoom(itemId: string): string {
+  return `item:${itemId}`;
+}
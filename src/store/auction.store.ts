@@ -1,53 +1,94 @@
-import { readFileSync } from 'fs'
-import { join } from 'path'
-import { getRedisClient } from '../config/redis'
-import { AuctionItem, AuctionItemRedis } from '../models/auctionItem'
+import { randomUUID } from 'crypto'
+import { getRedisClient, RedisClientType } from '../config/redis'
+import { config } from '../config/env'
+import {
+  AuctionItem,
+  AuctionItemRedis,
+  AuctionSort,
+  AuctionStatus,
+  BidRecord
+} from '../models/auctionItem'
+import { getTitlePrefixes } from '../utils/search'
+import { getDefaultIncrementTable } from '../utils/bidIncrement'
+import { getMinorUnitDigits } from '../utils/money'
+import { AuctionQueryIds, AuctionQueryOptions, AuctionStore } from './auctionStore'
+import { parseAuctionItem, serializeAuctionItem } from './itemHash'
+import { loadScript, runScript } from './scripts'
 
 const AUCTION_KEY_PREFIX = 'auction:item:'
+const BID_HISTORY_KEY_PREFIX = 'auction:bids:'
+const PROXY_BID_KEY_PREFIX = 'auction:proxy:'
+// Hidden bids of sealed-bid auctions, bidder -> { amount, timestamp }
+const SEALED_BID_KEY_PREFIX = 'auction:sealed:'
+// Sorted set of live auction IDs scored by endsAt, kept in step by the Lua scripts
+const EXPIRY_INDEX_KEY = 'auction:expiry'
+// Sorted set of scheduled auction IDs scored by startsAt, likewise
+const START_INDEX_KEY = 'auction:starts'
+// Query indexes over all auctions, kept in step by saveItem and the Lua scripts
+const INDEX_KEY_PREFIX = 'auction:index:'
+const ENDS_AT_INDEX_KEY = `${INDEX_KEY_PREFIX}ends-at`
+const CURRENT_BID_INDEX_KEY = `${INDEX_KEY_PREFIX}current-bid`
+const BID_COUNT_INDEX_KEY = `${INDEX_KEY_PREFIX}bid-count`
+const STATUS_INDEX_KEY_PREFIX = `${INDEX_KEY_PREFIX}status:`
+const TITLE_INDEX_KEY_PREFIX = `${INDEX_KEY_PREFIX}title:`
+// Items per currency, so price filters and sorts compare like amounts
+const CURRENCY_INDEX_KEY_PREFIX = `${INDEX_KEY_PREFIX}currency:`
+// Bumped when the index layout changes, so startup re-indexes existing items
+const INDEX_VERSION_KEY = `${INDEX_KEY_PREFIX}version`
+const INDEX_VERSION = '3'
+const QUERY_SCRATCH_KEY_PREFIX = 'auction:query:'
+// Ended auctions awaiting a result record, added by the Lua scripts that end them
+const SETTLEMENT_PENDING_KEY = 'auction:settlement:pending'
 
-// Load Lua script at module initialization
-const placeBidScript = readFileSync(
-  join(__dirname, '../lua/placeBid.lua'),
-  'utf-8'
-)
+const SORT_INDEX_KEYS: Record<AuctionSort, string> = {
+  ending_soonest: ENDS_AT_INDEX_KEY,
+  highest_bid: CURRENT_BID_INDEX_KEY,
+  most_bids: BID_COUNT_INDEX_KEY
+}
+const STATUSES: AuctionStatus[] = ['scheduled', 'live', 'ended', 'cancelled']
 
-/**
- * Converts Redis hash data to AuctionItem interface
- */
-function parseAuctionItem (redisData: AuctionItemRedis): AuctionItem {
-  return {
-    id: redisData.id,
-    title: redisData.title,
-    startingPrice: parseFloat(redisData.startingPrice),
-    currentBid: parseFloat(redisData.currentBid),
-    highestBidder: redisData.highestBidder,
-    endsAt: parseInt(redisData.endsAt, 10),
-    ended: redisData.ended === 'true',
-    version: parseInt(redisData.version, 10)
-  }
+// Load Lua scripts at module initialization
+const placeBidScript = loadScript('placeBid')
+const placeSealedBidScript = loadScript('placeSealedBid')
+const takeDutchPriceScript = loadScript('takeDutchPrice')
+const endAuctionScript = loadScript('endAuction')
+const updateItemScript = loadScript('updateItem')
+const startAuctionScript = loadScript('startAuction')
+const cancelAuctionScript = loadScript('cancelAuction')
+const retractBidScript = loadScript('retractBid')
+const queryItemsScript = loadScript('queryItems')
+const migrateMoneyScript = loadScript('migrateMoney')
+
+function statusIndexKey (status: AuctionStatus): string {
+  return `${STATUS_INDEX_KEY_PREFIX}${status}`
 }
 
 /**
- * Retrieves all auction items from Redis
+ * Retrieves auction items by ID, in the given order
+ * IDs with no stored item are skipped
  */
-export async function getAllItems (): Promise<AuctionItem[]> {
+export async function getItemsByIds (itemIds: string[]): Promise<AuctionItem[]> {
   const client = await getRedisClient()
-  const keys = await client.keys(`${AUCTION_KEY_PREFIX}*`)
 
-  if (keys.length === 0) {
-    return []
-  }
+  const hashes = await Promise.all(
+    itemIds.map(async itemId =>
+      (await client.hGetAll(`${AUCTION_KEY_PREFIX}${itemId}`)) as unknown as AuctionItemRedis
+    )
+  )
 
-  const items: AuctionItem[] = []
+  return hashes
+    .filter(redisData => redisData && redisData.id)
+    .map(parseAuctionItem)
+}
 
-  for (const key of keys) {
-    const redisData = (await client.hGetAll(key)) as unknown as AuctionItemRedis
-    if (redisData && redisData.id) {
-      items.push(parseAuctionItem(redisData))
-    }
-  }
+/**
+ * Retrieves all auction items from Redis, ending soonest first
+ */
+export async function getAllItems (): Promise<AuctionItem[]> {
+  const client = await getRedisClient()
+  const itemIds = await client.zRange(ENDS_AT_INDEX_KEY, 0, -1)
 
-  return items
+  return await getItemsByIds(itemIds)
 }
 
 /**
@@ -67,39 +108,247 @@ export async function getItemById (itemId: string): Promise<AuctionItem | null>
 }
 
 /**
- * Creates or updates an auction item in Redis
+ * Queues the commands that index an item for starting, expiry and queries
+ */
+function indexItem (
+  multi: ReturnType<RedisClientType['multi']>,
+  item: AuctionItem
+): void {
+  const status = item.status
+
+  if (status === 'scheduled') {
+    multi.zAdd(START_INDEX_KEY, { score: item.startsAt, value: item.id })
+  } else {
+    multi.zRem(START_INDEX_KEY, item.id)
+  }
+
+  if (status === 'live') {
+    multi.zAdd(EXPIRY_INDEX_KEY, { score: item.endsAt, value: item.id })
+  } else {
+    multi.zRem(EXPIRY_INDEX_KEY, item.id)
+  }
+
+  multi
+    .zAdd(ENDS_AT_INDEX_KEY, { score: item.endsAt, value: item.id })
+    .zAdd(CURRENT_BID_INDEX_KEY, { score: item.currentBid, value: item.id })
+    .zAdd(BID_COUNT_INDEX_KEY, { score: item.bidCount, value: item.id })
+    .sAdd(`${CURRENCY_INDEX_KEY_PREFIX}${item.currency}`, item.id)
+
+  for (const other of STATUSES) {
+    if (other === status) {
+      multi.sAdd(statusIndexKey(other), item.id)
+    } else {
+      multi.sRem(statusIndexKey(other), item.id)
+    }
+  }
+
+  for (const prefix of getTitlePrefixes(item.title)) {
+    multi.sAdd(`${TITLE_INDEX_KEY_PREFIX}${prefix}`, item.id)
+  }
+}
+
+/**
+ * Moves an item's title search entries from its old title to its new one
+ */
+async function reindexTitle (
+  itemId: string,
+  oldTitle: string,
+  newTitle: string
+): Promise<void> {
+  const client = await getRedisClient()
+  const newPrefixes = getTitlePrefixes(newTitle)
+  const multi = client.multi()
+
+  for (const prefix of getTitlePrefixes(oldTitle)) {
+    if (!newPrefixes.includes(prefix)) {
+      multi.sRem(`${TITLE_INDEX_KEY_PREFIX}${prefix}`, itemId)
+    }
+  }
+  for (const prefix of newPrefixes) {
+    multi.sAdd(`${TITLE_INDEX_KEY_PREFIX}${prefix}`, itemId)
+  }
+
+  await multi.exec()
+}
+
+/**
+ * Creates or updates an auction item in Redis along with its index entries
  */
 export async function saveItem (item: AuctionItem): Promise<void> {
   const client = await getRedisClient()
   const key = `${AUCTION_KEY_PREFIX}${item.id}`
+  const oldTitle = await client.hGet(key, 'title')
+
+  const multi = client.multi().hSet(key, serializeAuctionItem(item))
+  indexItem(multi, item)
+  await multi.exec()
+
+  if (oldTitle !== undefined && oldTitle !== item.title) {
+    await reindexTitle(item.id, oldTitle, item.title)
+  }
+}
 
-  await client.hSet(key, {
-    id: item.id,
-    title: item.title,
-    startingPrice: item.startingPrice.toString(),
-    currentBid: item.currentBid.toString(),
-    highestBidder: item.highestBidder,
-    endsAt: item.endsAt.toString(),
-    ended: item.ended.toString(),
-    version: item.version.toString()
+/**
+ * Atomically applies an admin edit, guarded by the item's version
+ * Returns status code: 1 (updated), 0 (version changed), -1 (not found),
+ * -2 (ended), -3 (startsAt changed after the auction started)
+ */
+export async function updateItem (
+  itemId: string,
+  expectedVersion: number,
+  changes: Partial<AuctionItem>,
+  removals: Array<keyof AuctionItem> = []
+): Promise<number> {
+  const client = await getRedisClient()
+  const key = `${AUCTION_KEY_PREFIX}${itemId}`
+  const oldTitle =
+    changes.title !== undefined ? await client.hGet(key, 'title') : undefined
+
+  const result = await runScript(client, updateItemScript, {
+    keys: [
+      key,
+      EXPIRY_INDEX_KEY,
+      ENDS_AT_INDEX_KEY,
+      CURRENT_BID_INDEX_KEY,
+      START_INDEX_KEY
+    ],
+    arguments: [
+      expectedVersion.toString(),
+      JSON.stringify(serializeAuctionItem(changes)),
+      JSON.stringify(removals),
+      itemId
+    ]
   })
+
+  if (result === 1 && oldTitle !== undefined && changes.title !== undefined) {
+    await reindexTitle(itemId, oldTitle, changes.title)
+  }
+
+  return result as number
+}
+
+/**
+ * Atomically opens a scheduled auction for bidding if startsAt has passed
+ * Returns false if nothing changed
+ */
+export async function startAuction (
+  itemId: string,
+  serverTime: number
+): Promise<boolean> {
+  const client = await getRedisClient()
+  const key = `${AUCTION_KEY_PREFIX}${itemId}`
+
+  const result = await runScript(client, startAuctionScript, {
+    keys: [
+      key,
+      START_INDEX_KEY,
+      EXPIRY_INDEX_KEY,
+      statusIndexKey('scheduled'),
+      statusIndexKey('live')
+    ],
+    arguments: [serverTime.toString(), itemId]
+  })
+
+  return result === 1
+}
+
+/**
+ * Atomically cancels a scheduled or live auction and queues its settlement
+ * Returns false if the item is missing, ended or already cancelled
+ */
+export async function cancelAuction (
+  itemId: string,
+  serverTime: number
+): Promise<boolean> {
+  const client = await getRedisClient()
+  const key = `${AUCTION_KEY_PREFIX}${itemId}`
+
+  const result = await runScript(client, cancelAuctionScript, {
+    keys: [
+      key,
+      EXPIRY_INDEX_KEY,
+      START_INDEX_KEY,
+      statusIndexKey('scheduled'),
+      statusIndexKey('live'),
+      statusIndexKey('cancelled'),
+      SETTLEMENT_PENDING_KEY
+    ],
+    arguments: [itemId, serverTime.toString()]
+  })
+
+  return result === 1
 }
 
 /**
  * Atomically places a bid using Lua script
- * Returns status code: 1 (accepted), 0 (too low), -1 (ended)
+ * bidAmount is in minor units of currency, the item's currency; when isProxy
+ * is set, it is the bidder's hidden maximum
+ * Returns status code: 3 (bought now), 2 (outbid by proxy), 1 (accepted),
+ * 0 (too low), -1 (ended), -2 (below increment), -3 (not started), with the
+ * history entries the bid accepted, oldest first
  */
 export async function placeBidAtomic (
+  itemId: string,
+  bidAmount: number,
+  bidderName: string,
+  serverTime: number,
+  currency: string,
+  isProxy = false
+): Promise<{ status: number, accepted: BidRecord[] }> {
+  const client = await getRedisClient()
+  const key = `${AUCTION_KEY_PREFIX}${itemId}`
+  const historyKey = `${BID_HISTORY_KEY_PREFIX}${itemId}`
+  const proxyKey = `${PROXY_BID_KEY_PREFIX}${itemId}`
+
+  const [status, ...accepted] = (await runScript(client, placeBidScript, {
+    keys: [
+      key,
+      historyKey,
+      proxyKey,
+      EXPIRY_INDEX_KEY,
+      ENDS_AT_INDEX_KEY,
+      CURRENT_BID_INDEX_KEY,
+      BID_COUNT_INDEX_KEY,
+      statusIndexKey('live'),
+      statusIndexKey('ended'),
+      SETTLEMENT_PENDING_KEY,
+      START_INDEX_KEY,
+      statusIndexKey('scheduled')
+    ],
+    arguments: [
+      bidAmount.toString(),
+      bidderName,
+      serverTime.toString(),
+      config.recordRejectedBids ? '1' : '0',
+      isProxy ? '1' : '0',
+      JSON.stringify(getDefaultIncrementTable(currency))
+    ]
+  })) as [number, ...string[]]
+
+  return {
+    status,
+    accepted: accepted.map(entry => JSON.parse(entry) as BidRecord)
+  }
+}
+
+/**
+ * Atomically records a hidden bid on a sealed-bid auction
+ * Returns status code: 1 (sealed), 0 (too low), -1 (ended), -3 (not started)
+ */
+export async function placeSealedBid (
   itemId: string,
   bidAmount: number,
   bidderName: string,
   serverTime: number
 ): Promise<number> {
   const client = await getRedisClient()
-  const key = `${AUCTION_KEY_PREFIX}${itemId}`
 
-  const result = await client.eval(placeBidScript, {
-    keys: [key],
+  const result = await runScript(client, placeSealedBidScript, {
+    keys: [
+      `${AUCTION_KEY_PREFIX}${itemId}`,
+      `${SEALED_BID_KEY_PREFIX}${itemId}`,
+      BID_COUNT_INDEX_KEY
+    ],
     arguments: [bidAmount.toString(), bidderName, serverTime.toString()]
   })
 
@@ -107,23 +356,436 @@ export async function placeBidAtomic (
 }
 
 /**
- * Marks an auction as ended
+ * Atomically takes a Dutch auction at its current clock price, if bidAmount
+ * covers it, ending the auction
+ * Returns status code: 3 (taken), 0 (too low), -1 (ended), -3 (not started)
  */
-export async function markAuctionEnded (itemId: string): Promise<void> {
+export async function takeDutchPrice (
+  itemId: string,
+  bidAmount: number,
+  bidderName: string,
+  serverTime: number
+): Promise<number> {
+  const client = await getRedisClient()
+
+  const result = await runScript(client, takeDutchPriceScript, {
+    keys: [
+      `${AUCTION_KEY_PREFIX}${itemId}`,
+      `${BID_HISTORY_KEY_PREFIX}${itemId}`,
+      EXPIRY_INDEX_KEY,
+      CURRENT_BID_INDEX_KEY,
+      BID_COUNT_INDEX_KEY,
+      statusIndexKey('live'),
+      statusIndexKey('ended'),
+      SETTLEMENT_PENDING_KEY
+    ],
+    arguments: [bidAmount.toString(), bidderName, serverTime.toString()]
+  })
+
+  return result as number
+}
+
+/**
+ * Atomically voids an accepted bid (identified by its version) and restores
+ * the highest remaining bid, repricing it if a proxy placed it
+ * Returns status code: 1 (retracted), 0 (no such accepted bid), -1 (not
+ * found), -2 (ended), with the voided history entry when retracted
+ */
+export async function retractBid (
+  itemId: string,
+  bidVersion: number,
+  retractedBy: string,
+  reason: string,
+  serverTime: number,
+  currency: string
+): Promise<{ status: number, bid?: BidRecord }> {
+  const client = await getRedisClient()
+
+  const [status, entry] = (await runScript(client, retractBidScript, {
+    keys: [
+      `${AUCTION_KEY_PREFIX}${itemId}`,
+      `${BID_HISTORY_KEY_PREFIX}${itemId}`,
+      `${PROXY_BID_KEY_PREFIX}${itemId}`,
+      CURRENT_BID_INDEX_KEY,
+      BID_COUNT_INDEX_KEY
+    ],
+    arguments: [
+      bidVersion.toString(),
+      retractedBy,
+      reason,
+      serverTime.toString(),
+      JSON.stringify(getDefaultIncrementTable(currency))
+    ]
+  })) as [number, string?]
+
+  return {
+    status,
+    bid: entry ? (JSON.parse(entry) as BidRecord) : undefined
+  }
+}
+
+/**
+ * Retrieves a page of an item's bid history, most recent first
+ */
+export async function getBidHistory (
+  itemId: string,
+  offset: number,
+  limit: number
+): Promise<{ bids: BidRecord[], total: number }> {
+  const client = await getRedisClient()
+  const key = `${BID_HISTORY_KEY_PREFIX}${itemId}`
+
+  const [entries, total] = await Promise.all([
+    client.lRange(key, offset, offset + limit - 1),
+    client.lLen(key)
+  ])
+
+  return {
+    bids: entries.map(entry => JSON.parse(entry) as BidRecord),
+    total
+  }
+}
+
+/**
+ * Atomically marks an auction as ended if it is still due at serverTime
+ * Reveals sealed bids, records whether the reserve was met and queues
+ * settlement; returns false if nothing changed
+ */
+export async function markAuctionEnded (
+  itemId: string,
+  serverTime: number
+): Promise<boolean> {
   const client = await getRedisClient()
   const key = `${AUCTION_KEY_PREFIX}${itemId}`
 
-  await client.hSet(key, 'ended', 'true')
+  const result = await runScript(client, endAuctionScript, {
+    keys: [
+      key,
+      EXPIRY_INDEX_KEY,
+      statusIndexKey('live'),
+      statusIndexKey('ended'),
+      SETTLEMENT_PENDING_KEY,
+      `${SEALED_BID_KEY_PREFIX}${itemId}`,
+      `${BID_HISTORY_KEY_PREFIX}${itemId}`,
+      CURRENT_BID_INDEX_KEY
+    ],
+    arguments: [serverTime.toString(), itemId]
+  })
+
+  return result === 1
+}
+
+/**
+ * Retrieves IDs of live auctions whose endsAt is before serverTime,
+ * earliest first
+ */
+export async function getDueAuctionIds (
+  serverTime: number,
+  limit: number
+): Promise<string[]> {
+  const client = await getRedisClient()
+
+  return await client.zRangeByScore(EXPIRY_INDEX_KEY, '-inf', `(${serverTime}`, {
+    LIMIT: { offset: 0, count: limit }
+  })
+}
+
+/**
+ * Returns the earliest endsAt among live auctions, or null if there are none
+ */
+export async function getNextExpiryTime (): Promise<number | null> {
+  const client = await getRedisClient()
+  const [next] = await client.zRangeWithScores(EXPIRY_INDEX_KEY, 0, 0)
+
+  return next ? next.score : null
+}
+
+/**
+ * Retrieves live auctions whose endsAt is after from and at or before to,
+ * earliest first, with their endsAt
+ */
+export async function getAuctionsEndingBetween (
+  from: number,
+  to: number
+): Promise<Array<{ id: string, endsAt: number }>> {
+  const client = await getRedisClient()
+  const entries = await client.zRangeByScoreWithScores(EXPIRY_INDEX_KEY, `(${from}`, to)
+
+  return entries.map(({ value, score }) => ({ id: value, endsAt: score }))
+}
+
+/**
+ * Returns the earliest endsAt after serverTime among live auctions, or null
+ * if there is none
+ */
+export async function getNextExpiryTimeAfter (serverTime: number): Promise<number | null> {
+  const client = await getRedisClient()
+  const [next] = await client.zRangeByScoreWithScores(
+    EXPIRY_INDEX_KEY,
+    `(${serverTime}`,
+    '+inf',
+    { LIMIT: { offset: 0, count: 1 } }
+  )
+
+  return next ? next.score : null
+}
+
+/**
+ * Retrieves IDs of scheduled auctions whose startsAt is at or before
+ * serverTime, earliest first
+ */
+export async function getDueStartIds (
+  serverTime: number,
+  limit: number
+): Promise<string[]> {
+  const client = await getRedisClient()
+
+  return await client.zRangeByScore(START_INDEX_KEY, '-inf', serverTime, {
+    LIMIT: { offset: 0, count: limit }
+  })
+}
+
+/**
+ * Returns the earliest startsAt among scheduled auctions, or null if there
+ * are none
+ */
+export async function getNextStartTime (): Promise<number | null> {
+  const client = await getRedisClient()
+  const [next] = await client.zRangeWithScores(START_INDEX_KEY, 0, 0)
+
+  return next ? next.score : null
+}
+
+/**
+ * Counts the auctions in each lifecycle status using the status indexes
+ */
+export async function countItemsByStatus (): Promise<Record<AuctionStatus, number>> {
+  const client = await getRedisClient()
+  const counts = await Promise.all(
+    STATUSES.map(async status => await client.sCard(statusIndexKey(status)))
+  )
+
+  return Object.fromEntries(
+    STATUSES.map((status, index) => [status, counts[index]])
+  ) as Record<AuctionStatus, number>
+}
+
+/**
+ * Filters, sorts and pages auction IDs using the query indexes
+ * after is the sort score and ID of the last item on the previous page
+ */
+export async function queryItemIds (
+  options: AuctionQueryOptions
+): Promise<AuctionQueryIds> {
+  const client = await getRedisClient()
+  const scratchKey = `${QUERY_SCRATCH_KEY_PREFIX}${randomUUID()}`
+
+  const filterKeys = options.titlePrefixes.map(
+    prefix => `${TITLE_INDEX_KEY_PREFIX}${prefix}`
+  )
+  if (options.currency) {
+    filterKeys.unshift(`${CURRENCY_INDEX_KEY_PREFIX}${options.currency}`)
+  }
+  if (options.status) {
+    filterKeys.unshift(statusIndexKey(options.status))
+  }
+
+  const [minEndsAt, maxEndsAt] = options.endsAtRange ?? []
+  const [minPrice, maxPrice] = options.priceRange ?? []
+
+  const result = (await runScript(client, queryItemsScript, {
+    keys: [
+      SORT_INDEX_KEYS[options.sort],
+      `${scratchKey}:result`,
+      ENDS_AT_INDEX_KEY,
+      `${scratchKey}:ends-at`,
+      CURRENT_BID_INDEX_KEY,
+      `${scratchKey}:price`,
+      ...filterKeys
+    ],
+    arguments: [
+      options.sort === 'ending_soonest' ? '0' : '1',
+      minEndsAt?.toString() ?? '-inf',
+      maxEndsAt?.toString() ?? '+inf',
+      minPrice?.toString() ?? '-inf',
+      maxPrice?.toString() ?? '+inf',
+      options.after?.score.toString() ?? '',
+      options.after?.id ?? '',
+      options.limit.toString()
+    ]
+  })) as Array<number | string>
+
+  const [total, more, ...page] = result
+  const entries: Array<{ id: string, score: number }> = []
+  for (let i = 0; i < page.length; i += 2) {
+    entries.push({ id: String(page[i]), score: parseFloat(String(page[i + 1])) })
+  }
+
+  return { entries, total: Number(total), hasMore: more === '1' }
+}
+
+/**
+ * Retrieves up to limit IDs of ended or cancelled auctions awaiting a result record
+ */
+export async function getPendingSettlementIds (limit: number): Promise<string[]> {
+  const client = await getRedisClient()
+
+  return await client.sRandMemberCount(SETTLEMENT_PENDING_KEY, limit)
+}
+
+/**
+ * Drops an auction from the settlement queue
+ */
+export async function discardPendingSettlement (itemId: string): Promise<void> {
+  const client = await getRedisClient()
+
+  await client.sRem(SETTLEMENT_PENDING_KEY, itemId)
 }
 
 /**
- * Deletes all auction items (used for testing/seeding)
+ * Counts accepted bids in an item's history
+ * Only used to index items stored before bidCount was tracked
+ */
+async function countAcceptedBids (itemId: string): Promise<number> {
+  const client = await getRedisClient()
+  const entries = await client.lRange(`${BID_HISTORY_KEY_PREFIX}${itemId}`, 0, -1)
+
+  return entries.filter(
+    entry => (JSON.parse(entry) as BidRecord).status === 'BID_ACCEPTED'
+  ).length
+}
+
+/**
+ * Indexes every stored auction if the index layout is missing or outdated
+ * Covers items written before the indexes existed, and stores the fields
+ * the Lua scripts rely on (status, bidCount) for items written before them;
+ * returns how many items were indexed (0 when the indexes are already current)
+ */
+export async function ensureIndexes (): Promise<number> {
+  const client = await getRedisClient()
+
+  if ((await client.get(INDEX_VERSION_KEY)) === INDEX_VERSION) {
+    return 0
+  }
+
+  // Status sets are rebuilt from scratch, dropping ones from older layouts
+  for await (const key of client.scanIterator({
+    MATCH: `${STATUS_INDEX_KEY_PREFIX}*`,
+    COUNT: 100
+  })) {
+    await client.del(key)
+  }
+
+  let indexed = 0
+  for await (const key of client.scanIterator({
+    MATCH: `${AUCTION_KEY_PREFIX}*`,
+    COUNT: 100
+  })) {
+    const redisData = (await client.hGetAll(key)) as unknown as AuctionItemRedis
+    if (!redisData || !redisData.id) {
+      continue
+    }
+
+    const item = parseAuctionItem(redisData)
+    const multi = client.multi()
+    if (redisData.status === undefined) {
+      multi.hSet(key, 'status', item.status)
+    }
+    if (redisData.bidCount === undefined) {
+      item.bidCount = await countAcceptedBids(item.id)
+      multi.hSet(key, 'bidCount', item.bidCount.toString())
+    }
+    indexItem(multi, item)
+    await multi.exec()
+    indexed++
+  }
+
+  await client.set(INDEX_VERSION_KEY, INDEX_VERSION)
+
+  return indexed
+}
+
+/**
+ * Converts items stored with decimal amounts to integer minor units
+ * Such items predate currencies and are assigned DEFAULT_CURRENCY; returns
+ * how many items were converted (0 once every item has a currency)
+ */
+export async function migrateToMinorUnits (): Promise<number> {
+  const client = await getRedisClient()
+  const factor = 10 ** getMinorUnitDigits(config.defaultCurrency)
+
+  let migrated = 0
+  for await (const key of client.scanIterator({
+    MATCH: `${AUCTION_KEY_PREFIX}*`,
+    COUNT: 100
+  })) {
+    const itemId = key.slice(AUCTION_KEY_PREFIX.length)
+    const result = await runScript(client, migrateMoneyScript, {
+      keys: [
+        key,
+        `${BID_HISTORY_KEY_PREFIX}${itemId}`,
+        `${PROXY_BID_KEY_PREFIX}${itemId}`,
+        CURRENT_BID_INDEX_KEY
+      ],
+      arguments: [config.defaultCurrency, factor.toString()]
+    })
+    if (result === 1) {
+      migrated++
+    }
+  }
+
+  return migrated
+}
+
+/**
+ * Deletes all auction items, bids, indexes and pending settlements
+ * (used for testing/seeding)
  */
 export async function clearAllItems (): Promise<void> {
   const client = await getRedisClient()
-  const keys = await client.keys(`${AUCTION_KEY_PREFIX}*`)
+  const keys = [
+    ...(await client.keys(`${AUCTION_KEY_PREFIX}*`)),
+    ...(await client.keys(`${BID_HISTORY_KEY_PREFIX}*`)),
+    ...(await client.keys(`${PROXY_BID_KEY_PREFIX}*`)),
+    ...(await client.keys(`${SEALED_BID_KEY_PREFIX}*`)),
+    ...(await client.keys(`${INDEX_KEY_PREFIX}*`)),
+    EXPIRY_INDEX_KEY,
+    START_INDEX_KEY,
+    SETTLEMENT_PENDING_KEY
+  ]
 
   if (keys.length > 0) {
     await client.del(keys)
   }
 }
+
+/**
+ * The Redis auction store, backed by the Lua scripts in src/lua
+ * ensureIndexes and migrateToMinorUnits are Redis upgrades, run at startup
+ */
+export const redisAuctionStore: AuctionStore = {
+  getItemsByIds,
+  getAllItems,
+  getItemById,
+  saveItem,
+  updateItem,
+  startAuction,
+  cancelAuction,
+  placeBidAtomic,
+  placeSealedBid,
+  takeDutchPrice,
+  retractBid,
+  getBidHistory,
+  markAuctionEnded,
+  getDueAuctionIds,
+  getNextExpiryTime,
+  getAuctionsEndingBetween,
+  getNextExpiryTimeAfter,
+  getDueStartIds,
+  getNextStartTime,
+  countItemsByStatus,
+  queryItemIds,
+  getPendingSettlementIds,
+  discardPendingSettlement,
+  clearAllItems
+}
@@ -0,0 +1,488 @@
+import { after, beforeEach, describe, it } from 'node:test'
+import assert from 'assert'
+import { AuctionItem, BidRecord } from '../models/auctionItem'
+import { closeRedisClient } from '../config/redis'
+import { AuctionStore } from './auctionStore'
+import { redisAuctionStore } from './auction.store'
+import { createMemoryAuctionStore } from './memoryAuction.store'
+
+// Conformance suite every AuctionStore implementation must pass
+// The Redis run deletes every auction in the configured Redis, so it only
+// runs when TEST_REDIS=true
+
+const NOW = 1_700_000_000_000
+const MINUTE = 60_000
+const HOUR = 60 * MINUTE
+
+function makeItem (overrides: Partial<AuctionItem> = {}): AuctionItem {
+  return {
+    id: 'item-1',
+    title: 'Vintage Camera',
+    auctionType: 'english',
+    currency: 'USD',
+    startingPrice: 1000,
+    currentBid: 1000,
+    highestBidder: '',
+    status: 'live',
+    startsAt: NOW - HOUR,
+    endsAt: NOW + HOUR,
+    originalEndsAt: NOW + HOUR,
+    softCloseWindowMs: 0,
+    softCloseExtensionMs: 0,
+    softCloseMaxExtensionMs: 0,
+    bidIncrements: [{ upTo: 10000, increment: 100 }, { increment: 500 }],
+    ended: false,
+    version: 1,
+    bidCount: 0,
+    ...overrides
+  }
+}
+
+function runConformance (name: string, store: AuctionStore, options: { skip?: string } = {}): void {
+  describe(`${name} auction store`, options, () => {
+    beforeEach(async () => {
+      await store.clearAllItems()
+    })
+
+    async function getItem (itemId = 'item-1'): Promise<AuctionItem> {
+      const item = await store.getItemById(itemId)
+      assert.ok(item, `${itemId} should exist`)
+      return item
+    }
+
+    async function bid (amount: number, bidder: string, isProxy = false, serverTime = NOW): Promise<number> {
+      return (await store.placeBidAtomic('item-1', amount, bidder, serverTime, 'USD', isProxy)).status
+    }
+
+    describe('items', () => {
+      it('stores items without the derived fields', async () => {
+        await store.saveItem(makeItem({ bidHistory: [], nextMinimumBid: 1100, winner: null }))
+
+        const item = await getItem()
+        assert.equal(item.title, 'Vintage Camera')
+        assert.equal(item.currentBid, 1000)
+        assert.deepStrictEqual(item.bidIncrements, makeItem().bidIncrements)
+        assert.equal(item.bidHistory, undefined)
+        assert.equal(item.nextMinimumBid, undefined)
+        assert.equal(item.winner, undefined)
+        assert.equal(await store.getItemById('missing'), null)
+      })
+
+      it('lists items ending soonest first and skips missing IDs', async () => {
+        await store.saveItem(makeItem({ id: 'late', endsAt: NOW + 2 * HOUR }))
+        await store.saveItem(makeItem({ id: 'early', endsAt: NOW + MINUTE }))
+
+        assert.deepStrictEqual((await store.getAllItems()).map(item => item.id), ['early', 'late'])
+        assert.deepStrictEqual(
+          (await store.getItemsByIds(['late', 'missing', 'early'])).map(item => item.id),
+          ['late', 'early']
+        )
+      })
+
+      it('applies edits guarded by version', async () => {
+        await store.saveItem(makeItem())
+
+        assert.equal(await store.updateItem('item-1', 0, { title: 'Stale' }), 0)
+        assert.equal(await store.updateItem('item-1', 1, { title: 'Brass Telescope' }), 1)
+        assert.equal(await store.updateItem('item-1', 2, { startsAt: NOW }), -3)
+        assert.equal(await store.updateItem('missing', 1, { title: 'Nothing' }), -1)
+
+        const item = await getItem()
+        assert.equal(item.title, 'Brass Telescope')
+        assert.equal(item.version, 2)
+
+        const query = { sort: 'ending_soonest' as const, limit: 10 }
+        assert.equal((await store.queryItemIds({ ...query, titlePrefixes: ['telescope'] })).total, 1)
+        assert.equal((await store.queryItemIds({ ...query, titlePrefixes: ['camera'] })).total, 0)
+
+        await store.cancelAuction('item-1', NOW)
+        assert.equal(await store.updateItem('item-1', 3, { title: 'Too late' }), -2)
+      })
+    })
+
+    describe('english bids', () => {
+      beforeEach(async () => {
+        await store.saveItem(makeItem())
+      })
+
+      it('accepts a bid that clears the increment', async () => {
+        assert.equal(await bid(1100, 'alice'), 1)
+
+        const item = await getItem()
+        assert.equal(item.currentBid, 1100)
+        assert.equal(item.highestBidder, 'alice')
+        assert.equal(item.version, 2)
+        assert.equal(item.bidCount, 1)
+
+        const { bids, total } = await store.getBidHistory('item-1', 0, 10)
+        assert.equal(total, 1)
+        assert.deepStrictEqual(bids[0], {
+          amount: 1100,
+          bidderName: 'alice',
+          timestamp: NOW,
+          version: 2,
+          status: 'BID_ACCEPTED'
+        })
+      })
+
+      it('rejects bids at or below the current bid, or below the increment', async () => {
+        assert.equal(await bid(1000, 'alice'), 0)
+        assert.equal(await bid(1050, 'alice'), -2)
+
+        const item = await getItem()
+        assert.equal(item.currentBid, 1000)
+        assert.equal(item.version, 1)
+      })
+
+      it('accepts exactly one of several simultaneous bids for the same amount', async () => {
+        const bidders = Array.from({ length: 10 }, (_, index) => `bidder-${index}`)
+        const results = await Promise.all(bidders.map(async bidder => await bid(1100, bidder)))
+
+        assert.equal(results.filter(result => result === 1).length, 1)
+        assert.equal(results.filter(result => result === 0).length, bidders.length - 1)
+
+        const item = await getItem()
+        assert.equal(item.bidCount, 1)
+        assert.equal(item.highestBidder, bidders[results.indexOf(1)])
+      })
+
+      it('defends the leader with their proxy maximum', async () => {
+        assert.equal(await bid(5000, 'alice', true), 1)
+        assert.equal((await getItem()).currentBid, 1100)
+
+        assert.equal(await bid(2000, 'bob'), 2)
+
+        const item = await getItem()
+        assert.equal(item.currentBid, 2100)
+        assert.equal(item.highestBidder, 'alice')
+        assert.equal(item.bidCount, 3)
+
+        const { bids } = await store.getBidHistory('item-1', 0, 2)
+        assert.deepStrictEqual(
+          bids.map(({ bidderName, amount, autoBid }) => ({ bidderName, amount, autoBid })),
+          [
+            { bidderName: 'alice', amount: 2100, autoBid: true },
+            { bidderName: 'bob', amount: 2000, autoBid: undefined }
+          ]
+        )
+      })
+
+      it('returns the history entries each bid accepted, oldest first', async () => {
+        const summarize = (result: { status: number, accepted: BidRecord[] }): unknown => ({
+          status: result.status,
+          accepted: result.accepted.map(({ bidderName, amount }) => ({ bidderName, amount }))
+        })
+        const place = async (amount: number, bidder: string, isProxy = false): Promise<unknown> =>
+          summarize(await store.placeBidAtomic('item-1', amount, bidder, NOW, 'USD', isProxy))
+
+        assert.deepStrictEqual(await place(5000, 'alice', true), {
+          status: 1,
+          accepted: [{ bidderName: 'alice', amount: 1100 }]
+        })
+        assert.deepStrictEqual(await place(6000, 'alice', true), { status: 1, accepted: [] })
+        assert.deepStrictEqual(await place(2000, 'bob'), {
+          status: 2,
+          accepted: [
+            { bidderName: 'bob', amount: 2000 },
+            { bidderName: 'alice', amount: 2100 }
+          ]
+        })
+        assert.deepStrictEqual(await place(2000, 'bob'), { status: 0, accepted: [] })
+      })
+
+      it('ends the auction at the buy-now price', async () => {
+        await store.saveItem(makeItem({ buyNowPrice: 9000 }))
+
+        assert.equal(await bid(9500, 'alice'), 3)
+
+        const item = await getItem()
+        assert.equal(item.currentBid, 9000)
+        assert.equal(item.status, 'ended')
+        assert.equal(item.endReason, 'BOUGHT_NOW')
+        assert.deepStrictEqual(await store.getPendingSettlementIds(10), ['item-1'])
+        assert.equal(await store.getNextExpiryTime(), null)
+      })
+
+      it('retracts a bid and restores the highest remaining one', async () => {
+        await bid(1100, 'alice')
+        await bid(1200, 'bob')
+
+        const { status, bid: retracted } = await store.retractBid('item-1', 3, 'admin', 'Typo', NOW, 'USD')
+        assert.equal(status, 1)
+        assert.equal(retracted?.status, 'BID_RETRACTED')
+        assert.equal(retracted?.retractReason, 'Typo')
+
+        const item = await getItem()
+        assert.equal(item.currentBid, 1100)
+        assert.equal(item.highestBidder, 'alice')
+        assert.equal(item.bidCount, 1)
+        assert.equal((await store.retractBid('item-1', 3, 'admin', 'Typo', NOW, 'USD')).status, 0)
+      })
+
+      it('reprices a proxy lead that a retracted bid forced up', async () => {
+        await bid(5000, 'alice', true) // alice leads at 1100
+        await bid(1500, 'carol') // alice counters at 1600
+        await bid(3000, 'bob') // version 5; alice counters at 3100
+
+        assert.equal((await getItem()).currentBid, 3100)
+        assert.equal((await store.retractBid('item-1', 5, 'admin', 'Shill', NOW, 'USD')).status, 1)
+
+        const item = await getItem()
+        assert.equal(item.highestBidder, 'alice')
+        assert.equal(item.currentBid, 1600)
+        assert.equal(item.bidCount, 4)
+      })
+    })
+
+    describe('soft close', () => {
+      it('extends the auction for bids inside the window, up to the cap', async () => {
+        await store.saveItem(makeItem({
+          endsAt: NOW + 10_000,
+          originalEndsAt: NOW + 10_000,
+          softCloseWindowMs: MINUTE,
+          softCloseExtensionMs: 2 * MINUTE,
+          softCloseMaxExtensionMs: 3 * MINUTE
+        }))
+
+        await bid(1100, 'alice')
+        assert.equal((await getItem()).endsAt, NOW + 2 * MINUTE)
+        assert.equal(await store.getNextExpiryTime(), NOW + 2 * MINUTE)
+
+        await bid(1200, 'bob', false, NOW + 2 * MINUTE)
+        assert.equal((await getItem()).endsAt, NOW + 10_000 + 3 * MINUTE)
+      })
+    })
+
+    describe('lifecycle', () => {
+      it('rejects bids before startsAt and starts on the first bid after it', async () => {
+        await store.saveItem(makeItem({ status: 'scheduled', startsAt: NOW + MINUTE }))
+
+        assert.equal(await bid(1100, 'alice'), -3)
+        assert.equal(await bid(1100, 'alice', false, NOW + MINUTE), 1)
+
+        const item = await getItem()
+        assert.equal(item.status, 'live')
+        assert.equal(await store.getNextStartTime(), null)
+        assert.equal((await store.countItemsByStatus()).live, 1)
+      })
+
+      it('starts scheduled auctions once due', async () => {
+        await store.saveItem(makeItem({ status: 'scheduled', startsAt: NOW + MINUTE }))
+
+        assert.deepStrictEqual(await store.getDueStartIds(NOW, 10), [])
+        assert.equal(await store.startAuction('item-1', NOW), false)
+        assert.equal(await store.getNextStartTime(), NOW + MINUTE)
+        assert.deepStrictEqual(await store.getDueStartIds(NOW + MINUTE, 10), ['item-1'])
+        assert.equal(await store.startAuction('item-1', NOW + MINUTE), true)
+        assert.equal(await store.startAuction('item-1', NOW + MINUTE), false)
+        assert.equal(await store.getNextExpiryTime(), NOW + HOUR)
+      })
+
+      it('cancels scheduled or live auctions once', async () => {
+        await store.saveItem(makeItem())
+
+        assert.equal(await store.cancelAuction('item-1', NOW), true)
+        assert.equal(await store.cancelAuction('item-1', NOW), false)
+
+        const item = await getItem()
+        assert.equal(item.status, 'cancelled')
+        assert.equal(item.endReason, 'CANCELLED')
+        assert.equal(await bid(1100, 'alice'), -1)
+        assert.deepStrictEqual(await store.getPendingSettlementIds(10), ['item-1'])
+      })
+
+      it('ends due auctions once, recording whether the reserve was met', async () => {
+        await store.saveItem(makeItem({ reservePrice: 5000 }))
+        await bid(1100, 'alice')
+
+        assert.deepStrictEqual(await store.getDueAuctionIds(NOW + HOUR, 10), [])
+        assert.equal(await store.markAuctionEnded('item-1', NOW + HOUR), false)
+        assert.deepStrictEqual(await store.getDueAuctionIds(NOW + HOUR + 1, 10), ['item-1'])
+        assert.equal(await store.markAuctionEnded('item-1', NOW + HOUR + 1), true)
+        assert.equal(await store.markAuctionEnded('item-1', NOW + HOUR + 1), false)
+
+        const item = await getItem()
+        assert.equal(item.status, 'ended')
+        assert.equal(item.endReason, 'RESERVE_NOT_MET')
+        assert.equal(item.endedAt, NOW + HOUR + 1)
+        assert.deepStrictEqual(await store.getPendingSettlementIds(10), ['item-1'])
+
+        await store.discardPendingSettlement('item-1')
+        assert.deepStrictEqual(await store.getPendingSettlementIds(10), [])
+      })
+
+      it('rejects a late bid and leaves the auction for the expiry worker', async () => {
+        await store.saveItem(makeItem({ endsAt: NOW - 1 }))
+
+        assert.equal(await bid(1100, 'alice'), -1)
+
+        const item = await getItem()
+        assert.equal(item.status, 'live')
+        assert.equal(item.currentBid, 1000)
+        assert.deepStrictEqual(await store.getDueAuctionIds(NOW, 10), ['item-1'])
+        assert.deepStrictEqual(await store.getPendingSettlementIds(10), [])
+
+        assert.equal(await store.markAuctionEnded('item-1', NOW), true)
+        assert.equal((await getItem()).endReason, 'TIME_EXPIRED')
+      })
+
+      it('finds auctions crossing a time window', async () => {
+        await store.saveItem(makeItem({ id: 'soon', endsAt: NOW + MINUTE }))
+        await store.saveItem(makeItem({ id: 'later', endsAt: NOW + HOUR }))
+
+        assert.deepStrictEqual(await store.getAuctionsEndingBetween(NOW, NOW + MINUTE), [
+          { id: 'soon', endsAt: NOW + MINUTE }
+        ])
+        assert.equal(await store.getNextExpiryTimeAfter(NOW + MINUTE), NOW + HOUR)
+        assert.equal(await store.getNextExpiryTimeAfter(NOW + HOUR), null)
+      })
+    })
+
+    describe('sealed and Dutch auctions', () => {
+      it('reveals sealed bids at the second price', async () => {
+        await store.saveItem(makeItem({ auctionType: 'sealed_second_price' }))
+
+        assert.equal(await store.placeSealedBid('item-1', 500, 'carol', NOW), 0)
+        assert.equal(await store.placeSealedBid('item-1', 3000, 'alice', NOW), 1)
+        assert.equal(await store.placeSealedBid('item-1', 2000, 'bob', NOW + 1), 1)
+        assert.equal(await store.placeSealedBid('item-1', 2500, 'alice', NOW + 2), 0)
+        assert.equal(await store.placeSealedBid('item-1', 2200, 'bob', NOW + 3), 1)
+
+        const sealed = await getItem()
+        assert.equal(sealed.currentBid, 1000)
+        assert.equal(sealed.bidCount, 2)
+
+        assert.equal(await store.markAuctionEnded('item-1', NOW + HOUR + 1), true)
+
+        const item = await getItem()
+        assert.equal(item.highestBidder, 'alice')
+        assert.equal(item.currentBid, 2200)
+        const { bids } = await store.getBidHistory('item-1', 0, 10)
+        assert.deepStrictEqual(
+          bids.map(({ bidderName, amount, status }) => ({ bidderName, amount, status })),
+          [
+            { bidderName: 'bob', amount: 2200, status: 'BID_SEALED' },
+            { bidderName: 'alice', amount: 3000, status: 'BID_SEALED' }
+          ]
+        )
+      })
+
+      it('sells a Dutch auction at the clock price', async () => {
+        await store.saveItem(makeItem({
+          auctionType: 'dutch',
+          startingPrice: 10000,
+          currentBid: 10000,
+          startsAt: NOW - 2.5 * MINUTE,
+          floorPrice: 4000,
+          priceDrop: 1000,
+          priceDropIntervalMs: MINUTE
+        }))
+
+        assert.equal(await store.takeDutchPrice('item-1', 7000, 'alice', NOW), 0)
+        assert.equal(await store.takeDutchPrice('item-1', 9000, 'alice', NOW), 3)
+        assert.equal(await store.takeDutchPrice('item-1', 9000, 'bob', NOW), -1)
+
+        const item = await getItem()
+        assert.equal(item.currentBid, 8000)
+        assert.equal(item.highestBidder, 'alice')
+        assert.equal(item.endReason, 'TAKEN')
+      })
+    })
+
+    describe('queries', () => {
+      beforeEach(async () => {
+        await store.saveItem(makeItem({ id: 'a', currentBid: 3000, endsAt: NOW + 3 * MINUTE }))
+        await store.saveItem(makeItem({ id: 'b', currentBid: 2000, endsAt: NOW + MINUTE }))
+        await store.saveItem(makeItem({ id: 'c', currentBid: 2000, endsAt: NOW + 2 * MINUTE }))
+        await store.saveItem(makeItem({ id: 'd', title: 'Oak Desk', status: 'scheduled', startsAt: NOW + MINUTE }))
+      })
+
+      it('sorts, filters and pages with a cursor', async () => {
+        const first = await store.queryItemIds({
+          sort: 'highest_bid',
+          status: 'live',
+          titlePrefixes: ['camera'],
+          limit: 2
+        })
+        assert.deepStrictEqual(first.entries, [{ id: 'a', score: 3000 }, { id: 'c', score: 2000 }])
+        assert.equal(first.total, 3)
+        assert.equal(first.hasMore, true)
+
+        const second = await store.queryItemIds({
+          sort: 'highest_bid',
+          status: 'live',
+          titlePrefixes: ['camera'],
+          after: first.entries[1],
+          limit: 2
+        })
+        assert.deepStrictEqual(second.entries, [{ id: 'b', score: 2000 }])
+        assert.equal(second.hasMore, false)
+      })
+
+      it('filters by price and end time ranges', async () => {
+        const byPrice = await store.queryItemIds({
+          sort: 'ending_soonest',
+          priceRange: [2500, undefined],
+          titlePrefixes: [],
+          limit: 10
+        })
+        assert.deepStrictEqual(byPrice.entries.map(({ id }) => id), ['a'])
+
+        const byEndsAt = await store.queryItemIds({
+          sort: 'ending_soonest',
+          endsAtRange: [NOW, NOW + 2 * MINUTE],
+          titlePrefixes: [],
+          limit: 10
+        })
+        assert.deepStrictEqual(byEndsAt.entries.map(({ id }) => id), ['b', 'c'])
+      })
+
+      it('compares prices only within the requested currency', async () => {
+        await store.saveItem(makeItem({ id: 'e', currency: 'JPY', currentBid: 500000 }))
+
+        const byPrice = await store.queryItemIds({
+          sort: 'highest_bid',
+          currency: 'USD',
+          priceRange: [2500, undefined],
+          titlePrefixes: [],
+          limit: 10
+        })
+        assert.deepStrictEqual(byPrice.entries.map(({ id }) => id), ['a'])
+
+        const inYen = await store.queryItemIds({
+          sort: 'highest_bid',
+          currency: 'JPY',
+          titlePrefixes: [],
+          limit: 10
+        })
+        assert.deepStrictEqual(inYen.entries, [{ id: 'e', score: 500000 }])
+      })
+
+      it('counts items by status and clears them all', async () => {
+        assert.deepStrictEqual(await store.countItemsByStatus(), {
+          scheduled: 1,
+          live: 3,
+          ended: 0,
+          cancelled: 0
+        })
+
+        await store.clearAllItems()
+
+        assert.deepStrictEqual(await store.getAllItems(), [])
+        assert.equal((await store.countItemsByStatus()).live, 0)
+      })
+    })
+  })
+}
+
+runConformance('In-memory', createMemoryAuctionStore())
+
+runConformance('Redis', redisAuctionStore, {
+  skip: process.env.TEST_REDIS === 'true' ? undefined : 'set TEST_REDIS=true to run against Redis'
+})
+
+after(async () => {
+  if (process.env.TEST_REDIS === 'true') {
+    await closeRedisClient()
+  }
+})
@@ -0,0 +1,212 @@
+import { AuctionItem, AuctionSort, AuctionStatus, BidRecord } from '../models/auctionItem'
+import { config } from '../config/env'
+import { redisAuctionStore } from './auction.store'
+import { createMemoryAuctionStore } from './memoryAuction.store'
+
+export interface AuctionQueryOptions {
+  sort: AuctionSort
+  status?: AuctionStatus
+  currency?: string
+  endsAtRange?: [number, number]
+  priceRange?: [number | undefined, number | undefined]
+  titlePrefixes: string[]
+  after?: { score: number, id: string } // sort score and ID of the last item on the previous page
+  limit: number
+}
+
+export interface AuctionQueryIds {
+  entries: Array<{ id: string, score: number }>
+  total: number
+  hasMore: boolean
+}
+
+/**
+ * Storage for auction items, their bids and the indexes the scheduler and
+ * queries read
+ * Every write is atomic: concurrent calls behave as if they ran one at a
+ * time, so exactly one of two racing bids can take the lead. Implementations
+ * must pass the conformance suite in auctionStore.test.ts.
+ * Times are passed in (server time), never read from a clock.
+ */
+export interface AuctionStore {
+  /**
+   * Retrieves auction items by ID, in the given order; missing IDs are skipped
+   */
+  getItemsByIds: (itemIds: string[]) => Promise<AuctionItem[]>
+
+  /**
+   * Retrieves all auction items, ending soonest first
+   */
+  getAllItems: () => Promise<AuctionItem[]>
+
+  getItemById: (itemId: string) => Promise<AuctionItem | null>
+
+  /**
+   * Creates or updates an item along with its index entries
+   * Fields left undefined keep their stored value; derived fields are never stored
+   */
+  saveItem: (item: AuctionItem) => Promise<void>
+
+  /**
+   * Applies an admin edit, guarded by the item's version
+   * Returns status code: 1 (updated), 0 (version changed), -1 (not found),
+   * -2 (ended), -3 (startsAt changed after the auction started)
+   */
+  updateItem: (
+    itemId: string,
+    expectedVersion: number,
+    changes: Partial<AuctionItem>,
+    removals?: Array<keyof AuctionItem>
+  ) => Promise<number>
+
+  /**
+   * Opens a scheduled auction for bidding if startsAt has passed
+   * Returns false if nothing changed
+   */
+  startAuction: (itemId: string, serverTime: number) => Promise<boolean>
+
+  /**
+   * Cancels a scheduled or live auction and queues its settlement
+   * Returns false if the item is missing, ended or already cancelled
+   */
+  cancelAuction: (itemId: string, serverTime: number) => Promise<boolean>
+
+  /**
+   * Places an English auction bid, resolving proxy (maximum) bids, soft
+   * close, buy it now and late starts and ends (see placeBid.lua)
+   * Returns status code: 3 (bought now), 2 (outbid by proxy), 1 (accepted),
+   * 0 (too low), -1 (ended), -2 (below increment), -3 (not started), with
+   * the history entries it accepted, oldest first (a proxy's counter-bid
+   * included; none when a leader only raised their maximum)
+   */
+  placeBidAtomic: (
+    itemId: string,
+    bidAmount: number,
+    bidderName: string,
+    serverTime: number,
+    currency: string,
+    isProxy?: boolean
+  ) => Promise<{ status: number, accepted: BidRecord[] }>
+
+  /**
+   * Records a hidden bid on a sealed-bid auction
+   * Returns status code: 1 (sealed), 0 (too low), -1 (ended), -3 (not started)
+   */
+  placeSealedBid: (
+    itemId: string,
+    bidAmount: number,
+    bidderName: string,
+    serverTime: number
+  ) => Promise<number>
+
+  /**
+   * Takes a Dutch auction at its current clock price, if bidAmount covers
+   * it, ending the auction
+   * Returns status code: 3 (taken), 0 (too low), -1 (ended), -3 (not started)
+   */
+  takeDutchPrice: (
+    itemId: string,
+    bidAmount: number,
+    bidderName: string,
+    serverTime: number
+  ) => Promise<number>
+
+  /**
+   * Voids an accepted bid (identified by its version) and restores the
+   * highest remaining bid, repricing it if a proxy placed it (see
+   * retractBid.lua)
+   * Returns status code: 1 (retracted), 0 (no such accepted bid), -1 (not
+   * found), -2 (ended), with the voided history entry when retracted
+   */
+  retractBid: (
+    itemId: string,
+    bidVersion: number,
+    retractedBy: string,
+    reason: string,
+    serverTime: number,
+    currency: string
+  ) => Promise<{ status: number, bid?: BidRecord }>
+
+  /**
+   * Retrieves a page of an item's bid history, most recent first
+   */
+  getBidHistory: (
+    itemId: string,
+    offset: number,
+    limit: number
+  ) => Promise<{ bids: BidRecord[], total: number }>
+
+  /**
+   * Ends an auction if it is still due at serverTime, revealing sealed bids,
+   * recording whether the reserve was met and queueing settlement
+   * Returns false if nothing changed
+   */
+  markAuctionEnded: (itemId: string, serverTime: number) => Promise<boolean>
+
+  /**
+   * Retrieves IDs of live auctions whose endsAt is before serverTime, earliest first
+   */
+  getDueAuctionIds: (serverTime: number, limit: number) => Promise<string[]>
+
+  /**
+   * Returns the earliest endsAt among live auctions, or null if there are none
+   */
+  getNextExpiryTime: () => Promise<number | null>
+
+  /**
+   * Retrieves live auctions whose endsAt is after from and at or before to,
+   * earliest first
+   */
+  getAuctionsEndingBetween: (
+    from: number,
+    to: number
+  ) => Promise<Array<{ id: string, endsAt: number }>>
+
+  /**
+   * Returns the earliest endsAt after serverTime among live auctions, or null
+   */
+  getNextExpiryTimeAfter: (serverTime: number) => Promise<number | null>
+
+  /**
+   * Retrieves IDs of scheduled auctions whose startsAt is at or before
+   * serverTime, earliest first
+   */
+  getDueStartIds: (serverTime: number, limit: number) => Promise<string[]>
+
+  /**
+   * Returns the earliest startsAt among scheduled auctions, or null
+   */
+  getNextStartTime: () => Promise<number | null>
+
+  countItemsByStatus: () => Promise<Record<AuctionStatus, number>>
+
+  /**
+   * Filters, sorts and pages auction IDs; ties on the sort score are ordered
+   * by ID, so a cursor stays valid when its item changes
+   */
+  queryItemIds: (options: AuctionQueryOptions) => Promise<AuctionQueryIds>
+
+  /**
+   * Retrieves up to limit IDs of ended or cancelled auctions awaiting a result record
+   */
+  getPendingSettlementIds: (limit: number) => Promise<string[]>
+
+  /**
+   * Drops an auction from the settlement queue
+   */
+  discardPendingSettlement: (itemId: string) => Promise<void>
+
+  /**
+   * Deletes all auction items, bids, indexes and pending settlements
+   * (used for testing/seeding)
+   */
+  clearAllItems: () => Promise<void>
+}
+
+/**
+ * The auction store selected by AUCTION_STORE
+ * The in-memory store is for tests and single-instance development: its
+ * auctions are lost on restart and invisible to other instances
+ */
+export const auctionStore: AuctionStore =
+  config.auctionStore === 'memory' ? createMemoryAuctionStore() : redisAuctionStore
@@ -0,0 +1,49 @@
+import { getRedisClient } from '../config/redis'
+import { Bidder, BidderRedis } from '../models/bidder'
+
+const BIDDER_KEY_PREFIX = 'auction:bidder:'
+
+/**
+ * Atomically registers a bidder
+ * Returns false if the username is already taken
+ */
+export async function createBidder (
+  bidder: Bidder,
+  passwordHash: string,
+  salt: string
+): Promise<boolean> {
+  const client = await getRedisClient()
+  const key = `${BIDDER_KEY_PREFIX}${bidder.username}`
+
+  // HSETNX claims the username; only the winner writes the rest
+  const claimed = await client.hSetNX(key, 'username', bidder.username)
+  if (!claimed) {
+    return false
+  }
+
+  await client.hSet(key, {
+    passwordHash,
+    salt,
+    createdAt: bidder.createdAt.toString()
+  })
+
+  return true
+}
+
+/**
+ * Retrieves a bidder's stored credentials by username
+ */
+export async function getBidderCredentials (
+  username: string
+): Promise<BidderRedis | null> {
+  const client = await getRedisClient()
+  const key = `${BIDDER_KEY_PREFIX}${username}`
+
+  const redisData = (await client.hGetAll(key)) as unknown as BidderRedis
+
+  if (!redisData || !redisData.username || !redisData.passwordHash) {
+    return null
+  }
+
+  return redisData
+}
@@ -0,0 +1,25 @@
+import { getRedisClient } from '../config/redis'
+import { ensureScriptsLoaded } from './scripts'
+
+/**
+ * Checks Redis is connected and answering commands
+ */
+export async function pingRedis (): Promise<void> {
+  const client = await getRedisClient()
+
+  // Commands sent while reconnecting queue instead of failing
+  if (!client.isReady) {
+    throw new Error('Redis client is not ready')
+  }
+  await client.ping()
+}
+
+/**
+ * Checks Redis has every Lua script cached, loading (and so compiling) any
+ * that are missing
+ * Returns the names of the scripts that had to be loaded
+ */
+export async function loadMissingScripts (): Promise<string[]> {
+  const client = await getRedisClient()
+  return await ensureScriptsLoaded(client)
+}
@@ -0,0 +1,100 @@
+import { config } from '../config/env'
+import {
+  AuctionEndReason,
+  AuctionItem,
+  AuctionItemRedis,
+  AuctionStatus,
+  AuctionType,
+  BidIncrementTier
+} from '../models/auctionItem'
+
+// Populated by the service layer, never stored
+const DERIVED_FIELDS = ['bidHistory', 'nextMinimumBid', 'reserveMet', 'winner']
+
+/**
+ * Returns the lifecycle status of stored item data
+ * Items stored before scheduling existed have no status field
+ */
+function parseStatus (redisData: AuctionItemRedis): AuctionStatus {
+  if (redisData.status) {
+    return redisData.status as AuctionStatus
+  }
+  if (redisData.ended !== 'true') {
+    return 'live'
+  }
+  return redisData.endReason === 'CANCELLED' ? 'cancelled' : 'ended'
+}
+
+/**
+ * Converts Redis hash data to AuctionItem interface
+ */
+export function parseAuctionItem (redisData: AuctionItemRedis): AuctionItem {
+  const endsAt = parseInt(redisData.endsAt, 10)
+
+  return {
+    id: redisData.id,
+    title: redisData.title,
+    auctionType: (redisData.auctionType as AuctionType) || 'english',
+    currency: redisData.currency || config.defaultCurrency,
+    startingPrice: parseInt(redisData.startingPrice, 10),
+    currentBid: parseInt(redisData.currentBid, 10),
+    highestBidder: redisData.highestBidder,
+    status: parseStatus(redisData),
+    startsAt: parseInt(redisData.startsAt || '0', 10),
+    endsAt,
+    originalEndsAt: redisData.originalEndsAt
+      ? parseInt(redisData.originalEndsAt, 10)
+      : endsAt,
+    softCloseWindowMs: parseInt(redisData.softCloseWindowMs || '0', 10),
+    softCloseExtensionMs: parseInt(redisData.softCloseExtensionMs || '0', 10),
+    softCloseMaxExtensionMs: parseInt(
+      redisData.softCloseMaxExtensionMs || '0',
+      10
+    ),
+    bidIncrements: redisData.bidIncrements
+      ? (JSON.parse(redisData.bidIncrements) as BidIncrementTier[])
+      : undefined,
+    reservePrice: redisData.reservePrice
+      ? parseInt(redisData.reservePrice, 10)
+      : undefined,
+    buyNowPrice: redisData.buyNowPrice
+      ? parseInt(redisData.buyNowPrice, 10)
+      : undefined,
+    floorPrice: redisData.floorPrice
+      ? parseInt(redisData.floorPrice, 10)
+      : undefined,
+    priceDrop: redisData.priceDrop
+      ? parseInt(redisData.priceDrop, 10)
+      : undefined,
+    priceDropIntervalMs: redisData.priceDropIntervalMs
+      ? parseInt(redisData.priceDropIntervalMs, 10)
+      : undefined,
+    ended: redisData.ended === 'true',
+    endReason: (redisData.endReason as AuctionEndReason) || undefined,
+    endedAt: redisData.endedAt ? parseInt(redisData.endedAt, 10) : undefined,
+    version: parseInt(redisData.version, 10),
+    bidCount: parseInt(redisData.bidCount || '0', 10)
+  }
+}
+
+/**
+ * Converts AuctionItem fields to Redis hash fields
+ * Derived fields populated by the service layer are never stored
+ */
+export function serializeAuctionItem (item: Partial<AuctionItem>): Record<string, string> {
+  const fields: Record<string, string> = {}
+
+  for (const [field, value] of Object.entries(item)) {
+    if (
+      value === undefined ||
+      DERIVED_FIELDS.includes(field) ||
+      (Array.isArray(value) && value.length === 0)
+    ) {
+      continue
+    }
+    fields[field] =
+      typeof value === 'object' ? JSON.stringify(value) : String(value)
+  }
+
+  return fields
+}
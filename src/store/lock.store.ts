@@ -0,0 +1,39 @@
+import { getRedisClient } from '../config/redis'
+import { loadScript, runScript } from './scripts'
+
+const LOCK_KEY_PREFIX = 'auction:lock:'
+
+// Load Lua scripts at module initialization
+const acquireLockScript = loadScript('acquireLock')
+const releaseLockScript = loadScript('releaseLock')
+
+/**
+ * Acquires a named lock with a TTL, or renews it if owner already holds it
+ * Returns true while owner holds the lock
+ */
+export async function acquireLock (
+  name: string,
+  owner: string,
+  ttlMs: number
+): Promise<boolean> {
+  const client = await getRedisClient()
+
+  const result = await runScript(client, acquireLockScript, {
+    keys: [`${LOCK_KEY_PREFIX}${name}`],
+    arguments: [owner, ttlMs.toString()]
+  })
+
+  return result === 1
+}
+
+/**
+ * Releases a named lock if owner still holds it
+ */
+export async function releaseLock (name: string, owner: string): Promise<void> {
+  const client = await getRedisClient()
+
+  await runScript(client, releaseLockScript, {
+    keys: [`${LOCK_KEY_PREFIX}${name}`],
+    arguments: [owner]
+  })
+}
@@ -0,0 +1,909 @@
+import { config } from '../config/env'
+import {
+  AuctionItem,
+  AuctionItemRedis,
+  AuctionSort,
+  AuctionStatus,
+  BidIncrementTier,
+  BidRecord
+} from '../models/auctionItem'
+import { getTitlePrefixes } from '../utils/search'
+import { getDefaultIncrementTable } from '../utils/bidIncrement'
+import { AuctionQueryIds, AuctionQueryOptions, AuctionStore } from './auctionStore'
+import { parseAuctionItem, serializeAuctionItem } from './itemHash'
+
+// Item fields as the Redis store keeps them, so both parse the same way
+type ItemHash = Record<string, string>
+// Member -> score, read in Redis order by sortedEntries
+type SortedSet = Map<string, number>
+
+interface SealedBid {
+  amount: number
+  timestamp: number
+}
+
+const STATUSES: AuctionStatus[] = ['scheduled', 'live', 'ended', 'cancelled']
+
+/**
+ * Returns a sorted set's entries by score, ties ordered by member as in Redis
+ */
+function sortedEntries (set: SortedSet): Array<{ id: string, score: number }> {
+  return [...set]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => {
+      if (a.score !== b.score) {
+        return a.score - b.score
+      }
+      return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+    })
+}
+
+function toNumber (value: string | undefined): number | undefined {
+  return value !== undefined ? Number(value) : undefined
+}
+
+function incrementField (hash: ItemHash, field: string, by: number): void {
+  hash[field] = String((toNumber(hash[field]) ?? 0) + by)
+}
+
+function zIncrement (set: SortedSet, member: string, by: number): void {
+  set.set(member, (set.get(member) ?? 0) + by)
+}
+
+/**
+ * Returns the increment for the tier an amount falls in, from the item's
+ * table or the currency's default one
+ */
+function getIncrementLookup (hash: ItemHash, currency: string): (amount: number) => number {
+  const incrementTiers = (
+    hash.bidIncrements !== undefined
+      ? JSON.parse(hash.bidIncrements)
+      : getDefaultIncrementTable(currency)
+  ) as BidIncrementTier[]
+
+  return amount => {
+    for (const tier of incrementTiers) {
+      if (typeof tier.upTo !== 'number' || amount < tier.upTo) {
+        return tier.increment
+      }
+    }
+    return incrementTiers[incrementTiers.length - 1].increment
+  }
+}
+
+/**
+ * Creates an empty in-memory auction store with the same semantics as the
+ * Redis store: each method ports the matching Lua script in src/lua
+ * Method bodies never await, so each runs to completion before the next
+ * starts; that is what makes them atomic
+ */
+export function createMemoryAuctionStore (): AuctionStore {
+  const items = new Map<string, ItemHash>()
+  // Bid history entries as JSON, newest first
+  const histories = new Map<string, string[]>()
+  const proxyBids = new Map<string, Map<string, number>>()
+  const sealedBids = new Map<string, Map<string, SealedBid>>()
+  const expiryIndex: SortedSet = new Map()
+  const startIndex: SortedSet = new Map()
+  const endsAtIndex: SortedSet = new Map()
+  const currentBidIndex: SortedSet = new Map()
+  const bidCountIndex: SortedSet = new Map()
+  const statusIndexes = new Map<AuctionStatus, Set<string>>(
+    STATUSES.map(status => [status, new Set()])
+  )
+  const titleIndexes = new Map<string, Set<string>>()
+  const pendingSettlement = new Set<string>()
+
+  const sortIndexes: Record<AuctionSort, SortedSet> = {
+    ending_soonest: endsAtIndex,
+    highest_bid: currentBidIndex,
+    most_bids: bidCountIndex
+  }
+
+  function statusIndex (status: AuctionStatus): Set<string> {
+    return statusIndexes.get(status) as Set<string>
+  }
+
+  function moveStatus (itemId: string, from: AuctionStatus, to: AuctionStatus): void {
+    statusIndex(from).delete(itemId)
+    statusIndex(to).add(itemId)
+  }
+
+  function historyOf (itemId: string): string[] {
+    let history = histories.get(itemId)
+    if (!history) {
+      history = []
+      histories.set(itemId, history)
+    }
+    return history
+  }
+
+  function addTitlePrefix (prefix: string, itemId: string): void {
+    let index = titleIndexes.get(prefix)
+    if (!index) {
+      index = new Set()
+      titleIndexes.set(prefix, index)
+    }
+    index.add(itemId)
+  }
+
+  function getItemsByIdsNow (itemIds: string[]): AuctionItem[] {
+    return itemIds
+      .map(itemId => items.get(itemId))
+      .filter((hash): hash is ItemHash => hash !== undefined && Boolean(hash.id))
+      .map(hash => parseAuctionItem(hash as unknown as AuctionItemRedis))
+  }
+
+  function indexItem (item: AuctionItem): void {
+    if (item.status === 'scheduled') {
+      startIndex.set(item.id, item.startsAt)
+    } else {
+      startIndex.delete(item.id)
+    }
+
+    if (item.status === 'live') {
+      expiryIndex.set(item.id, item.endsAt)
+    } else {
+      expiryIndex.delete(item.id)
+    }
+
+    endsAtIndex.set(item.id, item.endsAt)
+    currentBidIndex.set(item.id, item.currentBid)
+    bidCountIndex.set(item.id, item.bidCount)
+
+    for (const status of STATUSES) {
+      if (status === item.status) {
+        statusIndex(status).add(item.id)
+      } else {
+        statusIndex(status).delete(item.id)
+      }
+    }
+
+    for (const prefix of getTitlePrefixes(item.title)) {
+      addTitlePrefix(prefix, item.id)
+    }
+  }
+
+  function reindexTitle (itemId: string, oldTitle: string, newTitle: string): void {
+    const newPrefixes = getTitlePrefixes(newTitle)
+
+    for (const prefix of getTitlePrefixes(oldTitle)) {
+      if (!newPrefixes.includes(prefix)) {
+        titleIndexes.get(prefix)?.delete(itemId)
+      }
+    }
+    for (const prefix of newPrefixes) {
+      addTitlePrefix(prefix, itemId)
+    }
+  }
+
+  /**
+   * Ports placeBid.lua
+   */
+  function placeBid (
+    itemId: string,
+    bidAmount: number,
+    bidderName: string,
+    serverTime: number,
+    currency: string,
+    isProxy: boolean
+  ): number {
+    const hash = items.get(itemId)
+    if (!hash) {
+      return -1
+    }
+
+    const id = hash.id
+    const history = historyOf(itemId)
+    const currentBid = Number(hash.currentBid)
+    const highestBidder = hash.highestBidder ?? ''
+    let endsAt = Number(hash.endsAt)
+    const startsAt = toNumber(hash.startsAt) ?? 0
+    let status = hash.status
+    let version = Number(hash.version)
+    const originalEndsAt = toNumber(hash.originalEndsAt) ?? endsAt
+    const softCloseWindowMs = toNumber(hash.softCloseWindowMs) ?? 0
+    const softCloseExtensionMs = toNumber(hash.softCloseExtensionMs) ?? 0
+    const softCloseMaxExtensionMs = toNumber(hash.softCloseMaxExtensionMs) ?? 0
+    const buyNowPrice = toNumber(hash.buyNowPrice) ?? 0
+    const incrementFor = getIncrementLookup(hash, currency)
+
+    const recordBid = (amount: number, bidder: string, bidStatus: string, autoBid: boolean): void => {
+      history.unshift(JSON.stringify({
+        amount,
+        bidderName: bidder,
+        timestamp: serverTime,
+        version,
+        status: bidStatus,
+        ...(autoBid ? { autoBid } : {})
+      }))
+    }
+
+    const acceptBid = (amount: number, bidder: string, autoBid: boolean): void => {
+      version++
+      hash.currentBid = String(amount)
+      hash.highestBidder = bidder
+      hash.version = String(version)
+      incrementField(hash, 'bidCount', 1)
+      currentBidIndex.set(id, amount)
+      zIncrement(bidCountIndex, id, 1)
+      recordBid(amount, bidder, 'BID_ACCEPTED', autoBid)
+    }
+
+    const markEnded = (endReason: string): void => {
+      version++
+      hash.status = 'ended'
+      hash.ended = 'true'
+      hash.endReason = endReason
+      hash.endedAt = String(serverTime)
+      hash.version = String(version)
+      expiryIndex.delete(id)
+      moveStatus(id, 'live', 'ended')
+      pendingSettlement.add(id)
+    }
+
+    const extendIfLate = (): void => {
+      if (softCloseExtensionMs <= 0 || endsAt - serverTime > softCloseWindowMs) {
+        return
+      }
+      const newEndsAt = Math.min(
+        serverTime + softCloseExtensionMs,
+        originalEndsAt + softCloseMaxExtensionMs
+      )
+      if (newEndsAt > endsAt) {
+        endsAt = newEndsAt
+        hash.endsAt = String(endsAt)
+        expiryIndex.set(id, endsAt)
+        endsAtIndex.set(id, endsAt)
+      }
+    }
+
+    if (status === 'scheduled') {
+      if (serverTime < startsAt) {
+        if (config.recordRejectedBids) {
+          recordBid(bidAmount, bidderName, 'NOT_STARTED', isProxy)
+        }
+        return -3
+      }
+      status = 'live'
+      version++
+      hash.status = status
+      hash.version = String(version)
+      startIndex.delete(id)
+      expiryIndex.set(id, endsAt)
+      moveStatus(id, 'scheduled', 'live')
+    }
+
+    // An expired live auction is left to the expiry worker
+    if (status !== 'live' || serverTime > endsAt) {
+      if (config.recordRejectedBids) {
+        recordBid(bidAmount, bidderName, 'AUCTION_ENDED', isProxy)
+      }
+      return -1
+    }
+
+    if (!isProxy && buyNowPrice > 0 && currentBid < buyNowPrice && bidAmount >= buyNowPrice) {
+      acceptBid(buyNowPrice, bidderName, false)
+      markEnded('BOUGHT_NOW')
+      return 3
+    }
+
+    if (bidAmount <= currentBid) {
+      if (config.recordRejectedBids) {
+        recordBid(bidAmount, bidderName, 'BID_TOO_LOW', isProxy)
+      }
+      return 0
+    }
+
+    if (bidAmount < currentBid + incrementFor(currentBid)) {
+      if (config.recordRejectedBids) {
+        recordBid(bidAmount, bidderName, 'BID_BELOW_INCREMENT', isProxy)
+      }
+      return -2
+    }
+
+    let proxies = proxyBids.get(itemId)
+    if (!proxies) {
+      proxies = new Map()
+      proxyBids.set(itemId, proxies)
+    }
+    if (isProxy) {
+      proxies.set(bidderName, bidAmount)
+    }
+
+    if (highestBidder === bidderName) {
+      if (!isProxy) {
+        acceptBid(bidAmount, bidderName, false)
+        extendIfLate()
+      }
+      return 1
+    }
+
+    let leaderMax = currentBid
+    if (highestBidder !== '') {
+      const storedMax = proxies.get(highestBidder)
+      if (storedMax !== undefined && storedMax > leaderMax) {
+        leaderMax = storedMax
+      }
+    }
+
+    if (highestBidder !== '' && leaderMax >= bidAmount) {
+      acceptBid(bidAmount, bidderName, isProxy)
+      acceptBid(Math.min(leaderMax, bidAmount + incrementFor(bidAmount)), highestBidder, true)
+      extendIfLate()
+      return 2
+    }
+
+    const leadAmount = isProxy
+      ? Math.min(bidAmount, leaderMax + incrementFor(leaderMax))
+      : bidAmount
+    acceptBid(leadAmount, bidderName, isProxy)
+    extendIfLate()
+
+    return 1
+  }
+
+  /**
+   * Ports endAuction.lua
+   */
+  function endAuction (itemId: string, serverTime: number): boolean {
+    const hash = items.get(itemId)
+    if (!hash || hash.status !== 'live') {
+      expiryIndex.delete(itemId)
+      return false
+    }
+
+    const endsAt = Number(hash.endsAt)
+    if (serverTime <= endsAt) {
+      expiryIndex.set(itemId, endsAt)
+      return false
+    }
+
+    let currentBid = Number(hash.currentBid)
+    let highestBidder = hash.highestBidder ?? ''
+    const reservePrice = toNumber(hash.reservePrice) ?? 0
+    const auctionType = hash.auctionType ?? 'english'
+    const version = Number(hash.version) + 1
+
+    if (auctionType === 'sealed_first_price' || auctionType === 'sealed_second_price') {
+      const bids = [...(sealedBids.get(itemId) ?? [])].map(
+        ([bidderName, bid]) => ({ ...bid, bidderName })
+      )
+
+      if (bids.length > 0) {
+        bids.sort((a, b) => b.amount - a.amount || a.timestamp - b.timestamp)
+
+        const winner = bids[0]
+        highestBidder = winner.bidderName
+        currentBid = winner.amount
+        if (auctionType === 'sealed_second_price') {
+          const runnerUp = bids.length > 1 ? bids[1].amount : 0
+          currentBid = Math.max(
+            runnerUp,
+            Number(hash.startingPrice),
+            Math.min(reservePrice, winner.amount)
+          )
+        }
+
+        hash.currentBid = String(currentBid)
+        hash.highestBidder = highestBidder
+        currentBidIndex.set(itemId, currentBid)
+
+        // Oldest first, so the history list stays newest first
+        const history = historyOf(itemId)
+        bids.sort((a, b) => a.timestamp - b.timestamp)
+        for (const bid of bids) {
+          history.unshift(JSON.stringify({
+            amount: bid.amount,
+            bidderName: bid.bidderName,
+            timestamp: bid.timestamp,
+            version,
+            status: 'BID_SEALED'
+          }))
+        }
+      }
+    }
+
+    const endReason =
+      reservePrice > 0 && (highestBidder === '' || currentBid < reservePrice)
+        ? 'RESERVE_NOT_MET'
+        : 'TIME_EXPIRED'
+
+    hash.status = 'ended'
+    hash.ended = 'true'
+    hash.endReason = endReason
+    hash.endedAt = String(serverTime)
+    hash.version = String(version)
+    expiryIndex.delete(itemId)
+    moveStatus(itemId, 'live', 'ended')
+    pendingSettlement.add(itemId)
+
+    return true
+  }
+
+  return {
+    async getItemsByIds (itemIds: string[]): Promise<AuctionItem[]> {
+      return getItemsByIdsNow(itemIds)
+    },
+
+    async getAllItems (): Promise<AuctionItem[]> {
+      return getItemsByIdsNow(sortedEntries(endsAtIndex).map(({ id }) => id))
+    },
+
+    async getItemById (itemId: string): Promise<AuctionItem | null> {
+      const [item] = getItemsByIdsNow([itemId])
+
+      return item ?? null
+    },
+
+    async saveItem (item: AuctionItem): Promise<void> {
+      const hash = items.get(item.id) ?? {}
+      const oldTitle = hash.title
+
+      items.set(item.id, Object.assign(hash, serializeAuctionItem(item)))
+      indexItem(item)
+
+      if (oldTitle !== undefined && oldTitle !== item.title) {
+        reindexTitle(item.id, oldTitle, item.title)
+      }
+    },
+
+    // Ports updateItem.lua
+    async updateItem (
+      itemId: string,
+      expectedVersion: number,
+      changes: Partial<AuctionItem>,
+      removals: Array<keyof AuctionItem> = []
+    ): Promise<number> {
+      const hash = items.get(itemId)
+      if (!hash) {
+        return -1
+      }
+
+      const status = hash.status
+      if (status !== 'scheduled' && status !== 'live') {
+        return -2
+      }
+
+      const fields = serializeAuctionItem(changes)
+      if (fields.startsAt !== undefined && status !== 'scheduled') {
+        return -3
+      }
+
+      if (hash.version !== expectedVersion.toString()) {
+        return 0
+      }
+
+      const oldTitle = hash.title
+      Object.assign(hash, fields)
+      for (const field of removals) {
+        delete hash[field]
+      }
+      incrementField(hash, 'version', 1)
+
+      if (fields.endsAt !== undefined) {
+        if (status === 'live') {
+          expiryIndex.set(itemId, Number(fields.endsAt))
+        }
+        endsAtIndex.set(itemId, Number(fields.endsAt))
+      }
+      if (fields.startsAt !== undefined) {
+        startIndex.set(itemId, Number(fields.startsAt))
+      }
+      if (fields.currentBid !== undefined) {
+        currentBidIndex.set(itemId, Number(fields.currentBid))
+      }
+
+      if (oldTitle !== undefined && changes.title !== undefined) {
+        reindexTitle(itemId, oldTitle, changes.title)
+      }
+
+      return 1
+    },
+
+    // Ports startAuction.lua
+    async startAuction (itemId: string, serverTime: number): Promise<boolean> {
+      const hash = items.get(itemId)
+      if (!hash || hash.status !== 'scheduled') {
+        startIndex.delete(itemId)
+        return false
+      }
+
+      const startsAt = toNumber(hash.startsAt) ?? 0
+      if (serverTime < startsAt) {
+        startIndex.set(itemId, startsAt)
+        return false
+      }
+
+      hash.status = 'live'
+      incrementField(hash, 'version', 1)
+      startIndex.delete(itemId)
+      expiryIndex.set(itemId, Number(hash.endsAt))
+      moveStatus(itemId, 'scheduled', 'live')
+
+      return true
+    },
+
+    // Ports cancelAuction.lua
+    async cancelAuction (itemId: string, serverTime: number): Promise<boolean> {
+      const hash = items.get(itemId)
+      if (!hash || (hash.status !== 'scheduled' && hash.status !== 'live')) {
+        return false
+      }
+
+      incrementField(hash, 'version', 1)
+      hash.status = 'cancelled'
+      hash.ended = 'true'
+      hash.endReason = 'CANCELLED'
+      hash.endedAt = String(serverTime)
+      expiryIndex.delete(itemId)
+      startIndex.delete(itemId)
+      statusIndex('scheduled').delete(itemId)
+      statusIndex('live').delete(itemId)
+      statusIndex('cancelled').add(itemId)
+      pendingSettlement.add(itemId)
+
+      return true
+    },
+
+    async placeBidAtomic (
+      itemId: string,
+      bidAmount: number,
+      bidderName: string,
+      serverTime: number,
+      currency: string,
+      isProxy = false
+    ): Promise<{ status: number, accepted: BidRecord[] }> {
+      const recorded = histories.get(itemId)?.length ?? 0
+      const status = placeBid(itemId, bidAmount, bidderName, serverTime, currency, isProxy)
+
+      // The entries the bid pushed onto the history, oldest first
+      const history = histories.get(itemId) ?? []
+      return {
+        status,
+        accepted: history
+          .slice(0, history.length - recorded)
+          .reverse()
+          .map(entry => JSON.parse(entry) as BidRecord)
+          .filter(entry => entry.status === 'BID_ACCEPTED')
+      }
+    },
+
+    // Ports placeSealedBid.lua
+    async placeSealedBid (
+      itemId: string,
+      bidAmount: number,
+      bidderName: string,
+      serverTime: number
+    ): Promise<number> {
+      const hash = items.get(itemId)
+      if (!hash) {
+        return -1
+      }
+
+      if (hash.status === 'scheduled') {
+        return -3
+      }
+      if (hash.status !== 'live' || serverTime > Number(hash.endsAt)) {
+        return -1
+      }
+      if (bidAmount < Number(hash.startingPrice)) {
+        return 0
+      }
+
+      let bids = sealedBids.get(itemId)
+      if (!bids) {
+        bids = new Map()
+        sealedBids.set(itemId, bids)
+      }
+      const existing = bids.get(bidderName)
+      if (existing && bidAmount <= existing.amount) {
+        return 0
+      }
+
+      bids.set(bidderName, { amount: bidAmount, timestamp: serverTime })
+      incrementField(hash, 'version', 1)
+      if (!existing) {
+        incrementField(hash, 'bidCount', 1)
+        zIncrement(bidCountIndex, hash.id, 1)
+      }
+
+      return 1
+    },
+
+    // Ports takeDutchPrice.lua
+    async takeDutchPrice (
+      itemId: string,
+      bidAmount: number,
+      bidderName: string,
+      serverTime: number
+    ): Promise<number> {
+      const hash = items.get(itemId)
+      if (!hash) {
+        return -1
+      }
+
+      if (hash.status === 'scheduled') {
+        return -3
+      }
+      if (hash.status !== 'live' || serverTime > Number(hash.endsAt)) {
+        return -1
+      }
+
+      const startsAt = toNumber(hash.startsAt) ?? 0
+      const drops = Math.floor(
+        Math.max(serverTime - startsAt, 0) / Number(hash.priceDropIntervalMs)
+      )
+      const price = Math.max(
+        Number(hash.floorPrice),
+        Number(hash.startingPrice) - Number(hash.priceDrop) * drops
+      )
+
+      if (bidAmount < price) {
+        return 0
+      }
+
+      const id = hash.id
+      const version = Number(hash.version) + 1
+      Object.assign(hash, {
+        currentBid: String(price),
+        highestBidder: bidderName,
+        version: String(version),
+        status: 'ended',
+        ended: 'true',
+        endReason: 'TAKEN',
+        endedAt: String(serverTime)
+      })
+      incrementField(hash, 'bidCount', 1)
+      currentBidIndex.set(id, price)
+      zIncrement(bidCountIndex, id, 1)
+      historyOf(itemId).unshift(JSON.stringify({
+        amount: price,
+        bidderName,
+        timestamp: serverTime,
+        version,
+        status: 'BID_ACCEPTED'
+      }))
+      expiryIndex.delete(id)
+      moveStatus(id, 'live', 'ended')
+      pendingSettlement.add(id)
+
+      return 3
+    },
+
+    // Ports retractBid.lua
+    async retractBid (
+      itemId: string,
+      bidVersion: number,
+      retractedBy: string,
+      reason: string,
+      serverTime: number,
+      currency: string
+    ): Promise<{ status: number, bid?: BidRecord }> {
+      const hash = items.get(itemId)
+      if (!hash) {
+        return { status: -1, bid: undefined }
+      }
+      if (hash.ended === 'true') {
+        return { status: -2, bid: undefined }
+      }
+
+      // Find the bid, the accepted bids that will still stand and the highest of them
+      const history = historyOf(itemId)
+      let targetIndex = -1
+      let target: BidRecord | null = null
+      const standing: BidRecord[] = []
+      let leader: BidRecord | null = null
+      for (const [index, raw] of history.entries()) {
+        const entry = JSON.parse(raw) as BidRecord
+        if (entry.status !== 'BID_ACCEPTED') {
+          continue
+        }
+        if (entry.version === bidVersion && target === null) {
+          targetIndex = index
+          target = entry
+        } else {
+          standing.push(entry)
+          if (leader === null || entry.amount > leader.amount) {
+            leader = entry
+          }
+        }
+      }
+
+      if (target === null) {
+        return { status: 0, bid: undefined }
+      }
+
+      const retracted: BidRecord = {
+        ...target,
+        status: 'BID_RETRACTED',
+        retractedBy,
+        retractedAt: serverTime,
+        retractReason: reason
+      }
+      history[targetIndex] = JSON.stringify(retracted)
+      proxyBids.get(itemId)?.delete(retracted.bidderName)
+
+      const startingPrice = Number(hash.startingPrice)
+      let currentBid = leader !== null ? leader.amount : startingPrice
+
+      // An automatic lead only pays one increment over the best rival bid left
+      if (leader?.autoBid === true) {
+        const incrementFor = getIncrementLookup(hash, currency)
+        let rivalBid = startingPrice
+        let ownManualBid = 0
+        for (const entry of standing) {
+          if (entry.bidderName !== leader.bidderName) {
+            rivalBid = Math.max(rivalBid, entry.amount)
+          } else if (entry.autoBid !== true) {
+            ownManualBid = Math.max(ownManualBid, entry.amount)
+          }
+        }
+        currentBid = Math.max(
+          ownManualBid,
+          Math.min(leader.amount, rivalBid + incrementFor(rivalBid))
+        )
+      }
+
+      hash.currentBid = String(currentBid)
+      hash.highestBidder = leader !== null ? leader.bidderName : ''
+      incrementField(hash, 'version', 1)
+      incrementField(hash, 'bidCount', -1)
+      currentBidIndex.set(hash.id, currentBid)
+      zIncrement(bidCountIndex, hash.id, -1)
+
+      return { status: 1, bid: JSON.parse(history[targetIndex]) as BidRecord }
+    },
+
+    async getBidHistory (
+      itemId: string,
+      offset: number,
+      limit: number
+    ): Promise<{ bids: BidRecord[], total: number }> {
+      const history = histories.get(itemId) ?? []
+
+      return {
+        bids: history
+          .slice(offset, offset + limit)
+          .map(entry => JSON.parse(entry) as BidRecord),
+        total: history.length
+      }
+    },
+
+    async markAuctionEnded (itemId: string, serverTime: number): Promise<boolean> {
+      return endAuction(itemId, serverTime)
+    },
+
+    async getDueAuctionIds (serverTime: number, limit: number): Promise<string[]> {
+      return sortedEntries(expiryIndex)
+        .filter(({ score }) => score < serverTime)
+        .slice(0, limit)
+        .map(({ id }) => id)
+    },
+
+    async getNextExpiryTime (): Promise<number | null> {
+      return sortedEntries(expiryIndex)[0]?.score ?? null
+    },
+
+    async getAuctionsEndingBetween (
+      from: number,
+      to: number
+    ): Promise<Array<{ id: string, endsAt: number }>> {
+      return sortedEntries(expiryIndex)
+        .filter(({ score }) => score > from && score <= to)
+        .map(({ id, score }) => ({ id, endsAt: score }))
+    },
+
+    async getNextExpiryTimeAfter (serverTime: number): Promise<number | null> {
+      return sortedEntries(expiryIndex).find(({ score }) => score > serverTime)?.score ?? null
+    },
+
+    async getDueStartIds (serverTime: number, limit: number): Promise<string[]> {
+      return sortedEntries(startIndex)
+        .filter(({ score }) => score <= serverTime)
+        .slice(0, limit)
+        .map(({ id }) => id)
+    },
+
+    async getNextStartTime (): Promise<number | null> {
+      return sortedEntries(startIndex)[0]?.score ?? null
+    },
+
+    async countItemsByStatus (): Promise<Record<AuctionStatus, number>> {
+      return Object.fromEntries(
+        STATUSES.map(status => [status, statusIndex(status).size])
+      ) as Record<AuctionStatus, number>
+    },
+
+    // Ports queryItems.lua
+    async queryItemIds (options: AuctionQueryOptions): Promise<AuctionQueryIds> {
+      const filters: Array<(itemId: string) => boolean> = []
+
+      const addRangeFilter = (
+        index: SortedSet,
+        min: number | undefined,
+        max: number | undefined
+      ): void => {
+        if (min === undefined && max === undefined) {
+          return
+        }
+        filters.push(itemId => {
+          const score = index.get(itemId)
+          return score !== undefined && score >= (min ?? -Infinity) && score <= (max ?? Infinity)
+        })
+      }
+
+      const [minEndsAt, maxEndsAt] = options.endsAtRange ?? []
+      const [minPrice, maxPrice] = options.priceRange ?? []
+      addRangeFilter(endsAtIndex, minEndsAt, maxEndsAt)
+      addRangeFilter(currentBidIndex, minPrice, maxPrice)
+
+      if (options.status) {
+        const index = statusIndex(options.status)
+        filters.push(itemId => index.has(itemId))
+      }
+      if (options.currency) {
+        const currency = options.currency
+        filters.push(itemId => items.get(itemId)?.currency === currency)
+      }
+      for (const prefix of options.titlePrefixes) {
+        filters.push(itemId => titleIndexes.get(prefix)?.has(itemId) ?? false)
+      }
+
+      const matches: SortedSet = new Map()
+      for (const [itemId, score] of sortIndexes[options.sort]) {
+        if (filters.every(filter => filter(itemId))) {
+          matches.set(itemId, score)
+        }
+      }
+      const total = matches.size
+
+      // Resume after the cursor: inserting it at its old score gives its position
+      if (options.after) {
+        matches.set(options.after.id, options.after.score)
+      }
+      const ranked = sortedEntries(matches)
+      if (options.sort !== 'ending_soonest') {
+        ranked.reverse()
+      }
+
+      const after = options.after
+      const start = after ? ranked.findIndex(({ id }) => id === after.id) + 1 : 0
+
+      return {
+        entries: ranked.slice(start, start + options.limit),
+        total,
+        hasMore: start + options.limit < ranked.length
+      }
+    },
+
+    async getPendingSettlementIds (limit: number): Promise<string[]> {
+      return [...pendingSettlement].slice(0, limit)
+    },
+
+    async discardPendingSettlement (itemId: string): Promise<void> {
+      pendingSettlement.delete(itemId)
+    },
+
+    async clearAllItems (): Promise<void> {
+      for (const collection of [
+        items,
+        histories,
+        proxyBids,
+        sealedBids,
+        expiryIndex,
+        startIndex,
+        endsAtIndex,
+        currentBidIndex,
+        bidCountIndex,
+        titleIndexes,
+        pendingSettlement
+      ]) {
+        collection.clear()
+      }
+      for (const index of statusIndexes.values()) {
+        index.clear()
+      }
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { getRedisClient } from '../config/redis'
+import { loadScript, runScript } from './scripts'
+
+const RATE_LIMIT_KEY_PREFIX = 'auction:ratelimit:'
+
+// Load Lua scripts at module initialization
+const rateLimitScript = loadScript('rateLimit')
+
+export interface TokenBucket {
+  name: string // e.g. "bidder:alice" or "socket:<id>"
+  capacity: number
+  ratePerSecond: number
+}
+
+/**
+ * Atomically takes a token from every bucket, counting rejections against
+ * subject towards a ban
+ * Returns status code: 1 (allowed), 0 (rate limited), -1 (banned), with the
+ * milliseconds until a retry can succeed
+ */
+export async function consumeTokens (
+  subject: string,
+  buckets: TokenBucket[],
+  serverTime: number,
+  ban: { maxViolations: number, windowMs: number, durationMs: number }
+): Promise<{ status: number, retryAfterMs: number }> {
+  const client = await getRedisClient()
+
+  const result = (await runScript(client, rateLimitScript, {
+    keys: [
+      `${RATE_LIMIT_KEY_PREFIX}ban:${subject}`,
+      `${RATE_LIMIT_KEY_PREFIX}violations:${subject}`,
+      ...buckets.map(bucket => `${RATE_LIMIT_KEY_PREFIX}bucket:${bucket.name}`)
+    ],
+    arguments: [
+      serverTime.toString(),
+      ban.maxViolations.toString(),
+      ban.windowMs.toString(),
+      ban.durationMs.toString(),
+      ...buckets.flatMap(bucket => [
+        bucket.capacity.toString(),
+        bucket.ratePerSecond.toString()
+      ])
+    ]
+  })) as [number, number]
+
+  return { status: result[0], retryAfterMs: result[1] }
+}
+
+/**
+ * Returns how long a subject stays banned, in milliseconds (0 if not banned)
+ */
+export async function getBanRemainingMs (subject: string): Promise<number> {
+  const client = await getRedisClient()
+  const ttl = await client.pTTL(`${RATE_LIMIT_KEY_PREFIX}ban:${subject}`)
+
+  return Math.max(ttl, 0)
+}
@@ -0,0 +1,142 @@
+import { getRedisClient } from '../config/redis'
+import { AuctionResult } from '../models/auctionResult'
+import { toMinorUnits } from '../utils/money'
+
+const RESULT_KEY_PREFIX = 'auction:result:'
+// Sorted sets of item IDs scored by closedAt: every result, and each bidder's wins
+const RESULTS_INDEX_KEY = 'auction:results'
+const WINS_KEY_PREFIX = 'auction:wins:'
+
+/**
+ * Stores a result record and indexes it
+ * Idempotent: settling the same ended auction twice writes the same record
+ */
+export async function saveResult (result: AuctionResult): Promise<void> {
+  const client = await getRedisClient()
+
+  const multi = client
+    .multi()
+    .set(`${RESULT_KEY_PREFIX}${result.itemId}`, JSON.stringify(result))
+    .zAdd(RESULTS_INDEX_KEY, { score: result.closedAt, value: result.itemId })
+
+  if (result.winner !== null) {
+    multi.zAdd(`${WINS_KEY_PREFIX}${result.winner}`, {
+      score: result.closedAt,
+      value: result.itemId
+    })
+  }
+
+  await multi.exec()
+}
+
+/**
+ * Retrieves the result records for the given item IDs, in order
+ */
+async function getResultsByIds (itemIds: string[]): Promise<AuctionResult[]> {
+  if (itemIds.length === 0) {
+    return []
+  }
+
+  const client = await getRedisClient()
+  const records = await client.mGet(
+    itemIds.map(itemId => `${RESULT_KEY_PREFIX}${itemId}`)
+  )
+
+  return records
+    .filter((record): record is string => record !== null)
+    .map(record => JSON.parse(record) as AuctionResult)
+}
+
+/**
+ * Retrieves a single result record
+ */
+export async function getResult (itemId: string): Promise<AuctionResult | null> {
+  const [result] = await getResultsByIds([itemId])
+
+  return result ?? null
+}
+
+/**
+ * Retrieves a page of results from a closedAt index, most recent first
+ */
+async function getResultPage (
+  indexKey: string,
+  offset: number,
+  limit: number
+): Promise<{ results: AuctionResult[], total: number }> {
+  const client = await getRedisClient()
+
+  const [itemIds, total] = await Promise.all([
+    client.zRange(indexKey, offset, offset + limit - 1, { REV: true }),
+    client.zCard(indexKey)
+  ])
+
+  return { results: await getResultsByIds(itemIds), total }
+}
+
+/**
+ * Retrieves a page of all auction results, most recently closed first
+ */
+export async function getResults (
+  offset: number,
+  limit: number
+): Promise<{ results: AuctionResult[], total: number }> {
+  return await getResultPage(RESULTS_INDEX_KEY, offset, limit)
+}
+
+/**
+ * Retrieves a page of the auctions a bidder won, most recently closed first
+ */
+export async function getBidderWins (
+  bidder: string,
+  offset: number,
+  limit: number
+): Promise<{ results: AuctionResult[], total: number }> {
+  return await getResultPage(`${WINS_KEY_PREFIX}${bidder}`, offset, limit)
+}
+
+/**
+ * Converts result records written with a decimal hammer price to integer
+ * minor units, assigning them the given currency
+ * Returns how many records were converted
+ */
+export async function migrateToMinorUnits (currency: string): Promise<number> {
+  const client = await getRedisClient()
+  const itemIds = await client.zRange(RESULTS_INDEX_KEY, 0, -1)
+
+  let migrated = 0
+  for (const result of await getResultsByIds(itemIds)) {
+    if (result.currency !== undefined) {
+      continue
+    }
+
+    await client.set(
+      `${RESULT_KEY_PREFIX}${result.itemId}`,
+      JSON.stringify({
+        ...result,
+        currency,
+        hammerPrice:
+          result.hammerPrice !== null
+            ? toMinorUnits(result.hammerPrice, currency)
+            : null
+      })
+    )
+    migrated++
+  }
+
+  return migrated
+}
+
+/**
+ * Deletes all result records and their indexes (used for testing/seeding)
+ */
+export async function clearAllResults (): Promise<void> {
+  const client = await getRedisClient()
+  const keys = [
+    ...(await client.keys(`${RESULT_KEY_PREFIX}*`)),
+    ...(await client.keys(`${WINS_KEY_PREFIX}*`)),
+    RESULTS_INDEX_KEY
+  ]
+
+  await client.del(keys)
+}
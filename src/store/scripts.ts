@@ -0,0 +1,73 @@
+import { createHash } from 'crypto'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { RedisClientType } from '../config/redis'
+import { luaScriptDuration } from '../metrics/auction.metrics'
+
+export interface LuaScript {
+  name: string
+  source: string
+  sha1: string
+}
+
+// Every script loaded by a store, so readiness can check Redis has them
+const scripts: LuaScript[] = []
+
+/**
+ * Loads a Lua script from src/lua by name, at module initialization
+ */
+export function loadScript (name: string): LuaScript {
+  const source = readFileSync(join(__dirname, `../lua/${name}.lua`), 'utf-8')
+  const script = {
+    name,
+    source,
+    sha1: createHash('sha1').update(source).digest('hex')
+  }
+  scripts.push(script)
+  return script
+}
+
+function isNoScriptError (error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith('NOSCRIPT')
+}
+
+/**
+ * Runs a Lua script atomically, recording its latency per script
+ * Runs the copy cached in Redis by SHA1, sending the source only if Redis
+ * doesn't have it (e.g. after a restart)
+ */
+export async function runScript (
+  client: RedisClientType,
+  script: LuaScript,
+  options: { keys: string[], arguments: string[] }
+): Promise<unknown> {
+  const endTimer = luaScriptDuration.startTimer({ script: script.name })
+  try {
+    return await client.evalSha(script.sha1, options)
+  } catch (error) {
+    if (!isNoScriptError(error)) {
+      throw error
+    }
+    return await client.eval(script.source, options)
+  } finally {
+    endTimer()
+  }
+}
+
+/**
+ * Makes sure Redis has every script cached, loading any that are missing
+ * Returns the names of the scripts that had to be loaded
+ */
+export async function ensureScriptsLoaded (client: RedisClientType): Promise<string[]> {
+  if (scripts.length === 0) {
+    return []
+  }
+
+  const exists = await client.scriptExists(scripts.map(script => script.sha1))
+  const missing = scripts.filter((_script, index) => !exists[index])
+
+  for (const script of missing) {
+    await client.scriptLoad(script.source)
+  }
+  return missing.map(script => script.name)
+}
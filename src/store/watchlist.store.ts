@@ -0,0 +1,130 @@
+import { getRedisClient } from '../config/redis'
+import { loadScript, runScript } from './scripts'
+
+// Sets of the item IDs each bidder watches
+const WATCHLIST_KEY_PREFIX = 'auction:watchlist:'
+// Sets of the bidders watching each item, for notifying them
+const WATCHERS_KEY_PREFIX = 'auction:watchers:'
+// Hashes of the "ending soon" alerts sent for each item (threshold -> endsAt)
+const ENDING_SOON_KEY_PREFIX = 'auction:ending-soon:'
+
+// Load Lua scripts at module initialization
+const markEndingSoonScript = loadScript('markEndingSoon')
+
+/**
+ * Retrieves the item IDs a bidder watches
+ */
+export async function getWatchlist (bidderName: string): Promise<string[]> {
+  const client = await getRedisClient()
+
+  return await client.sMembers(`${WATCHLIST_KEY_PREFIX}${bidderName}`)
+}
+
+/**
+ * Retrieves the bidders watching an item
+ */
+export async function getWatchers (itemId: string): Promise<string[]> {
+  const client = await getRedisClient()
+
+  return await client.sMembers(`${WATCHERS_KEY_PREFIX}${itemId}`)
+}
+
+/**
+ * Returns whether a bidder watches an item, and how many items they watch
+ */
+export async function getWatchlistEntry (
+  bidderName: string,
+  itemId: string
+): Promise<{ watching: boolean, size: number }> {
+  const client = await getRedisClient()
+  const key = `${WATCHLIST_KEY_PREFIX}${bidderName}`
+
+  const [watching, size] = await Promise.all([
+    client.sIsMember(key, itemId),
+    client.sCard(key)
+  ])
+  return { watching: Boolean(watching), size }
+}
+
+/**
+ * Adds an item to a bidder's watchlist
+ */
+export async function addToWatchlist (bidderName: string, itemId: string): Promise<void> {
+  const client = await getRedisClient()
+
+  await client
+    .multi()
+    .sAdd(`${WATCHLIST_KEY_PREFIX}${bidderName}`, itemId)
+    .sAdd(`${WATCHERS_KEY_PREFIX}${itemId}`, bidderName)
+    .exec()
+}
+
+/**
+ * Removes an item from a bidder's watchlist
+ */
+export async function removeFromWatchlist (bidderName: string, itemId: string): Promise<void> {
+  const client = await getRedisClient()
+
+  await client
+    .multi()
+    .sRem(`${WATCHLIST_KEY_PREFIX}${bidderName}`, itemId)
+    .sRem(`${WATCHERS_KEY_PREFIX}${itemId}`, bidderName)
+    .exec()
+}
+
+/**
+ * Removes an item from every watchlist that holds it, and drops its watchers
+ * and alert records
+ * Returns the bidders who were watching it
+ */
+export async function removeItemFromWatchlists (itemId: string): Promise<string[]> {
+  const client = await getRedisClient()
+  const watchersKey = `${WATCHERS_KEY_PREFIX}${itemId}`
+
+  const watchers = await client.sMembers(watchersKey)
+  const transaction = client.multi()
+  for (const bidderName of watchers) {
+    transaction.sRem(`${WATCHLIST_KEY_PREFIX}${bidderName}`, itemId)
+  }
+  await transaction
+    .del([watchersKey, `${ENDING_SOON_KEY_PREFIX}${itemId}`])
+    .exec()
+
+  return watchers
+}
+
+/**
+ * Atomically records an "ending soon" alert for an auction and threshold
+ * Returns false if it was already sent for this end time (see markEndingSoon.lua)
+ */
+export async function markEndingSoon (
+  itemId: string,
+  thresholdMs: number,
+  endsAt: number,
+  expireAt: number
+): Promise<boolean> {
+  const client = await getRedisClient()
+
+  const result = await runScript(client, markEndingSoonScript, {
+    keys: [`${ENDING_SOON_KEY_PREFIX}${itemId}`],
+    arguments: [thresholdMs.toString(), endsAt.toString(), expireAt.toString()]
+  })
+
+  return result === 1
+}
+
+/**
+ * Deletes every watchlist and alert record
+ */
+export async function clearAllWatchlists (): Promise<void> {
+  const client = await getRedisClient()
+  const keys = [
+    ...(await client.keys(`${WATCHLIST_KEY_PREFIX}*`)),
+    ...(await client.keys(`${WATCHERS_KEY_PREFIX}*`)),
+    ...(await client.keys(`${ENDING_SOON_KEY_PREFIX}*`))
+  ]
+
+  if (keys.length > 0) {
+    await client.del(keys)
+  }
+}
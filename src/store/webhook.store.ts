@@ -0,0 +1,253 @@
+import { getRedisClient } from '../config/redis'
+import { WebhookDelivery, WebhookSubscription } from '../models/webhook'
+import { loadScript, runScript } from './scripts'
+
+const SUBSCRIPTION_KEY_PREFIX = 'webhook:subscription:'
+// Set of every subscription ID
+const SUBSCRIPTIONS_KEY = 'webhook:subscriptions'
+const DELIVERY_KEY_PREFIX = 'webhook:delivery:'
+// Sorted sets of each subscription's delivery IDs scored by createdAt
+const DELIVERIES_KEY_PREFIX = 'webhook:deliveries:'
+// Sorted set of pending delivery IDs scored by next attempt time
+const DELIVERY_QUEUE_KEY = 'webhook:queue'
+// List of delivery IDs that ran out of attempts, most recent first
+const DEAD_LETTER_KEY = 'webhook:dead'
+
+// Deliveries kept per subscription for inspection; older ones are deleted
+const MAX_DELIVERY_HISTORY = 1000
+
+// Load Lua scripts at module initialization
+const claimDeliveriesScript = loadScript('claimWebhookDeliveries')
+
+function deliveriesKey (subscriptionId: string): string {
+  return `${DELIVERIES_KEY_PREFIX}${subscriptionId}`
+}
+
+/**
+ * Stores a subscription
+ */
+export async function saveSubscription (subscription: WebhookSubscription): Promise<void> {
+  const client = await getRedisClient()
+
+  await client
+    .multi()
+    .set(`${SUBSCRIPTION_KEY_PREFIX}${subscription.id}`, JSON.stringify(subscription))
+    .sAdd(SUBSCRIPTIONS_KEY, subscription.id)
+    .exec()
+}
+
+/**
+ * Retrieves every subscription, oldest first
+ */
+export async function getSubscriptions (): Promise<WebhookSubscription[]> {
+  const client = await getRedisClient()
+  const ids = await client.sMembers(SUBSCRIPTIONS_KEY)
+
+  if (ids.length === 0) {
+    return []
+  }
+
+  const records = await client.mGet(ids.map(id => `${SUBSCRIPTION_KEY_PREFIX}${id}`))
+  return records
+    .filter((record): record is string => record !== null)
+    .map(record => JSON.parse(record) as WebhookSubscription)
+    .sort((a, b) => a.createdAt - b.createdAt)
+}
+
+/**
+ * Retrieves a single subscription
+ */
+export async function getSubscription (id: string): Promise<WebhookSubscription | null> {
+  const client = await getRedisClient()
+  const record = await client.get(`${SUBSCRIPTION_KEY_PREFIX}${id}`)
+
+  return record !== null ? (JSON.parse(record) as WebhookSubscription) : null
+}
+
+/**
+ * Deletes a subscription with all of its deliveries, pending or dead
+ * Returns false if it didn't exist
+ */
+export async function deleteSubscription (id: string): Promise<boolean> {
+  const client = await getRedisClient()
+  const deliveryIds = await client.zRange(deliveriesKey(id), 0, -1)
+
+  const multi = client
+    .multi()
+    .del(`${SUBSCRIPTION_KEY_PREFIX}${id}`)
+    .sRem(SUBSCRIPTIONS_KEY, id)
+    .del(deliveriesKey(id))
+
+  for (const deliveryId of deliveryIds) {
+    multi
+      .del(`${DELIVERY_KEY_PREFIX}${deliveryId}`)
+      .zRem(DELIVERY_QUEUE_KEY, deliveryId)
+      .lRem(DEAD_LETTER_KEY, 0, deliveryId)
+  }
+
+  const [deleted] = await multi.exec()
+  return deleted === 1
+}
+
+/**
+ * Stores new deliveries and queues them for their first attempt, trimming
+ * each subscription's history to MAX_DELIVERY_HISTORY
+ */
+export async function enqueueDeliveries (deliveries: WebhookDelivery[]): Promise<void> {
+  if (deliveries.length === 0) {
+    return
+  }
+
+  const client = await getRedisClient()
+  const multi = client.multi()
+
+  for (const delivery of deliveries) {
+    multi
+      .set(`${DELIVERY_KEY_PREFIX}${delivery.id}`, JSON.stringify(delivery))
+      .zAdd(deliveriesKey(delivery.subscriptionId), {
+        score: delivery.createdAt,
+        value: delivery.id
+      })
+      .zAdd(DELIVERY_QUEUE_KEY, {
+        score: delivery.nextAttemptAt as number,
+        value: delivery.id
+      })
+  }
+  await multi.exec()
+
+  for (const subscriptionId of new Set(deliveries.map(delivery => delivery.subscriptionId))) {
+    const expiredIds = await client.zRange(
+      deliveriesKey(subscriptionId),
+      0,
+      -(MAX_DELIVERY_HISTORY + 1)
+    )
+    if (expiredIds.length === 0) {
+      continue
+    }
+
+    const trim = client.multi().zRem(deliveriesKey(subscriptionId), expiredIds)
+    for (const deliveryId of expiredIds) {
+      trim
+        .del(`${DELIVERY_KEY_PREFIX}${deliveryId}`)
+        .zRem(DELIVERY_QUEUE_KEY, deliveryId)
+        .lRem(DEAD_LETTER_KEY, 0, deliveryId)
+    }
+    await trim.exec()
+  }
+}
+
+/**
+ * Atomically claims up to limit due deliveries, hiding them from other
+ * instances until leaseUntil
+ */
+export async function claimDueDeliveryIds (
+  serverTime: number,
+  limit: number,
+  leaseUntil: number
+): Promise<string[]> {
+  const client = await getRedisClient()
+
+  const result = await runScript(client, claimDeliveriesScript, {
+    keys: [DELIVERY_QUEUE_KEY],
+    arguments: [serverTime.toString(), limit.toString(), leaseUntil.toString()]
+  })
+
+  return result as string[]
+}
+
+/**
+ * Retrieves deliveries by ID, in order; deleted deliveries are skipped
+ */
+export async function getDeliveriesByIds (ids: string[]): Promise<WebhookDelivery[]> {
+  if (ids.length === 0) {
+    return []
+  }
+
+  const client = await getRedisClient()
+  const records = await client.mGet(ids.map(id => `${DELIVERY_KEY_PREFIX}${id}`))
+
+  return records
+    .filter((record): record is string => record !== null)
+    .map(record => JSON.parse(record) as WebhookDelivery)
+}
+
+/**
+ * Retrieves a single delivery
+ */
+export async function getDelivery (id: string): Promise<WebhookDelivery | null> {
+  const [delivery] = await getDeliveriesByIds([id])
+
+  return delivery ?? null
+}
+
+/**
+ * Removes a delivery from the queue without attempting it again
+ */
+export async function dequeueDelivery (id: string): Promise<void> {
+  const client = await getRedisClient()
+
+  await client.zRem(DELIVERY_QUEUE_KEY, id)
+}
+
+/**
+ * Stores a delivery after an attempt or a redrive and moves it by status:
+ * pending deliveries are (re)queued for nextAttemptAt, delivered ones leave
+ * the queue and dead ones go to the dead-letter list
+ */
+export async function saveDelivery (delivery: WebhookDelivery): Promise<void> {
+  const client = await getRedisClient()
+  const multi = client
+    .multi()
+    .set(`${DELIVERY_KEY_PREFIX}${delivery.id}`, JSON.stringify(delivery))
+    .lRem(DEAD_LETTER_KEY, 0, delivery.id)
+
+  if (delivery.status === 'pending') {
+    multi.zAdd(DELIVERY_QUEUE_KEY, {
+      score: delivery.nextAttemptAt as number,
+      value: delivery.id
+    })
+  } else {
+    multi.zRem(DELIVERY_QUEUE_KEY, delivery.id)
+  }
+
+  if (delivery.status === 'dead') {
+    multi.lPush(DEAD_LETTER_KEY, delivery.id)
+  }
+
+  await multi.exec()
+}
+
+/**
+ * Retrieves a page of a subscription's deliveries, most recent first
+ */
+export async function getSubscriptionDeliveries (
+  subscriptionId: string,
+  offset: number,
+  limit: number
+): Promise<{ deliveries: WebhookDelivery[], total: number }> {
+  const client = await getRedisClient()
+
+  const [ids, total] = await Promise.all([
+    client.zRange(deliveriesKey(subscriptionId), offset, offset + limit - 1, { REV: true }),
+    client.zCard(deliveriesKey(subscriptionId))
+  ])
+
+  return { deliveries: await getDeliveriesByIds(ids), total }
+}
+
+/**
+ * Retrieves a page of dead-lettered deliveries, most recent first
+ */
+export async function getDeadLetters (
+  offset: number,
+  limit: number
+): Promise<{ deliveries: WebhookDelivery[], total: number }> {
+  const client = await getRedisClient()
+
+  const [ids, total] = await Promise.all([
+    client.lRange(DEAD_LETTER_KEY, offset, offset + limit - 1),
+    client.lLen(DEAD_LETTER_KEY)
+  ])
+
+  return { deliveries: await getDeliveriesByIds(ids), total }
+}
@@ -0,0 +1,105 @@
+import { Response } from 'express'
+import { auctionEvents } from '../events/auction.events'
+import { AuctionItem } from '../models/auctionItem'
+import { StreamEvent, TypedServer } from '../types/socket'
+import { getServerTime } from '../utils/time'
+
+// Comment lines keep idle streams open through proxies and load balancers
+const HEARTBEAT_INTERVAL_MS = 15 * 1000
+// How long EventSource clients wait before reconnecting
+const RECONNECT_DELAY_MS = 3000
+
+interface StreamClient {
+  res: Response
+  itemIds: Set<string> | null // null receives every item's events
+}
+
+const clients = new Set<StreamClient>()
+
+/**
+ * Writes an event to every local client that follows its item
+ */
+function deliver (event: StreamEvent): void {
+  const frame = `event: ${event.name}\ndata: ${JSON.stringify(event.data)}\n\n`
+
+  for (const client of clients) {
+    if (client.itemIds === null || client.itemIds.has(event.itemId)) {
+      client.res.write(frame)
+    }
+  }
+}
+
+/**
+ * Opens a Server-Sent Events stream on the response
+ * With itemIds, only those items' events are sent; returns a function that
+ * detaches the client once the connection closes
+ */
+export function addStreamClient (res: Response, itemIds: string[]): () => void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  })
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+
+  const client: StreamClient = {
+    res,
+    itemIds: itemIds.length > 0 ? new Set(itemIds) : null
+  }
+  clients.add(client)
+
+  const heartbeat = setInterval(() => {
+    res.write(': keepalive\n\n')
+  }, HEARTBEAT_INTERVAL_MS)
+
+  return () => {
+    clearInterval(heartbeat)
+    clients.delete(client)
+  }
+}
+
+/**
+ * Ends every local stream for shutdown, after a SERVER_SHUTDOWN event
+ * EventSource clients reconnect on their own, through the load balancer to
+ * another instance
+ */
+export function closeStreamClients (message: string): void {
+  const frame = `event: SERVER_SHUTDOWN\ndata: ${JSON.stringify({ message })}\n\n`
+
+  for (const client of clients) {
+    client.res.end(frame)
+  }
+}
+
+/**
+ * Feeds the SSE stream from domain events
+ * Events raised on this instance are delivered locally and relayed to the
+ * other instances, which deliver them to their own clients
+ */
+export function initializeEventStream (io: TypedServer): void {
+  io.on('STREAM_EVENT', deliver)
+
+  const publish = (
+    name: StreamEvent['name'],
+    item: AuctionItem,
+    data: unknown = item
+  ): void => {
+    const event: StreamEvent = { name, itemId: item.id, data }
+    deliver(event)
+    io.serverSideEmit('STREAM_EVENT', event)
+  }
+
+  auctionEvents.on('BID_UPDATED', item => publish('UPDATE_BID', item))
+  auctionEvents.on('BID_RETRACTED', ({ item }) => publish('UPDATE_BID', item))
+  auctionEvents.on('AUCTION_STARTED', item => publish('AUCTION_STARTED', item))
+  auctionEvents.on('AUCTION_EXTENDED', item =>
+    publish('AUCTION_EXTENDED', item, {
+      itemId: item.id,
+      endsAt: item.endsAt,
+      serverTime: getServerTime()
+    })
+  )
+  auctionEvents.on('AUCTION_ENDED', item => publish('AUCTION_ENDED', item))
+  auctionEvents.on('AUCTION_CANCELLED', item => publish('AUCTION_CANCELLED', item))
+}
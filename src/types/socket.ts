@@ -1,19 +1,54 @@
-import { AuctionItem } from '../models/auctionItem';
+import { Server } from 'socket.io';
+import { AuctionItem, BidRecord } from '../models/auctionItem';
 
 export interface ServerToClientEvents {
   UPDATE_BID: (item: AuctionItem) => void;
   BID_ACCEPTED: (item: AuctionItem) => void;
+  SEALED_BID_ACCEPTED: (data: { itemId: string; amount: number; bidCount: number }) => void; // only to the bidder
   OUTBID: (data: { itemId: string; currentBid: number; message: string }) => void;
+  AUCTION_STARTED: (item: AuctionItem) => void;
   AUCTION_ENDED: (item: AuctionItem) => void;
+  AUCTION_EXTENDED: (data: { itemId: string; endsAt: number; serverTime: number }) => void;
+  ITEM_CREATED: (item: AuctionItem) => void;
+  ITEM_UPDATED: (item: AuctionItem) => void;
+  AUCTION_CANCELLED: (item: AuctionItem) => void;
+  BID_RETRACTED: (data: { item: AuctionItem; bid: BidRecord }) => void;
+  AUTH_REQUIRED: (data: { message: string }) => void;
+  RATE_LIMITED: (data: { itemId: string; retryAfterMs: number; banned: boolean; message: string }) => void;
+  SYNC: (data: { serverTime: number; items: AuctionItem[] }) => void; // only items that changed
+  SERVER_SHUTDOWN: (data: { message: string }) => void; // this instance is draining; reconnect once disconnected
+  WATCHLIST: (data: { itemIds: string[] }) => void; // the bidder's watchlist, on connect and after every change
+  WATCH_REJECTED: (data: { itemId: string; message: string }) => void; // only to the requesting socket
+  AUCTION_ENDING_SOON: (data: { itemId: string; title: string; endsAt: number; serverTime: number; thresholdMs: number }) => void; // only to watchers
 }
 
 export interface ClientToServerEvents {
-  BID_PLACED: (data: { itemId: string; amount: number; bidderName: string }) => void;
+  BID_PLACED: (data: { itemId: string; amount: number }) => void;
+  PROXY_BID_PLACED: (data: { itemId: string; maxAmount: number }) => void;
+  SUBSCRIBE_ITEM: (data: { itemId: string }) => void;
+  UNSUBSCRIBE_ITEM: (data: { itemId: string }) => void;
+  SYNC_REQUEST: (data: { versions: Record<string, number> }) => void; // itemId -> version last displayed
+  WATCH_ITEM: (data: { itemId: string }) => void;
+  UNWATCH_ITEM: (data: { itemId: string }) => void;
 }
 
-export interface InterServerEvents {}
+export interface InterServerEvents {
+  EXPIRY_SCHEDULE_CHANGED: () => void; // an auction was created or its startsAt or endsAt moved
+  STREAM_EVENT: (event: StreamEvent) => void; // relayed to the instance's SSE clients
+}
+
+/**
+ * An event sent to Server-Sent Events clients (GET /events)
+ * name and data match the Socket.io event of the same name
+ */
+export interface StreamEvent {
+  name: 'UPDATE_BID' | 'AUCTION_STARTED' | 'AUCTION_EXTENDED' | 'AUCTION_ENDED' | 'AUCTION_CANCELLED';
+  itemId: string;
+  data: unknown;
+}
 
 export interface SocketData {
-  userId?: string;
+  userId?: string; // authenticated bidder, set by the handshake middleware
 }
 
+export type TypedServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
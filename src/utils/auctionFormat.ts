@@ -0,0 +1,23 @@
+import { AuctionItem, AuctionType } from '../models/auctionItem'
+
+/**
+ * Checks whether bids on an auction format stay hidden until it closes.
+ */
+export function isSealed (auctionType: AuctionType): boolean {
+  return auctionType === 'sealed_first_price' || auctionType === 'sealed_second_price'
+}
+
+/**
+ * Returns a Dutch auction's clock price at the given time.
+ * Mirrors the calculation performed by takeDutchPrice.lua.
+ */
+export function getDutchPrice (item: AuctionItem, serverTime: number): number {
+  const drops = Math.floor(
+    Math.max(serverTime - item.startsAt, 0) / (item.priceDropIntervalMs ?? 1)
+  )
+
+  return Math.max(
+    item.floorPrice ?? 0,
+    item.startingPrice - (item.priceDrop ?? 0) * drops
+  )
+}
@@ -0,0 +1,47 @@
+import { AuctionItem, BidIncrementTier } from '../models/auctionItem'
+import { config } from '../config/env'
+import { toMinorUnitTiers } from './money'
+import { getDutchPrice, isSealed } from './auctionFormat'
+import { getServerTime } from './time'
+
+/**
+ * Returns the global default increment table in minor units of a currency.
+ */
+export function getDefaultIncrementTable (currency: string): BidIncrementTier[] {
+  return toMinorUnitTiers(config.defaultBidIncrements, currency)
+}
+
+/**
+ * Returns the increment table that applies to an item.
+ * Mirrors the lookup performed by placeBid.lua.
+ */
+export function getIncrementTable (item: AuctionItem): BidIncrementTier[] {
+  return item.bidIncrements && item.bidIncrements.length > 0
+    ? item.bidIncrements
+    : getDefaultIncrementTable(item.currency)
+}
+
+/**
+ * Returns the increment for a given current bid.
+ */
+export function getBidIncrement (
+  amount: number,
+  tiers: BidIncrementTier[]
+): number {
+  const tier = tiers.find(t => typeof t.upTo !== 'number' || amount < t.upTo)
+  return (tier || tiers[tiers.length - 1]).increment
+}
+
+/**
+ * Returns the lowest bid the item will currently accept.
+ * Sealed bids start from the starting price; Dutch auctions take the clock price.
+ */
+export function getNextMinimumBid (item: AuctionItem): number {
+  if (isSealed(item.auctionType)) {
+    return item.startingPrice
+  }
+  if (item.auctionType === 'dutch') {
+    return getDutchPrice(item, getServerTime())
+  }
+  return item.currentBid + getBidIncrement(item.currentBid, getIncrementTable(item))
+}
@@ -0,0 +1,44 @@
+/**
+ * Tracks whether this instance is shutting down, and the bids it is still
+ * processing, so shutdown can refuse new bids and wait for the rest
+ */
+
+// Retry-After for requests refused while draining; by then the proxy has
+// usually moved the client to another instance
+export const DRAIN_RETRY_AFTER_SECONDS = 2
+
+let draining = false
+const inFlight = new Set<Promise<unknown>>()
+
+export function isDraining (): boolean {
+  return draining
+}
+
+/**
+ * Stops the instance taking new work; readiness fails from here on
+ */
+export function startDraining (): void {
+  draining = true
+}
+
+/**
+ * Runs work, counting it as in flight until it settles
+ */
+export async function trackInFlight<T> (work: () => Promise<T>): Promise<T> {
+  const promise = work()
+  inFlight.add(promise)
+  try {
+    return await promise
+  } finally {
+    inFlight.delete(promise)
+  }
+}
+
+/**
+ * Resolves once all work in flight when called has settled
+ */
+export async function waitForInFlight (): Promise<number> {
+  const pending = [...inFlight]
+  await Promise.allSettled(pending)
+  return pending.length
+}
@@ -0,0 +1,82 @@
+import { config } from '../config/env'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogFields = Record<string, unknown>
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40
+}
+
+if (!(config.logLevel in LOG_LEVELS)) {
+  throw new Error(
+    `Environment variable LOG_LEVEL must be one of ${Object.keys(LOG_LEVELS).join(', ')}`
+  )
+}
+
+const minimumLevel = LOG_LEVELS[config.logLevel as LogLevel]
+
+// Errors have no enumerable fields, so JSON.stringify would drop them
+function serializeField (value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack }
+  }
+  return value
+}
+
+/**
+ * Writes structured JSON log lines, one per entry, tagged with the instance
+ * Child loggers carry correlation fields (requestId, socketId, ...) into
+ * every entry they write
+ */
+export class Logger {
+  constructor (private readonly fields: LogFields = {}) {}
+
+  child (fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...fields })
+  }
+
+  debug (message: string, fields?: LogFields): void {
+    this.write('debug', message, fields)
+  }
+
+  info (message: string, fields?: LogFields): void {
+    this.write('info', message, fields)
+  }
+
+  warn (message: string, fields?: LogFields): void {
+    this.write('warn', message, fields)
+  }
+
+  error (message: string, fields?: LogFields): void {
+    this.write('error', message, fields)
+  }
+
+  private write (level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LOG_LEVELS[level] < minimumLevel) {
+      return
+    }
+
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      instanceId: config.instanceId
+    }
+    for (const [key, value] of Object.entries({ ...this.fields, ...fields })) {
+      entry[key] = serializeField(value)
+    }
+
+    const line = JSON.stringify(entry) + '\n'
+    if (LOG_LEVELS[level] >= LOG_LEVELS.warn) {
+      process.stderr.write(line)
+    } else {
+      process.stdout.write(line)
+    }
+  }
+}
+
+export const logger = new Logger()
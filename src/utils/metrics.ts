@@ -0,0 +1,195 @@
+/**
+ * A minimal Prometheus metrics registry rendered in the text exposition
+ * format (https://prometheus.io/docs/instrumenting/exposition_formats/)
+ * Metrics are per instance; Prometheus scrapes and aggregates each one
+ */
+
+type Labels = Record<string, string>
+
+interface Metric {
+  render: () => string[]
+}
+
+const registry: Metric[] = []
+
+function escapeLabelValue (value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function formatLabels (labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  )
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+function formatValue (value: number): string {
+  if (value === Infinity) {
+    return '+Inf'
+  }
+  if (value === -Infinity) {
+    return '-Inf'
+  }
+  return value.toString()
+}
+
+// Series are keyed by their label values in the metric's label order
+function seriesKey (labelNames: string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map(name => labels[name] ?? ''))
+}
+
+function header (name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`]
+}
+
+/**
+ * A value that only goes up, e.g. bids processed
+ */
+export class Counter {
+  private readonly values = new Map<string, { labels: Labels, value: number }>()
+
+  constructor (
+    private readonly name: string,
+    private readonly help: string,
+    private readonly labelNames: string[] = []
+  ) {
+    registry.push(this)
+    // Unlabelled metrics read 0 before their first update
+    if (labelNames.length === 0) {
+      this.values.set(seriesKey(labelNames, {}), { labels: {}, value: 0 })
+    }
+  }
+
+  inc (labels: Labels = {}, amount = 1): void {
+    const key = seriesKey(this.labelNames, labels)
+    const series = this.values.get(key)
+    if (series) {
+      series.value += amount
+    } else {
+      this.values.set(key, { labels, value: amount })
+    }
+  }
+
+  render (): string[] {
+    const lines = header(this.name, this.help, 'counter')
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${formatValue(value)}`)
+    }
+    return lines
+  }
+}
+
+/**
+ * A value that goes up and down, e.g. connected sockets
+ */
+export class Gauge {
+  private readonly values = new Map<string, { labels: Labels, value: number }>()
+
+  constructor (
+    private readonly name: string,
+    private readonly help: string,
+    private readonly labelNames: string[] = []
+  ) {
+    registry.push(this)
+    if (labelNames.length === 0) {
+      this.values.set(seriesKey(labelNames, {}), { labels: {}, value: 0 })
+    }
+  }
+
+  set (labels: Labels, value: number): void {
+    this.values.set(seriesKey(this.labelNames, labels), { labels, value })
+  }
+
+  inc (labels: Labels = {}, amount = 1): void {
+    const key = seriesKey(this.labelNames, labels)
+    const series = this.values.get(key)
+    this.values.set(key, { labels, value: (series?.value ?? 0) + amount })
+  }
+
+  dec (labels: Labels = {}, amount = 1): void {
+    this.inc(labels, -amount)
+  }
+
+  render (): string[] {
+    const lines = header(this.name, this.help, 'gauge')
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${formatValue(value)}`)
+    }
+    return lines
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels
+  bucketCounts: number[]
+  sum: number
+  count: number
+}
+
+/**
+ * Counts observations into cumulative buckets, e.g. latencies in seconds
+ */
+export class Histogram {
+  private readonly values = new Map<string, HistogramSeries>()
+
+  constructor (
+    private readonly name: string,
+    private readonly help: string,
+    private readonly labelNames: string[],
+    private readonly buckets: number[]
+  ) {
+    registry.push(this)
+  }
+
+  observe (labels: Labels, value: number): void {
+    const key = seriesKey(this.labelNames, labels)
+    let series = this.values.get(key)
+    if (!series) {
+      series = { labels, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.values.set(key, series)
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        (series as HistogramSeries).bucketCounts[index]++
+      }
+    })
+    series.sum += value
+    series.count++
+  }
+
+  /**
+   * Starts a timer; calling the returned function observes the elapsed
+   * seconds
+   */
+  startTimer (labels: Labels = {}): (extraLabels?: Labels) => void {
+    const start = process.hrtime.bigint()
+    return (extraLabels = {}) => {
+      const elapsedNs = process.hrtime.bigint() - start
+      this.observe({ ...labels, ...extraLabels }, Number(elapsedNs) / 1e9)
+    }
+  }
+
+  render (): string[] {
+    const lines = header(this.name, this.help, 'histogram')
+    for (const { labels, bucketCounts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bound, index) => {
+        const bucketLabels = formatLabels({ ...labels, le: formatValue(bound) })
+        lines.push(`${this.name}_bucket${bucketLabels} ${bucketCounts[index]}`)
+      })
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`)
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`)
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`)
+    }
+    return lines
+  }
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+/**
+ * Renders every registered metric for a Prometheus scrape
+ */
+export function renderMetrics (): string {
+  return registry.flatMap(metric => metric.render()).join('\n') + '\n'
+}
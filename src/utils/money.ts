@@ -0,0 +1,64 @@
+import { BidIncrementTier } from '../models/auctionItem'
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/
+
+/**
+ * Checks that a code is a well-formed ISO 4217 currency code the runtime
+ * can format.
+ */
+export function isSupportedCurrency (currency: unknown): currency is string {
+  if (typeof currency !== 'string' || !CURRENCY_PATTERN.test(currency)) {
+    return false
+  }
+  try {
+    getMinorUnitDigits(currency)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Returns how many decimal places the currency's minor unit has
+ * (2 for USD cents, 0 for JPY).
+ */
+export function getMinorUnitDigits (currency: string): number {
+  return new Intl.NumberFormat('en', { style: 'currency', currency })
+    .resolvedOptions().maximumFractionDigits ?? 2
+}
+
+/**
+ * Checks that a value is a whole, positive number of minor units.
+ */
+export function isMinorUnitAmount (value: unknown): value is number {
+  return typeof value === 'number' && Number.isSafeInteger(value) && value > 0
+}
+
+/**
+ * Converts a decimal amount in major units (e.g. 12.5 USD) to integer minor
+ * units (1250), rounding to the nearest minor unit.
+ */
+export function toMinorUnits (amount: number, currency: string): number {
+  return Math.round(amount * 10 ** getMinorUnitDigits(currency))
+}
+
+/**
+ * Converts an increment table written in major units to minor units.
+ */
+export function toMinorUnitTiers (
+  tiers: BidIncrementTier[],
+  currency: string
+): BidIncrementTier[] {
+  return tiers.map(tier => ({
+    upTo: tier.upTo !== undefined ? toMinorUnits(tier.upTo, currency) : undefined,
+    increment: toMinorUnits(tier.increment, currency)
+  }))
+}
+
+/**
+ * Formats integer minor units for display, e.g. 1250 USD -> "$12.50".
+ */
+export function formatMoney (amount: number, currency: string): string {
+  return new Intl.NumberFormat('en', { style: 'currency', currency })
+    .format(amount / 10 ** getMinorUnitDigits(currency))
+}
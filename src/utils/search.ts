@@ -0,0 +1,29 @@
+const MIN_PREFIX_LENGTH = 2
+const MAX_PREFIX_LENGTH = 20
+
+/**
+ * Splits text into lowercase words, dropping punctuation.
+ */
+export function tokenize (text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= MIN_PREFIX_LENGTH)
+    .map(word => word.slice(0, MAX_PREFIX_LENGTH))
+}
+
+/**
+ * Returns every indexable prefix of a title's words, so a search for
+ * "rol" finds "Vintage Rolex".
+ */
+export function getTitlePrefixes (title: string): string[] {
+  const prefixes = new Set<string>()
+
+  for (const word of tokenize(title)) {
+    for (let length = MIN_PREFIX_LENGTH; length <= word.length; length++) {
+      prefixes.add(word.slice(0, length))
+    }
+  }
+
+  return [...prefixes]
+}
@@ -0,0 +1,176 @@
+import * as auctionService from '../services/auction.service'
+import * as settlementService from '../services/settlement.service'
+import * as watchlistService from '../services/watchlist.service'
+import * as lockStore from '../store/lock.store'
+import { config } from '../config/env'
+import { auctionEvents } from '../events/auction.events'
+import { getServerTime } from '../utils/time'
+import { TypedServer } from '../types/socket'
+import { logger } from '../utils/logger'
+
+const EXPIRY_LOCK_NAME = 'expiry-worker'
+
+/**
+ * Starts the auction start, expiry and settlement scheduler
+ * Instead of polling, the worker sleeps until the next auction in the start
+ * or expiry index is due. Only the holder of the expiry lock (a Redis key with a TTL)
+ * starts, ends and settles auctions, so the worker also wakes often enough to renew it; if the
+ * leader dies another instance takes over once the TTL lapses. New or
+ * rescheduled auctions wake the worker on every instance early.
+ * AUCTION_STARTED, AUCTION_ENDED and AUCTION_ENDING_SOON (see
+ * config.endingSoonThresholdsMs) are raised as domain events on the leader;
+ * the transports relay them so clients on every instance receive them once.
+ * Returns a function that stops the worker, waits for a running tick and
+ * releases the lock.
+ */
+export function startExpiryWorker (io: TypedServer): () => Promise<void> {
+  // Renew well within the TTL so a slow tick doesn't lose leadership
+  const maxSleepMs = Math.max(1, Math.floor(config.leaderLockTtlMs / 3))
+
+  let isLeader = false
+  let running = false
+  let wakeRequested = false
+  let stopped = false
+  let timer: NodeJS.Timeout | null = null
+  let currentTick: Promise<void> | null = null
+
+  const schedule = (delayMs: number): void => {
+    if (stopped) {
+      return
+    }
+    if (timer) {
+      clearTimeout(timer)
+    }
+    timer = setTimeout(() => {
+      currentTick = tick()
+    }, delayMs)
+  }
+
+  const wake = (): void => {
+    // A running tick reschedules itself when it finishes
+    if (running) {
+      wakeRequested = true
+    } else {
+      schedule(0)
+    }
+  }
+
+  const tick = async (): Promise<void> => {
+    running = true
+    let delayMs = maxSleepMs
+
+    try {
+      const wasLeader = isLeader
+      isLeader = await lockStore.acquireLock(
+        EXPIRY_LOCK_NAME,
+        config.instanceId,
+        config.leaderLockTtlMs
+      )
+
+      if (isLeader !== wasLeader) {
+        logger.info(
+          isLeader
+            ? 'Instance is now the expiry worker leader'
+            : 'Instance lost expiry worker leadership'
+        )
+      }
+
+      if (isLeader) {
+        // Both raise AUCTION_STARTED / AUCTION_ENDED for the transports
+        const startedAuctions = await auctionService.startDueAuctions()
+
+        for (const item of startedAuctions) {
+          logger.info('Auction started', { itemId: item.id, title: item.title })
+        }
+
+        const endedAuctions = await auctionService.checkAndEndExpiredAuctions()
+
+        for (const item of endedAuctions) {
+          logger.info('Auction ended', { itemId: item.id, title: item.title })
+        }
+
+        // Record results for everything ended since the last tick, including
+        // auctions ended by buy-now or cancellation elsewhere
+        const results = await settlementService.settlePendingAuctions()
+        for (const result of results) {
+          logger.info('Auction settled', {
+            itemId: result.itemId,
+            title: result.title,
+            winner: result.winner,
+            hammerPrice: result.hammerPrice
+          })
+        }
+
+        // Raises AUCTION_ENDING_SOON for the watchers of auctions that
+        // crossed an alert threshold
+        const alerts = await watchlistService.alertEndingSoonAuctions()
+        for (const alert of alerts) {
+          logger.info('Auction ending soon', {
+            itemId: alert.itemId,
+            thresholdMs: alert.thresholdMs,
+            watchers: alert.watchers.length
+          })
+        }
+
+        // Auctions start once the server time reaches startsAt and end
+        // once it is past endsAt
+        const [nextStartTime, nextExpiryTime, nextEndingSoonTime] = await Promise.all([
+          auctionService.getNextStartTime(),
+          auctionService.getNextExpiryTime(),
+          watchlistService.getNextEndingSoonTime()
+        ])
+        const now = getServerTime()
+        if (nextStartTime !== null) {
+          delayMs = Math.min(Math.max(nextStartTime - now, 0), delayMs)
+        }
+        if (nextExpiryTime !== null) {
+          delayMs = Math.min(Math.max(nextExpiryTime - now + 1, 0), delayMs)
+        }
+        if (nextEndingSoonTime !== null) {
+          delayMs = Math.min(Math.max(nextEndingSoonTime - now, 0), delayMs)
+        }
+      }
+    } catch (error) {
+      logger.error('Error checking expired auctions', { error })
+    } finally {
+      running = false
+      schedule(wakeRequested ? 0 : delayMs)
+      wakeRequested = false
+    }
+  }
+
+  // Another instance created or rescheduled an auction
+  io.on('EXPIRY_SCHEDULE_CHANGED', wake)
+
+  const onLocalScheduleChange = (): void => {
+    io.serverSideEmit('EXPIRY_SCHEDULE_CHANGED')
+    wake()
+  }
+  auctionEvents.on('ITEM_CREATED', onLocalScheduleChange)
+  auctionEvents.on('ITEM_UPDATED', onLocalScheduleChange)
+
+  schedule(0)
+  logger.info('Auction expiry worker started')
+
+  return async () => {
+    stopped = true
+    if (timer) {
+      clearTimeout(timer)
+    }
+    io.off('EXPIRY_SCHEDULE_CHANGED', wake)
+    auctionEvents.off('ITEM_CREATED', onLocalScheduleChange)
+    auctionEvents.off('ITEM_UPDATED', onLocalScheduleChange)
+
+    // Let a running tick finish its Redis work before the caller closes Redis
+    if (currentTick) {
+      await currentTick
+    }
+
+    if (isLeader) {
+      await lockStore.releaseLock(EXPIRY_LOCK_NAME, config.instanceId)
+      isLeader = false
+    }
+
+    logger.info('Auction expiry worker stopped')
+  }
+}
@@ -0,0 +1,92 @@
+import * as webhookService from '../services/webhook.service'
+import { auctionEvents, AuctionEventMap } from '../events/auction.events'
+import { WebhookEventType } from '../models/webhook'
+import { logger } from '../utils/logger'
+
+// How often each instance looks for due deliveries when the queue is idle
+const POLL_INTERVAL_MS = 1000
+const DELIVERY_BATCH_SIZE = 20
+
+/**
+ * Starts outbound webhooks
+ * Domain events raised on this instance are queued in Redis, one delivery
+ * per interested subscription, and every instance polls the queue; a due
+ * delivery is claimed by one instance at a time, so a crashed instance's
+ * deliveries are retried by the others.
+ * Returns a function that stops the worker once queued events are stored
+ * and running deliveries have been recorded.
+ */
+export function startWebhookWorker (): () => Promise<void> {
+  let stopped = false
+  let timer: NodeJS.Timeout | null = null
+  let currentTick: Promise<void> | null = null
+  const pendingEnqueues = new Set<Promise<void>>()
+
+  const enqueue = (event: WebhookEventType, data: unknown): void => {
+    const promise = webhookService.enqueueEvent(event, data).catch(error => {
+      logger.error('Error queueing webhook deliveries', { event, error })
+    })
+    pendingEnqueues.add(promise)
+    void promise.finally(() => pendingEnqueues.delete(promise))
+  }
+
+  const onBidAccepted = ({ item, bidderName, status, bid }: AuctionEventMap['BID_ACCEPTED']): void =>
+    enqueue('BID_ACCEPTED', { item, bidderName, status, bid })
+  const onAuctionEnded = (item: AuctionEventMap['AUCTION_ENDED']): void =>
+    enqueue('AUCTION_ENDED', item)
+  const onAuctionCancelled = (item: AuctionEventMap['AUCTION_CANCELLED']): void =>
+    enqueue('AUCTION_CANCELLED', item)
+  const onBidRetracted = ({ item, bid }: AuctionEventMap['BID_RETRACTED']): void =>
+    enqueue('BID_RETRACTED', { item, bid })
+
+  const schedule = (delayMs: number): void => {
+    if (stopped) {
+      return
+    }
+    timer = setTimeout(() => {
+      currentTick = tick()
+    }, delayMs)
+  }
+
+  const tick = async (): Promise<void> => {
+    let delayMs = POLL_INTERVAL_MS
+
+    try {
+      const claimed = await webhookService.processDueDeliveries(DELIVERY_BATCH_SIZE)
+      // A full batch means more may be due already
+      if (claimed === DELIVERY_BATCH_SIZE) {
+        delayMs = 0
+      }
+    } catch (error) {
+      logger.error('Error delivering webhooks', { error })
+    } finally {
+      schedule(delayMs)
+    }
+  }
+
+  auctionEvents.on('BID_ACCEPTED', onBidAccepted)
+  auctionEvents.on('AUCTION_ENDED', onAuctionEnded)
+  auctionEvents.on('AUCTION_CANCELLED', onAuctionCancelled)
+  auctionEvents.on('BID_RETRACTED', onBidRetracted)
+
+  schedule(0)
+  logger.info('Webhook worker started')
+
+  return async () => {
+    stopped = true
+    if (timer) {
+      clearTimeout(timer)
+    }
+    auctionEvents.off('BID_ACCEPTED', onBidAccepted)
+    auctionEvents.off('AUCTION_ENDED', onAuctionEnded)
+    auctionEvents.off('AUCTION_CANCELLED', onAuctionCancelled)
+    auctionEvents.off('BID_RETRACTED', onBidRetracted)
+
+    await Promise.all([...pendingEnqueues])
+    if (currentTick) {
+      await currentTick
+    }
+
+    logger.info('Webhook worker stopped')
+  }
+}